@@ -0,0 +1,78 @@
+import { TLSyncErrorCloseEventReason } from '@tldraw/sync-core'
+import { supabaseAdmin } from './supabase'
+import type { BoardRole } from './auth'
+import { getOpenRoom, openBoardIds } from './rooms'
+
+// Roles are checked when a connection starts, and then again this often for everyone
+// still connected, so people who were removed from a board, or made viewers, don't
+// keep writing to it until they happen to reconnect
+const ACCESS_CHECK_INTERVAL_MS = 10 * 1000
+
+interface BoardAccess {
+  user_id: string
+  deleted_at: string | null
+  members: Map<string, BoardRole>
+}
+
+// Owners, and the members of every open board, in two queries
+const loadBoardAccess = async (boardIds: string[]) => {
+  const { data: boards, error } = await supabaseAdmin
+    .from('boards')
+    .select('id, user_id, deleted_at')
+    .in('id', boardIds)
+
+  if (error) throw error
+
+  const { data: members, error: membersError } = await supabaseAdmin
+    .from('board_members')
+    .select('board_id, user_id, role')
+    .in('board_id', boardIds)
+    .not('user_id', 'is', null)
+
+  if (membersError) throw membersError
+
+  const access = new Map<string, BoardAccess>()
+  boards?.forEach(board => access.set(board.id, { user_id: board.user_id, deleted_at: board.deleted_at, members: new Map() }))
+  members?.forEach(member => access.get(member.board_id)?.members.set(member.user_id, member.role as BoardRole))
+  return access
+}
+
+// Same rules as getRoomRole: boards in the trash have no room, not even for their owner
+const roomRole = (board: BoardAccess | undefined, userId: string): BoardRole | null => {
+  if (!board || board.deleted_at) return null
+  if (board.user_id === userId) return 'owner'
+  return board.members.get(userId) ?? null
+}
+
+// Disconnects sessions whose role no longer matches how they joined. People without
+// access are told so and stay out; people whose role changed reconnect with the new one.
+const checkRoomAccess = async () => {
+  const boardIds = openBoardIds()
+  if (boardIds.length === 0) return
+
+  const access = await loadBoardAccess(boardIds)
+
+  for (const boardId of boardIds) {
+    const room = await getOpenRoom(boardId)
+    if (!room) continue
+
+    const board = access.get(boardId)
+    room.getSessions().forEach(({ sessionId, isReadonly, meta }) => {
+      const role = roomRole(board, meta.userId)
+
+      if (!role) {
+        console.warn(`⛔ ${meta.userId} lost access to board ${boardId}`)
+        room.closeSession(sessionId, board && !board.deleted_at
+          ? TLSyncErrorCloseEventReason.FORBIDDEN
+          : TLSyncErrorCloseEventReason.NOT_FOUND)
+      } else if ((role === 'viewer') !== isReadonly) {
+        console.log(`🔁 ${meta.userId} is now ${role} on board ${boardId}, reconnecting them`)
+        room.closeSession(sessionId)
+      }
+    })
+  }
+}
+
+export const startAccessChecks = () => setInterval(() => {
+  checkRoomAccess().catch(error => console.error('❌ Error checking room access:', error))
+}, ACCESS_CHECK_INTERVAL_MS)
@@ -0,0 +1,69 @@
+import type { User } from '@supabase/supabase-js'
+import { supabaseAdmin } from './supabase'
+
+// Checks the Supabase access token a client connects with
+export const authenticate = async (token: string | null): Promise<User | null> => {
+  if (!token) return null
+
+  const { data, error } = await supabaseAdmin.auth.getUser(token)
+  if (error || !data.user) return null
+
+  return data.user
+}
+
+export type BoardRole = 'owner' | 'mentor' | 'mentee' | 'viewer'
+
+// A user's role on a board, or null without access. Mirrors public.board_role(),
+// which can't be used here because the server connects with the service role.
+export const getBoardRole = async (userId: string, boardId: string): Promise<BoardRole | null> => {
+  const { data: board, error } = await supabaseAdmin
+    .from('boards')
+    .select('user_id, deleted_at')
+    .eq('id', boardId)
+    .maybeSingle()
+
+  if (error) throw error
+  if (!board) return null
+  if (board.user_id === userId) return 'owner'
+  // Boards in the trash are only open to their owner
+  if (board.deleted_at) return null
+
+  const { data: member, error: memberError } = await supabaseAdmin
+    .from('board_members')
+    .select('role')
+    .eq('board_id', boardId)
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (memberError) throw memberError
+  return (member?.role as BoardRole | undefined) ?? null
+}
+
+// Every room is a board's room, board-<id>; each board has exactly one
+const ROOM_ID_PATTERN = /^board-([0-9a-f-]{36})$/i
+
+export const boardIdForRoom = (roomId: string): string | null =>
+  ROOM_ID_PATTERN.exec(roomId)?.[1] ?? null
+
+// The role a user joins a room with, or null when they may not join it. Boards in the
+// trash have no room, not even for their owner, until they are restored.
+export const getRoomRole = async (userId: string, roomId: string): Promise<BoardRole | null> => {
+  const boardId = boardIdForRoom(roomId)
+  if (!boardId) return null
+
+  try {
+    const { data: board, error } = await supabaseAdmin
+      .from('boards')
+      .select('deleted_at')
+      .eq('id', boardId)
+      .maybeSingle()
+
+    if (error) throw error
+    if (!board || board.deleted_at) return null
+
+    return await getBoardRole(userId, boardId)
+  } catch (error) {
+    console.error('❌ Error checking room access:', error)
+    return null
+  }
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest'
+import type { RoomSnapshot } from '@tldraw/sync-core'
+import type { TLRecord } from '@tldraw/tlschema'
+import { applyBoardChanges, diffRoom, isEmptyBoardChanges } from './boardChanges'
+import type { BoardChanges } from './boardChanges'
+
+const shape = (id: string, x = 0) =>
+  ({ id: `shape:${id}`, typeName: 'shape', type: 'geo', x, y: 0 }) as unknown as TLRecord
+
+// A room holding records, each last changed at the given clock
+const room = (clock: number, documents: [TLRecord, number][]): RoomSnapshot => ({
+  clock,
+  documents: documents.map(([state, lastChangedClock]) => ({ state, lastChangedClock })),
+  schema: undefined as unknown as RoomSnapshot['schema']
+})
+
+const saved = (clock: number, records: TLRecord[]) => ({
+  clock,
+  records: new Map(records.map(record => [record.id as string, record]))
+})
+
+describe('diffRoom', () => {
+  it('finds nothing to save when the room is as last written', () => {
+    const a = shape('a')
+    const changes = diffRoom(saved(5, [a]), room(5, [[a, 3]]))
+
+    expect(isEmptyBoardChanges(changes)).toBe(true)
+  })
+
+  it('logs records added, changed and removed since the last write', () => {
+    const [a, b, c] = [shape('a'), shape('b'), shape('c')]
+    const movedB = shape('b', 100)
+    const d = shape('d')
+
+    const changes = diffRoom(
+      saved(5, [a, b, c]),
+      room(8, [[a, 2], [movedB, 7], [d, 8]])
+    )
+
+    expect(changes).toEqual({
+      added: { [d.id]: d },
+      updated: { [b.id]: [b, movedB] },
+      removed: { [c.id]: c }
+    })
+    expect(isEmptyBoardChanges(changes)).toBe(false)
+  })
+
+  it('leaves out records last changed before the last write', () => {
+    const a = shape('a')
+    const changes = diffRoom(saved(5, [a]), room(8, [[shape('a', 50), 5]]))
+
+    expect(changes.updated).toEqual({})
+  })
+})
+
+describe('applyBoardChanges', () => {
+  it('replays logged changes in order on top of a checkpoint', () => {
+    const [a, b] = [shape('a'), shape('b')]
+    const log: BoardChanges[] = [
+      { added: { [b.id]: b }, updated: {}, removed: {} },
+      { added: {}, updated: { [a.id]: [a, shape('a', 10)] }, removed: {} },
+      { added: {}, updated: { [a.id]: [shape('a', 10), shape('a', 20)] }, removed: { [b.id]: b } }
+    ]
+
+    expect(applyBoardChanges({ [a.id]: a }, log)).toEqual({ [a.id]: shape('a', 20) })
+  })
+
+  it('rebuilds the room from what it was last written as and its diff', () => {
+    const [a, b, c] = [shape('a'), shape('b'), shape('c')]
+    const snapshot = room(9, [[shape('a', 30), 9], [b, 1], [shape('d'), 6]])
+
+    const changes = diffRoom(saved(4, [a, b, c]), snapshot)
+    const store = applyBoardChanges({ [a.id]: a, [b.id]: b, [c.id]: c }, [changes])
+
+    expect(store).toEqual(Object.fromEntries(snapshot.documents.map(doc => [doc.state.id, doc.state])))
+  })
+})
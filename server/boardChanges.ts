@@ -0,0 +1,49 @@
+import type { RoomSnapshot } from '@tldraw/sync-core'
+import type { TLRecord } from '@tldraw/tlschema'
+import type { StoredBoard } from './boards'
+
+// Record diff as logged in board_changes (tldraw's RecordsDiff)
+export interface BoardChanges {
+  added: Record<string, TLRecord>
+  updated: Record<string, [from: TLRecord, to: TLRecord]>
+  removed: Record<string, TLRecord>
+}
+
+// Replays logged changes, oldest first, on top of a checkpoint's records
+export const applyBoardChanges = (store: Record<string, TLRecord>, changes: BoardChanges[]) => {
+  changes.forEach(diff => {
+    Object.values(diff.added).forEach(record => { store[record.id] = record })
+    Object.values(diff.updated).forEach(([, to]) => { store[to.id] = to })
+    Object.values(diff.removed).forEach(record => { delete store[record.id] })
+  })
+  return store
+}
+
+// Records added, changed or removed in the room since the board was last written
+export const diffRoom = (board: Pick<StoredBoard, 'records' | 'clock'>, snapshot: RoomSnapshot): BoardChanges => {
+  const changes: BoardChanges = { added: {}, updated: {}, removed: {} }
+  const current = new Set<string>()
+
+  snapshot.documents.forEach(({ state, lastChangedClock }) => {
+    const record = state as TLRecord
+    const saved = board.records.get(record.id)
+    current.add(record.id)
+
+    if (!saved) {
+      changes.added[record.id] = record
+    } else if (lastChangedClock > board.clock) {
+      changes.updated[record.id] = [saved, record]
+    }
+  })
+
+  board.records.forEach((record, id) => {
+    if (!current.has(id)) changes.removed[record.id] = record
+  })
+
+  return changes
+}
+
+export const isEmptyBoardChanges = (changes: BoardChanges) =>
+  Object.keys(changes.added).length === 0 &&
+  Object.keys(changes.updated).length === 0 &&
+  Object.keys(changes.removed).length === 0
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest'
+import type { TLRecord } from '@tldraw/tlschema'
+import { mergeBoardRecords } from './boardMerge'
+
+const page = { id: 'page:1', typeName: 'page', name: 'Page 1' } as unknown as TLRecord
+
+const shape = (id: string, x = 0, parentId = 'page:1') =>
+  ({ id: `shape:${id}`, typeName: 'shape', type: 'geo', parentId, x, y: 0 }) as unknown as TLRecord
+
+const byId = (...records: TLRecord[]) => Object.fromEntries(records.map(record => [record.id, record]))
+
+describe('mergeBoardRecords', () => {
+  it('keeps changes made on either side to different records', () => {
+    const base = byId(page, shape('a'), shape('b'))
+    const room = byId(page, shape('a', 10), shape('b'), shape('c'))
+    const stored = byId(page, shape('a'), shape('b', 20))
+
+    const { records, conflicts } = mergeBoardRecords(base, room, stored)
+
+    expect(records).toEqual(byId(page, shape('a', 10), shape('b', 20), shape('c')))
+    expect(conflicts).toEqual([])
+  })
+
+  it('keeps the stored copy of a record both sides changed', () => {
+    const base = byId(page, shape('a'))
+    const room = byId(page, shape('a', 10))
+    const stored = byId(page, shape('a', 20))
+
+    const { records, conflicts } = mergeBoardRecords(base, room, stored)
+
+    expect(records).toEqual(byId(page, shape('a', 20)))
+    expect(conflicts).toEqual([shape('a', 10)])
+  })
+
+  it('applies deletions from either side', () => {
+    const base = byId(page, shape('a'), shape('b'))
+    const room = byId(page, shape('b'))
+    const stored = byId(page, shape('a'))
+
+    expect(mergeBoardRecords(base, room, stored).records).toEqual(byId(page))
+  })
+
+  it('drops shapes whose parent was deleted on the other side', () => {
+    const frame = shape('frame')
+    const base = byId(page, frame)
+    const room = byId(page, frame, shape('child', 0, frame.id))
+    const stored = byId(page)
+
+    const { records, conflicts } = mergeBoardRecords(base, room, stored)
+
+    expect(records).toEqual(byId(page))
+    expect(conflicts).toEqual([shape('child', 0, frame.id)])
+  })
+})
@@ -0,0 +1,59 @@
+import { isDeepStrictEqual } from 'node:util'
+import type { TLRecord } from '@tldraw/tlschema'
+
+type Records = Record<string, TLRecord>
+
+export interface BoardMergeResult {
+  records: Records
+  // Records changed in the room and in the stored board; the stored copy was kept
+  conflicts: TLRecord[]
+}
+
+// Three-way merge of a board's records. Changes made in the room since `base` (what
+// the room last wrote) are replayed on top of `stored` (what was written elsewhere)
+// wherever the stored side left the same record alone.
+export const mergeBoardRecords = (base: Records, room: Records, stored: Records): BoardMergeResult => {
+  const merged: Records = {}
+  const conflicts: TLRecord[] = []
+
+  const ids = new Set([...Object.keys(base), ...Object.keys(room), ...Object.keys(stored)])
+
+  ids.forEach(id => {
+    const baseRecord = base[id]
+    const roomRecord = room[id]
+    const storedRecord = stored[id]
+
+    const roomChanged = !isDeepStrictEqual(baseRecord, roomRecord)
+    const storedChanged = !isDeepStrictEqual(baseRecord, storedRecord)
+
+    let result: TLRecord | undefined
+    if (!roomChanged) {
+      result = storedRecord
+    } else if (!storedChanged || isDeepStrictEqual(roomRecord, storedRecord)) {
+      result = roomRecord
+    } else {
+      conflicts.push((roomRecord ?? storedRecord ?? baseRecord) as TLRecord)
+      result = storedRecord
+    }
+
+    // undefined means the record was deleted on the winning side
+    if (result) merged[id] = result
+  })
+
+  // Drop records left dangling by a deletion on the other side
+  let removed = true
+  while (removed) {
+    removed = false
+    Object.values(merged).forEach(record => {
+      const orphanedShape = record.typeName === 'shape' && !merged[record.parentId]
+      const orphanedBinding = record.typeName === 'binding' && (!merged[record.fromId] || !merged[record.toId])
+      if (orphanedShape || orphanedBinding) {
+        delete merged[record.id]
+        if (orphanedShape) conflicts.push(record)
+        removed = true
+      }
+    })
+  }
+
+  return { records: merged, conflicts }
+}
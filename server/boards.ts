@@ -0,0 +1,219 @@
+import type { RoomSnapshot } from '@tldraw/sync-core'
+import type { TLRecord, TLStoreSnapshot } from '@tldraw/tlschema'
+import { BOARD_DOCUMENT_VERSION } from '../shared/boards'
+import { applyBoardChanges, diffRoom, isEmptyBoardChanges } from './boardChanges'
+import type { BoardChanges } from './boardChanges'
+import { mergeBoardRecords } from './boardMerge'
+import { supabaseAdmin } from './supabase'
+
+// Rooms are the live state of a board; the server is the only writer of its stored
+// content. Edits are appended to board_changes, and every so often - or when asked
+// to save - the whole room is written to boards.board_data as a new checkpoint.
+
+// Once this many changes pile up on top of a checkpoint, the next save writes a new checkpoint
+const COMPACT_AFTER_CHANGES = 50
+
+// Postgres error code raised for stale writes (check_board_revision / append_board_change)
+const STALE_REVISION_ERROR = '40001'
+
+export interface StoredBoard {
+  boardId: string
+  // Revision of the board the room was last written at
+  revision: number
+  changesSinceCheckpoint: number
+  // The checkpoint is a store snapshot, so changes can be logged on top of it.
+  // False for boards never saved and boards still in the legacy shape-list format.
+  hasCheckpoint: boolean
+  // The records as last written, and the room clock they were read at
+  records: Map<string, TLRecord>
+  clock: number
+  // The board was written elsewhere since the room last wrote it. Nothing is saved
+  // until someone reloads, merges or copies (see resolveRoomConflict).
+  conflict: boolean
+}
+
+const conflictError = (boardId: string) =>
+  new Error(`Board ${boardId} was written elsewhere since this room last saved it`)
+
+export interface LoadedBoard {
+  board: StoredBoard
+  // Checkpoint with the change log replayed on top; undefined without a checkpoint
+  snapshot?: TLStoreSnapshot
+}
+
+// Latest stored state of a board: its checkpoint plus every change logged since
+export const loadBoard = async (boardId: string): Promise<LoadedBoard> => {
+  const { data, error } = await supabaseAdmin
+    .from('boards')
+    .select('board_data, revision, checkpoint_revision')
+    .eq('id', boardId)
+    .single()
+
+  if (error) throw error
+
+  const { data: changeRows, error: changesError } = await supabaseAdmin
+    .from('board_changes')
+    .select('changes')
+    .eq('board_id', boardId)
+    .gt('revision', data.checkpoint_revision)
+    .lte('revision', data.revision)
+    .order('revision', { ascending: true })
+
+  if (changesError) throw changesError
+
+  const checkpoint = data.board_data?.storeSnapshot as TLStoreSnapshot | undefined
+  const changes = (changeRows || []).map(row => row.changes as BoardChanges)
+
+  const board: StoredBoard = {
+    boardId,
+    revision: data.revision,
+    changesSinceCheckpoint: changes.length,
+    hasCheckpoint: !!checkpoint,
+    records: new Map(),
+    clock: 0,
+    conflict: false
+  }
+
+  if (!checkpoint) return { board }
+
+  return {
+    board,
+    snapshot: {
+      schema: checkpoint.schema,
+      store: applyBoardChanges({ ...checkpoint.store } as Record<string, TLRecord>, changes) as TLStoreSnapshot['store']
+    }
+  }
+}
+
+// Remembers what a room holds as the board's stored state
+export const markBoardSaved = (board: StoredBoard, snapshot: RoomSnapshot) => {
+  board.records = new Map(snapshot.documents.map(doc => [doc.state.id, doc.state as TLRecord]))
+  board.clock = snapshot.clock
+}
+
+// A room's records as a board document (boards.board_data)
+const roomDocument = (snapshot: RoomSnapshot, saveType: 'auto' | 'manual') => ({
+  version: BOARD_DOCUMENT_VERSION,
+  storeSnapshot: {
+    schema: snapshot.schema,
+    store: Object.fromEntries(snapshot.documents.map(doc => [doc.state.id, doc.state]))
+  },
+  metadata: {
+    savedAt: new Date().toISOString(),
+    shapeCount: snapshot.documents.filter(doc => doc.state.typeName === 'shape').length,
+    saveType
+  }
+})
+
+const writeCheckpoint = async (board: StoredBoard, snapshot: RoomSnapshot, saveType: 'auto' | 'manual') => {
+  const { data, error } = await supabaseAdmin
+    .from('boards')
+    .update({
+      board_data: roomDocument(snapshot, saveType),
+      revision: board.revision + 1,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', board.boardId)
+    .eq('revision', board.revision)
+    .select('revision')
+
+  if (error) {
+    if (error.code === STALE_REVISION_ERROR) return null
+    throw error
+  }
+  // No row matched the revision we last wrote
+  if (!data || data.length === 0) return null
+
+  return data[0].revision as number
+}
+
+const appendChange = async (board: StoredBoard, changes: BoardChanges) => {
+  const { data, error } = await supabaseAdmin.rpc('append_board_change', {
+    board_uuid: board.boardId,
+    base_revision: board.revision,
+    change_data: changes
+  })
+
+  if (error) {
+    if (error.code === STALE_REVISION_ERROR) return null
+    throw error
+  }
+
+  return data as number
+}
+
+// Writes what changed in the room since the last save. Manual saves always write a checkpoint.
+export const saveBoard = async (board: StoredBoard, snapshot: RoomSnapshot, saveType: 'auto' | 'manual') => {
+  if (board.conflict) throw conflictError(board.boardId)
+
+  const changes = diffRoom(board, snapshot)
+  if (saveType === 'auto' && isEmptyBoardChanges(changes)) return
+
+  const checkpoint = saveType === 'manual' || !board.hasCheckpoint || board.changesSinceCheckpoint >= COMPACT_AFTER_CHANGES
+  const revision = checkpoint
+    ? await writeCheckpoint(board, snapshot, saveType)
+    : await appendChange(board, changes)
+
+  if (revision === null) {
+    // Only this server writes boards, so another server held the same room. Neither
+    // side is written over: saving stops until someone decides what to keep.
+    board.conflict = true
+    throw conflictError(board.boardId)
+  }
+
+  board.revision = revision
+  board.changesSinceCheckpoint = checkpoint ? 0 : board.changesSinceCheckpoint + 1
+  board.hasCheckpoint = true
+  markBoardSaved(board, snapshot)
+}
+
+// Resolves a conflict by writing the room's changes since it last saved on top of the
+// board as it was written elsewhere, as a new checkpoint. Returns how many records were
+// changed on both sides; the stored copy of those is kept.
+export const mergeRoomIntoBoard = async (board: StoredBoard, snapshot: RoomSnapshot) => {
+  const latest = await loadBoard(board.boardId)
+  if (!latest.snapshot) throw new Error(`Board ${board.boardId} has no checkpoint to merge into`)
+
+  const { records, conflicts } = mergeBoardRecords(
+    Object.fromEntries(board.records),
+    Object.fromEntries(snapshot.documents.map(doc => [doc.state.id, doc.state as TLRecord])),
+    latest.snapshot.store as Record<string, TLRecord>
+  )
+
+  const merged: RoomSnapshot = {
+    ...snapshot,
+    documents: Object.values(records).map(state => ({ state, lastChangedClock: snapshot.clock }))
+  }
+
+  if (await writeCheckpoint(latest.board, merged, 'manual') === null) {
+    throw conflictError(board.boardId)
+  }
+  return conflicts.length
+}
+
+// Resolves a conflict by saving the room as a new private board for userId. Returns its id.
+export const saveRoomAsNewBoard = async (board: StoredBoard, snapshot: RoomSnapshot, userId: string) => {
+  const { data: original, error } = await supabaseAdmin
+    .from('boards')
+    .select('name, description, tags')
+    .eq('id', board.boardId)
+    .single()
+
+  if (error) throw error
+
+  const { data, error: insertError } = await supabaseAdmin
+    .from('boards')
+    .insert({
+      name: `${original.name} (copy)`,
+      description: original.description,
+      tags: original.tags,
+      user_id: userId,
+      board_data: roomDocument(snapshot, 'manual'),
+      is_public: false
+    })
+    .select('id')
+    .single()
+
+  if (insertError) throw insertError
+  return data.id as string
+}
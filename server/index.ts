@@ -0,0 +1,298 @@
+import { createServer } from 'node:http'
+import type { IncomingMessage, ServerResponse } from 'node:http'
+import type { Duplex } from 'node:stream'
+import { WebSocketServer } from 'ws'
+import { startAccessChecks } from './access'
+import { authenticate, boardIdForRoom, getBoardRole, getRoomRole } from './auth'
+import { sendBoardInviteEmail } from './invites'
+import type { BoardConflictResolution } from '../shared/boards'
+import { getRoom, isRoomInConflict, joinRoom, persistAllRooms, resolveRoomConflict, saveRoomNow, startRoomPersistence } from './rooms'
+import { purgeBoard, startTrashPurge } from './trash'
+
+// Self-hosted tldraw sync server. Clients connect to /connect/:roomId with their
+// Supabase access token; the server writes each room back to its board.
+const port = Number(process.env.SYNC_SERVER_PORT) || 5858
+
+// The app calls /save, /resolve-conflict, /invite-email and /purge from another origin
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Authorization, Content-Type'
+}
+
+const BOARD_ID_PATTERN = /^[0-9a-f-]{36}$/i
+
+const respond = (res: ServerResponse, status: number) => {
+  res.writeHead(status, CORS_HEADERS)
+  res.end()
+}
+
+const respondJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { ...CORS_HEADERS, 'Content-Type': 'application/json' })
+  res.end(JSON.stringify(body))
+}
+
+const CONFLICT_RESOLUTIONS: BoardConflictResolution[] = ['reload', 'merge', 'copy']
+
+// POST /save/:roomId - the Save button: writes the room to its board straight away
+const handleSave = async (req: IncomingMessage, res: ServerResponse, roomId: string) => {
+  if (req.method === 'OPTIONS') {
+    respond(res, 204)
+    return
+  }
+
+  const boardId = boardIdForRoom(roomId)
+  if (req.method !== 'POST' || !boardId) {
+    respond(res, 400)
+    return
+  }
+
+  try {
+    const user = await authenticate(req.headers.authorization?.replace(/^Bearer /, '') ?? null)
+    if (!user) {
+      respond(res, 401)
+      return
+    }
+
+    const role = await getRoomRole(user.id, roomId)
+    if (!role || role === 'viewer') {
+      respond(res, 403)
+      return
+    }
+
+    await saveRoomNow(boardId)
+    respond(res, 204)
+  } catch (error) {
+    console.error(`❌ Error saving room ${roomId}:`, error)
+    respond(res, await isRoomInConflict(boardId) ? 409 : 500)
+  }
+}
+
+const readJson = async (req: IncomingMessage): Promise<unknown> => {
+  let body = ''
+  for await (const chunk of req) body += chunk
+  return JSON.parse(body)
+}
+
+// POST /resolve-conflict/:roomId with { resolution } - the conflict dialog, after the
+// board was written elsewhere. Copies answer with { boardId } of the new board.
+const handleResolveConflict = async (req: IncomingMessage, res: ServerResponse, roomId: string) => {
+  if (req.method === 'OPTIONS') {
+    respond(res, 204)
+    return
+  }
+
+  const boardId = boardIdForRoom(roomId)
+  if (req.method !== 'POST' || !boardId) {
+    respond(res, 400)
+    return
+  }
+
+  try {
+    const user = await authenticate(req.headers.authorization?.replace(/^Bearer /, '') ?? null)
+    if (!user) {
+      respond(res, 401)
+      return
+    }
+
+    const role = await getRoomRole(user.id, roomId)
+    if (!role || role === 'viewer') {
+      respond(res, 403)
+      return
+    }
+
+    const { resolution } = await readJson(req) as { resolution?: BoardConflictResolution }
+    if (!resolution || !CONFLICT_RESOLUTIONS.includes(resolution)) {
+      respond(res, 400)
+      return
+    }
+
+    const copyId = await resolveRoomConflict(boardId, resolution, user.id)
+    respondJson(res, 200, { boardId: copyId })
+  } catch (error) {
+    console.error(`❌ Error resolving conflict in room ${roomId}:`, error)
+    respond(res, 500)
+  }
+}
+
+// POST /invite-email/:boardId with { email } - emails someone the owner just invited
+const handleInviteEmail = async (req: IncomingMessage, res: ServerResponse, boardId: string) => {
+  if (req.method === 'OPTIONS') {
+    respond(res, 204)
+    return
+  }
+
+  if (req.method !== 'POST' || !BOARD_ID_PATTERN.test(boardId)) {
+    respond(res, 400)
+    return
+  }
+
+  try {
+    const user = await authenticate(req.headers.authorization?.replace(/^Bearer /, '') ?? null)
+    if (!user) {
+      respond(res, 401)
+      return
+    }
+
+    if (await getBoardRole(user.id, boardId) !== 'owner') {
+      respond(res, 403)
+      return
+    }
+
+    const { email } = await readJson(req) as { email?: unknown }
+    if (typeof email !== 'string' || !await sendBoardInviteEmail(boardId, email)) {
+      respond(res, 400)
+      return
+    }
+
+    respond(res, 204)
+  } catch (error) {
+    console.error(`❌ Error sending invite email for board ${boardId}:`, error)
+    respond(res, 500)
+  }
+}
+
+// POST /purge/:boardId - "Delete forever" and "Empty trash": deletes a board in the
+// owner's trash for good, the same way expired boards are purged
+const handlePurge = async (req: IncomingMessage, res: ServerResponse, boardId: string) => {
+  if (req.method === 'OPTIONS') {
+    respond(res, 204)
+    return
+  }
+
+  if (req.method !== 'POST' || !BOARD_ID_PATTERN.test(boardId)) {
+    respond(res, 400)
+    return
+  }
+
+  try {
+    const user = await authenticate(req.headers.authorization?.replace(/^Bearer /, '') ?? null)
+    if (!user) {
+      respond(res, 401)
+      return
+    }
+
+    if (await getBoardRole(user.id, boardId) !== 'owner') {
+      respond(res, 403)
+      return
+    }
+
+    // Only boards in the trash can be purged
+    respond(res, await purgeBoard(boardId) ? 204 : 409)
+  } catch (error) {
+    console.error(`❌ Error purging board ${boardId}:`, error)
+    respond(res, 500)
+  }
+}
+
+const server = createServer((req, res) => {
+  const url = new URL(req.url ?? '/', 'http://localhost')
+
+  if (url.pathname === '/health') {
+    res.writeHead(200, { 'Content-Type': 'text/plain' })
+    res.end('ok')
+    return
+  }
+
+  const save = /^\/save\/([^/]+)$/.exec(url.pathname)
+  if (save) {
+    void handleSave(req, res, decodeURIComponent(save[1]))
+    return
+  }
+
+  const resolveConflict = /^\/resolve-conflict\/([^/]+)$/.exec(url.pathname)
+  if (resolveConflict) {
+    void handleResolveConflict(req, res, decodeURIComponent(resolveConflict[1]))
+    return
+  }
+
+  const inviteEmail = /^\/invite-email\/([^/]+)$/.exec(url.pathname)
+  if (inviteEmail) {
+    void handleInviteEmail(req, res, decodeURIComponent(inviteEmail[1]))
+    return
+  }
+
+  const purge = /^\/purge\/([^/]+)$/.exec(url.pathname)
+  if (purge) {
+    void handlePurge(req, res, decodeURIComponent(purge[1]))
+    return
+  }
+
+  res.writeHead(404)
+  res.end()
+})
+
+const wss = new WebSocketServer({ noServer: true })
+
+const rejectUpgrade = (socket: Duplex, status: number, message: string) => {
+  socket.write(`HTTP/1.1 ${status} ${message}\r\nConnection: close\r\n\r\n`)
+  socket.destroy()
+}
+
+server.on('upgrade', async (req, socket, head) => {
+  const url = new URL(req.url ?? '/', 'http://localhost')
+  const match = /^\/connect\/([^/]+)$/.exec(url.pathname)
+  const roomId = match ? decodeURIComponent(match[1]) : null
+  const boardId = roomId ? boardIdForRoom(roomId) : null
+  const sessionId = url.searchParams.get('sessionId')
+
+  if (!roomId || !boardId || !sessionId) {
+    rejectUpgrade(socket, 400, 'Bad Request')
+    return
+  }
+
+  try {
+    const user = await authenticate(url.searchParams.get('token'))
+    if (!user) {
+      rejectUpgrade(socket, 401, 'Unauthorized')
+      return
+    }
+
+    const role = await getRoomRole(user.id, roomId)
+    if (!role) {
+      console.warn(`⛔ ${user.id} may not join room ${roomId}`)
+      rejectUpgrade(socket, 403, 'Forbidden')
+      return
+    }
+
+    // Loads the room before accepting, so a board that can't be loaded is an HTTP error
+    await getRoom(boardId)
+
+    wss.handleUpgrade(req, socket, head, (ws) => {
+      // The room listens to the socket itself. Viewers get the board, but the room
+      // rejects any change they send. Roles are checked again while connected (access.ts).
+      joinRoom(boardId, (room) => room.handleSocketConnect({
+        sessionId,
+        socket: ws,
+        isReadonly: role === 'viewer',
+        meta: { userId: user.id }
+      })).catch((error) => {
+        console.error(`❌ Error joining room ${roomId}:`, error)
+        ws.close(1011, 'Internal Server Error')
+      })
+    })
+  } catch (error) {
+    console.error(`❌ Error connecting to room ${roomId}:`, error)
+    rejectUpgrade(socket, 500, 'Internal Server Error')
+  }
+})
+
+const persistence = startRoomPersistence()
+const trashPurge = startTrashPurge()
+const accessChecks = startAccessChecks()
+
+const shutdown = async () => {
+  console.log('💾 Saving open rooms before shutting down...')
+  clearInterval(persistence)
+  clearInterval(trashPurge)
+  clearInterval(accessChecks)
+  await persistAllRooms()
+  process.exit(0)
+}
+
+process.on('SIGINT', shutdown)
+process.on('SIGTERM', shutdown)
+
+server.listen(port, () => {
+  console.log(`🔌 Sync server listening on ws://localhost:${port}`)
+})
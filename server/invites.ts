@@ -0,0 +1,35 @@
+import { supabaseAdmin } from './supabase'
+
+// Where invite emails link to. Add it to the redirect URLs in Supabase Auth settings.
+const appUrl = (process.env.APP_URL || 'http://localhost:5173').replace(/\/$/, '')
+
+// Emails someone who was invited to a board (invite_board_member). People without an
+// account get Supabase's invite to sign up, everyone else a sign-in link; both open
+// the board. Returns false when the email isn't invited to the board, so this can't
+// be used to send mail to anyone else.
+export const sendBoardInviteEmail = async (boardId: string, email: string): Promise<boolean> => {
+  const { data: member, error } = await supabaseAdmin
+    .from('board_members')
+    .select('user_id, email')
+    .eq('board_id', boardId)
+    .eq('email', email.trim().toLowerCase())
+    .maybeSingle()
+
+  if (error) throw error
+  if (!member) return false
+
+  // Matches boardPath() in src/lib/routes.ts
+  const redirectTo = `${appUrl}/boards/${boardId}`
+
+  const { error: sendError } = member.user_id
+    ? await supabaseAdmin.auth.signInWithOtp({
+        email: member.email,
+        options: { shouldCreateUser: false, emailRedirectTo: redirectTo }
+      })
+    : await supabaseAdmin.auth.admin.inviteUserByEmail(member.email, { redirectTo })
+
+  if (sendError) throw sendError
+
+  console.log(`✉️ Sent board invite email for board ${boardId}`)
+  return true
+}
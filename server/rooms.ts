@@ -0,0 +1,285 @@
+import { TLSocketRoom, TLSyncErrorCloseEventReason } from '@tldraw/sync-core'
+import type { RoomSnapshot } from '@tldraw/sync-core'
+import { createTLSchema, defaultBindingSchemas, defaultShapeSchemas } from '@tldraw/tlschema'
+import type { TLRecord } from '@tldraw/tlschema'
+import { BOARD_CONFLICT_REASON } from '../shared/boards'
+import type { BoardConflictResolution } from '../shared/boards'
+import { supabaseAdmin } from './supabase'
+import { loadBoard, markBoardSaved, mergeRoomIntoBoard, saveBoard, saveRoomAsNewBoard } from './boards'
+import type { StoredBoard } from './boards'
+
+export interface SessionMeta {
+  userId: string
+}
+
+interface LoadedRoom {
+  room: TLSocketRoom<TLRecord, SessionMeta>
+  board: StoredBoard
+  // Changed since it was last written
+  dirty: boolean
+  // Writes run one after another, so each builds on the board revision the last one wrote
+  writing: Promise<void>
+  // Someone is resolving the board's conflict
+  resolving: boolean
+}
+
+// How often changed rooms are written back to the database
+const PERSIST_INTERVAL_MS = 5000
+
+const schema = createTLSchema({ shapes: defaultShapeSchemas, bindings: defaultBindingSchemas })
+
+// Rooms open on this server, keyed by board id - every board has exactly one room.
+// The promise covers loading the board, so sessions that arrive while a room is
+// loading all end up in the same room.
+const rooms = new Map<string, Promise<LoadedRoom>>()
+
+const roomIdForBoard = (boardId: string) => `board-${boardId}`
+
+// The room as last written to sync_rooms, and the board revision written with it
+const loadRoomSnapshot = async (boardId: string) => {
+  const { data, error } = await supabaseAdmin
+    .from('sync_rooms')
+    .select('snapshot, board_revision')
+    .eq('room_id', roomIdForBoard(boardId))
+    .maybeSingle()
+
+  if (error) throw error
+
+  return data as { snapshot: RoomSnapshot; board_revision: number | null } | null
+}
+
+// Writes the board and then the room itself. The board is what every client and
+// reader sees; sync_rooms only keeps the room's sync clock between sessions.
+const writeRoom = async (boardId: string, loaded: LoadedRoom, saveType: 'auto' | 'manual') => {
+  if (!loaded.dirty && saveType === 'auto') return
+  // Saving waits for the conflict to be resolved; the room keeps everyone's changes
+  if (loaded.board.conflict && saveType === 'auto') return
+  loaded.dirty = false
+
+  const snapshot = loaded.room.getCurrentSnapshot()
+
+  try {
+    await saveBoard(loaded.board, snapshot, saveType)
+
+    const { error } = await supabaseAdmin
+      .from('sync_rooms')
+      .upsert({
+        room_id: roomIdForBoard(boardId),
+        snapshot,
+        board_revision: loaded.board.revision,
+        updated_at: new Date().toISOString()
+      })
+
+    if (error) throw error
+  } catch (error) {
+    loaded.dirty = true
+    console.error(`❌ Error persisting room for board ${boardId}:`, error)
+    if (loaded.board.conflict) disconnectForConflict(boardId, loaded)
+    if (saveType === 'manual') throw error
+  }
+}
+
+// Sends everyone in the room to the conflict dialog (BOARD_CONFLICT_REASON). The room
+// stays open, unsaved, until one of them resolves it.
+const disconnectForConflict = (boardId: string, loaded: LoadedRoom) => {
+  const sessions = loaded.room.getSessions()
+  if (sessions.length > 0) {
+    console.warn(`⚠️ Board ${boardId} was written elsewhere; disconnecting ${sessions.length} sessions until it is resolved`)
+  }
+  sessions.forEach(({ sessionId }) => loaded.room.closeSession(sessionId, BOARD_CONFLICT_REASON))
+}
+
+const persistRoom = (boardId: string, loaded: LoadedRoom, saveType: 'auto' | 'manual' = 'auto') => {
+  const write = loaded.writing.then(() => writeRoom(boardId, loaded, saveType))
+  loaded.writing = write.catch(() => undefined)
+  return write
+}
+
+// Writes the room one last time and closes it once everyone has left. Rooms only
+// leave the map here and in closeRoom, closed in the same step, so an open room is
+// the one in the map.
+const closeRoomIfEmpty = async (boardId: string, loaded: LoadedRoom) => {
+  await persistRoom(boardId, loaded)
+
+  // Someone joined while it was being written, it couldn't be written (the next
+  // round tries again, and a room in conflict waits to be resolved), or it was
+  // already closed
+  if (loaded.room.getNumActiveSessions() > 0 || loaded.dirty || loaded.room.isClosed()) return
+
+  rooms.delete(boardId)
+  loaded.room.close()
+  console.log(`🚪 Closed room for board ${boardId}`)
+}
+
+// Opens the room from where it was left. When the board was written without the room
+// since, the room starts again from the board, with its clock moved past the old one
+// so that reconnecting clients fetch the whole room rather than a diff.
+const openRoom = async (boardId: string): Promise<LoadedRoom> => {
+  const [saved, { board, snapshot }] = await Promise.all([loadRoomSnapshot(boardId), loadBoard(boardId)])
+
+  let initialSnapshot: RoomSnapshot | undefined
+  if (saved && saved.board_revision === board.revision) {
+    initialSnapshot = saved.snapshot
+  } else if (snapshot) {
+    const clock = (saved?.snapshot.clock ?? 0) + 1
+    initialSnapshot = {
+      clock,
+      schema: snapshot.schema,
+      tombstones: {},
+      documents: Object.values(snapshot.store).map(state => ({ state, lastChangedClock: clock }))
+    }
+  }
+
+  // Records the room migrates on load count as changed since the board was written
+  if (initialSnapshot) markBoardSaved(board, initialSnapshot)
+
+  const loaded: LoadedRoom = {
+    board,
+    dirty: false,
+    writing: Promise.resolve(),
+    resolving: false,
+    room: new TLSocketRoom<TLRecord, SessionMeta>({
+      schema,
+      initialSnapshot,
+      onDataChange: () => {
+        loaded.dirty = true
+      },
+      onSessionRemoved: (_room, { numSessionsRemaining }) => {
+        if (numSessionsRemaining === 0) {
+          void closeRoomIfEmpty(boardId, loaded)
+        }
+      }
+    })
+  }
+
+  console.log(`📂 Opened room for board ${boardId}${initialSnapshot === saved?.snapshot ? '' : ' (from the saved board)'}`)
+  return loaded
+}
+
+export const getRoom = (boardId: string): Promise<LoadedRoom> => {
+  let loading = rooms.get(boardId)
+
+  if (!loading) {
+    loading = openRoom(boardId)
+    rooms.set(boardId, loading)
+    // Let the next connection try again
+    loading.catch(() => rooms.delete(boardId))
+  }
+
+  return loading
+}
+
+// Hands the board's room to connect. A room that closed while we waited - its last
+// user left just then - is opened again from what it wrote rather than joined.
+export const joinRoom = async (boardId: string, connect: (room: LoadedRoom['room']) => void) => {
+  for (;;) {
+    const loaded = await getRoom(boardId)
+    if (!loaded.room.isClosed()) {
+      connect(loaded.room)
+      // Nobody edits a board in conflict until it is resolved
+      if (loaded.board.conflict) disconnectForConflict(boardId, loaded)
+      return
+    }
+  }
+}
+
+export const isRoomInConflict = async (boardId: string) => {
+  const loading = rooms.get(boardId)
+  return !!loading && (await loading).board.conflict
+}
+
+// Resolves a board's conflict: 'reload' drops the room's unsaved changes, 'merge'
+// writes them on top of the stored board, 'copy' saves the room as a new board for
+// userId (its id is returned). Either way the room then starts again from the stored
+// board, and everyone reconnects to that.
+export const resolveRoomConflict = async (boardId: string, resolution: BoardConflictResolution, userId: string) => {
+  const loading = rooms.get(boardId)
+  if (!loading) return null
+
+  const loaded = await loading
+  // Nothing to resolve, or someone else is already on it
+  if (!loaded.board.conflict || loaded.resolving) return null
+  loaded.resolving = true
+
+  try {
+    await loaded.writing
+    const snapshot = loaded.room.getCurrentSnapshot()
+    let copyId: string | null = null
+
+    if (resolution === 'merge') {
+      const conflicts = await mergeRoomIntoBoard(loaded.board, snapshot)
+      console.log(`🔀 Merged room into board ${boardId} (${conflicts} records kept as stored)`)
+    } else if (resolution === 'copy') {
+      copyId = await saveRoomAsNewBoard(loaded.board, snapshot, userId)
+      console.log(`📄 Saved room of board ${boardId} as board ${copyId}`)
+    }
+
+    if (rooms.get(boardId) === loading) rooms.delete(boardId)
+    loaded.room.close()
+    console.log(`🔄 Reopening room for board ${boardId} from the stored board`)
+    return copyId
+  } finally {
+    loaded.resolving = false
+  }
+}
+
+// Writes an open room straight away, as a new checkpoint of its board. Boards
+// without an open room were written when their last user left.
+export const saveRoomNow = async (boardId: string) => {
+  const loading = rooms.get(boardId)
+  if (!loading) return
+
+  await persistRoom(boardId, await loading, 'manual')
+}
+
+// Boards with a room open on this server
+export const openBoardIds = () => [...rooms.keys()]
+
+// A board's room if it is open on this server, without opening it
+export const getOpenRoom = async (boardId: string) => {
+  const loading = rooms.get(boardId)
+  if (!loading) return null
+
+  try {
+    const { room } = await loading
+    return room.isClosed() ? null : room
+  } catch {
+    return null
+  }
+}
+
+// Writes a board's room and closes it with everyone still in it - for boards moved to
+// the trash. Clients are told the room is gone, so they don't reconnect.
+export const closeRoom = async (boardId: string) => {
+  const loading = rooms.get(boardId)
+  if (!loading) return
+
+  const loaded = await loading
+  await persistRoom(boardId, loaded)
+  if (rooms.get(boardId) !== loading || loaded.room.isClosed()) return
+
+  rooms.delete(boardId)
+  loaded.room.getSessions().forEach(({ sessionId }) => {
+    loaded.room.closeSession(sessionId, TLSyncErrorCloseEventReason.NOT_FOUND)
+  })
+  loaded.room.close()
+  console.log(`🚪 Closed room for board ${boardId}, which is in the trash`)
+}
+
+export const persistAllRooms = async () => {
+  const entries = [...rooms.entries()]
+  await Promise.all(entries.map(async ([boardId, loading]) => {
+    try {
+      const loaded = await loading
+      if (loaded.room.getNumActiveSessions() === 0) {
+        await closeRoomIfEmpty(boardId, loaded)
+      } else {
+        await persistRoom(boardId, loaded)
+      }
+    } catch {
+      // Rooms that failed to open have nothing to write
+    }
+  }))
+}
+
+export const startRoomPersistence = () => setInterval(persistAllRooms, PERSIST_INTERVAL_MS)
@@ -0,0 +1,25 @@
+import { createClient } from '@supabase/supabase-js'
+import type { SupabaseClientOptions } from '@supabase/supabase-js'
+import WebSocket from 'ws'
+
+// The sync server talks to Supabase with the service role key: it checks
+// access itself and stores room snapshots that clients never read directly.
+const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+if (!supabaseUrl || !serviceRoleKey) {
+  throw new Error('Missing Supabase environment variables for the sync server. Please set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY in your .env file.')
+}
+
+type RealtimeTransport = NonNullable<SupabaseClientOptions<'public'>['realtime']>['transport']
+
+export const supabaseAdmin = createClient(supabaseUrl, serviceRoleKey, {
+  auth: {
+    persistSession: false,
+    autoRefreshToken: false
+  },
+  // Node 20 has no global WebSocket for the realtime client
+  realtime: {
+    transport: WebSocket as unknown as RealtimeTransport
+  }
+})
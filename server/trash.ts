@@ -0,0 +1,91 @@
+import { supabaseAdmin } from './supabase'
+import { closeRoom } from './rooms'
+import { BOARD_FILES_BUCKET, THUMBNAIL_BUCKET, TRASH_RETENTION_MS, boardThumbnailPath, listBoardFiles } from '../shared/boardFiles'
+
+// How often boards past their time in the trash are purged. Rooms of boards moved to
+// the trash are closed by the access checks (access.ts).
+const PURGE_INTERVAL_MS = 60 * 60 * 1000
+
+// Purging can outlast the interval; runs don't overlap
+let purging = false
+
+// Deletes a board in the trash for good: its files, its thumbnail, its room's sync
+// state and then the row, which cascades to its chats, history and change log.
+// Returns false, and deletes nothing, when the board isn't in the trash.
+export const purgeBoard = async (boardId: string) => {
+  const { data: board, error: boardError } = await supabaseAdmin
+    .from('boards')
+    .select('deleted_at')
+    .eq('id', boardId)
+    .maybeSingle()
+
+  if (boardError) throw boardError
+  if (!board?.deleted_at) return false
+
+  await closeRoom(boardId)
+
+  const paths = await listBoardFiles(supabaseAdmin, boardId)
+  if (paths.length > 0) {
+    const { error } = await supabaseAdmin.storage.from(BOARD_FILES_BUCKET).remove(paths)
+    if (error) throw error
+  }
+
+  const { error: thumbnailError } = await supabaseAdmin.storage
+    .from(THUMBNAIL_BUCKET)
+    .remove([boardThumbnailPath(boardId)])
+  if (thumbnailError) throw thumbnailError
+
+  const { error: roomError } = await supabaseAdmin
+    .from('sync_rooms')
+    .delete()
+    .eq('room_id', `board-${boardId}`)
+  if (roomError) throw roomError
+
+  const { error } = await supabaseAdmin
+    .from('boards')
+    .delete()
+    .eq('id', boardId)
+    .not('deleted_at', 'is', null)
+  if (error) throw error
+
+  console.log(`🗑️ Purged board ${boardId} and ${paths.length} stored files`)
+  return true
+}
+
+// Purges every board that has been in the trash longer than the retention period,
+// whether or not its owner comes back to the dashboard
+const purgeExpiredBoards = async () => {
+  const { data, error } = await supabaseAdmin
+    .from('boards')
+    .select('id')
+    .lt('deleted_at', new Date(Date.now() - TRASH_RETENTION_MS).toISOString())
+
+  if (error) throw error
+
+  // One at a time - each board's files are listed and removed separately
+  for (const board of data || []) {
+    try {
+      await purgeBoard(board.id)
+    } catch (purgeError) {
+      console.error(`❌ Error purging board ${board.id}:`, purgeError)
+    }
+  }
+}
+
+const purgeTrash = async () => {
+  if (purging) return
+  purging = true
+
+  try {
+    await purgeExpiredBoards()
+  } catch (error) {
+    console.error('❌ Error purging the trash:', error)
+  } finally {
+    purging = false
+  }
+}
+
+export const startTrashPurge = () => {
+  void purgeTrash()
+  return setInterval(purgeTrash, PURGE_INTERVAL_MS)
+}
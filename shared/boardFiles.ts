@@ -0,0 +1,38 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+// Where a board's files live in storage and how long it stays in the trash, for the
+// app and for the sync server that purges boards.
+
+// Boards in the trash are purged this long after they were deleted
+export const TRASH_RETENTION_DAYS = 30
+export const TRASH_RETENTION_MS = TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000
+
+// Files of a board - chat images and canvas assets - live under one folder of the
+// board-images bucket, so they can be copied or removed together
+export const BOARD_FILES_BUCKET = 'board-images'
+export const boardFilesFolder = (boardId: string) => `board-images/${boardId}`
+
+// Thumbnails live in a private bucket at <board id>/thumbnail.png
+export const THUMBNAIL_BUCKET = 'board-thumbnails'
+export const boardThumbnailPath = (boardId: string) => `${boardId}/thumbnail.png`
+
+// Every file stored for a board, from its chat images and canvas assets. Takes the
+// client to list with: the app's, or the sync server's service role client.
+export const listBoardFiles = async (client: SupabaseClient, boardId: string) => {
+  const paths: string[] = []
+
+  for (const folder of [boardFilesFolder(boardId), `${boardFilesFolder(boardId)}/assets`]) {
+    for (let offset = 0; ; offset += 1000) {
+      const { data, error } = await client.storage
+        .from(BOARD_FILES_BUCKET)
+        .list(folder, { limit: 1000, offset })
+
+      if (error) throw error
+      // Sub-folders are listed without an id
+      data.filter(file => file.id).forEach(file => paths.push(`${folder}/${file.name}`))
+      if (data.length < 1000) break
+    }
+  }
+
+  return paths
+}
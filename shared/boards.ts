@@ -0,0 +1,12 @@
+// Shared by the app (src/) and the sync server (server/), so the two can't drift
+// apart. Nothing here may import tldraw: the sync server runs without it.
+
+// Version of the board document format in boards.board_data (see
+// src/lib/boardDocument.ts). The sync server writes its checkpoints in it.
+export const BOARD_DOCUMENT_VERSION = 2
+
+// Close reason the sync server disconnects a board's sessions with when the board
+// was written elsewhere since its room last saved it (see server/rooms.ts)
+export const BOARD_CONFLICT_REASON = 'BOARD_CONFLICT'
+
+export type BoardConflictResolution = 'reload' | 'merge' | 'copy'
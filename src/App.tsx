@@ -1,60 +1,108 @@
-import React, { useState } from 'react'
+import React, { useEffect, useRef } from 'react'
+import { BrowserRouter, Navigate, Route, Routes, useLocation, useNavigate, useParams } from 'react-router-dom'
 import { AuthProvider, useAuth } from './contexts/AuthContext'
 import { AuthPage } from './components/AuthPage'
 import { Dashboard } from './components/Dashboard'
 import { BoardView } from './components/BoardView'
+import { PublicBoardView } from './components/PublicBoardView'
+import { RequireAuth } from './components/RequireAuth'
+import { DASHBOARD_PATH, boardPath, consumeReturnTo, rememberReturnTo } from './lib/routes'
 import './App.css'
 
-// Main App Content Component
-const AppContent: React.FC = () => {
+// Login route - sends signed-in users back to the page they came from
+const LoginRoute: React.FC = () => {
   const { user, loading } = useAuth()
-  const [currentView, setCurrentView] = useState<'dashboard' | 'board'>('dashboard')
-  const [currentBoardId, setCurrentBoardId] = useState<string | null>(null)
+  const location = useLocation()
+  const navigate = useNavigate()
+  const from = (location.state as { from?: string } | null)?.from
+  // Effects run twice under StrictMode; the stored return-to is only read once
+  const redirected = useRef(false)
 
-  const handleOpenBoard = (boardId: string, boardData?: any) => {
-    setCurrentBoardId(boardId)
-    setCurrentView('board')
-  }
+  useEffect(() => {
+    if (!user && from) {
+      rememberReturnTo(from)
+    }
+  }, [user, from])
 
-  const handleBackToDashboard = () => {
-    setCurrentView('dashboard')
-    setCurrentBoardId(null)
-  }
+  // Once signed in, leave for where the user was heading. The stored return-to is
+  // cleared even when the router state already says where that is.
+  useEffect(() => {
+    if (!user || redirected.current) return
+    redirected.current = true
 
-  if (loading) {
-    return (
-      <div className="h-screen w-screen bg-black/5 flex items-center justify-center">
-        <div className="text-center">
-          <div className="w-8 h-8 border-4 border-black/20 border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
-          <p className="text-black/60">Loading...</p>
-        </div>
-      </div>
-    )
+    const returnTo = consumeReturnTo()
+    navigate(from || returnTo || DASHBOARD_PATH, { replace: true })
+  }, [user, from, navigate])
+
+  if (loading || user) {
+    return null
   }
 
-  if (!user) {
-    return <AuthPage />
+  return <AuthPage redirectPath={from || DASHBOARD_PATH} />
+}
+
+const DashboardRoute: React.FC = () => {
+  const navigate = useNavigate()
+
+  return (
+    <Dashboard onOpenBoard={(boardId) => navigate(boardPath(boardId))} />
+  )
+}
+
+const BoardRoute: React.FC = () => {
+  const { boardId } = useParams()
+  const navigate = useNavigate()
+
+  if (!boardId) {
+    return <Navigate to={DASHBOARD_PATH} replace />
   }
 
-  if (currentView === 'board' && currentBoardId) {
-    return (
-      <BoardView 
-        boardId={currentBoardId} 
-        onBack={handleBackToDashboard}
-      />
-    )
+  return (
+    <BoardView
+      key={boardId}
+      boardId={boardId}
+      onBack={() => navigate(DASHBOARD_PATH)}
+    />
+  )
+}
+
+// Published board - open to everyone, signed in or not
+const PublicBoardRoute: React.FC = () => {
+  const { slug } = useParams()
+
+  if (!slug) {
+    return <Navigate to={DASHBOARD_PATH} replace />
   }
 
+  return <PublicBoardView key={slug} slug={slug} />
+}
+
+// Main App Content Component
+const AppContent: React.FC = () => {
   return (
-    <Dashboard onOpenBoard={handleOpenBoard} />
+    <Routes>
+      <Route path="/login" element={<LoginRoute />} />
+      <Route
+        path="/dashboard"
+        element={<RequireAuth><DashboardRoute /></RequireAuth>}
+      />
+      <Route
+        path="/boards/:boardId"
+        element={<RequireAuth><BoardRoute /></RequireAuth>}
+      />
+      <Route path="/p/:slug" element={<PublicBoardRoute />} />
+      <Route path="*" element={<Navigate to={DASHBOARD_PATH} replace />} />
+    </Routes>
   )
 }
 
 function App() {
   return (
-    <AuthProvider>
-      <AppContent />
-    </AuthProvider>
+    <BrowserRouter>
+      <AuthProvider>
+        <AppContent />
+      </AuthProvider>
+    </BrowserRouter>
   )
 }
 
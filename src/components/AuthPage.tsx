@@ -2,8 +2,14 @@ import React, { useState } from 'react'
 import { Auth } from '@supabase/auth-ui-react'
 import { ThemeSupa } from '@supabase/auth-ui-shared'
 import { supabase } from '../lib/supabase'
+import { DASHBOARD_PATH } from '../lib/routes'
 
-export const AuthPage: React.FC = () => {
+interface AuthPageProps {
+  // Where OAuth and magic link sign-ins should land afterwards
+  redirectPath?: string
+}
+
+export const AuthPage: React.FC<AuthPageProps> = ({ redirectPath = DASHBOARD_PATH }) => {
   const [isLoading, setIsLoading] = useState(false)
 
   return (
@@ -71,7 +77,7 @@ export const AuthPage: React.FC = () => {
               }
             }}
             providers={['google', 'github']}
-            redirectTo={`${window.location.origin}/dashboard`}
+            redirectTo={`${window.location.origin}${redirectPath}`}
             onlyThirdPartyProviders={false}
             magicLink={true}
             theme="light"
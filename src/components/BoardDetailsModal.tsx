@@ -0,0 +1,149 @@
+import React, { useState } from 'react'
+import { X } from 'lucide-react'
+import { supabase } from '../lib/supabase'
+import type { Board, BoardFolder, BoardSummary } from '../lib/supabase'
+import { flattenFolders } from '../lib/boardFolders'
+import { parseTags } from '../lib/boardSearch'
+
+interface BoardDetailsModalProps {
+  board: BoardSummary
+  folders: BoardFolder[]
+  onSaved: (board: Board) => void
+  onClose: () => void
+}
+
+// Name, description, tags and folder of a board the user owns
+export const BoardDetailsModal: React.FC<BoardDetailsModalProps> = ({
+  board,
+  folders,
+  onSaved,
+  onClose
+}) => {
+  const [name, setName] = useState(board.name)
+  const [description, setDescription] = useState(board.description ?? '')
+  const [tags, setTags] = useState((board.tags || []).join(', '))
+  const [folderId, setFolderId] = useState(board.folder_id ?? '')
+  const [saving, setSaving] = useState(false)
+
+  const handleSave = async () => {
+    if (!name.trim()) return
+
+    try {
+      setSaving(true)
+      const { data, error } = await supabase
+        .from('boards')
+        .update({
+          name: name.trim(),
+          description: description.trim() || null,
+          tags: parseTags(tags),
+          folder_id: folderId || null
+        })
+        .eq('id', board.id)
+        .select()
+        .single()
+
+      if (error) throw error
+      console.log('✅ Board details saved:', data.name)
+      onSaved(data)
+    } catch (error) {
+      console.error('Error saving board details:', error)
+      alert('Failed to save the board details. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+      <div className="bg-white/90 backdrop-blur-sm rounded-xl shadow-xl border border-black/10 max-w-md w-full">
+        <div className="p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-semibold text-black">Board Details</h3>
+            <button
+              onClick={onClose}
+              className="text-black/40 hover:text-black transition-colors"
+            >
+              <X size={20} />
+            </button>
+          </div>
+
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-black/70 mb-1">
+                Board Name *
+              </label>
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                className="w-full px-3 py-2 border border-black/20 rounded-lg focus:outline-none focus:ring-2 focus:ring-black/20 bg-white/50"
+                autoFocus
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-black/70 mb-1">
+                Description
+              </label>
+              <textarea
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                rows={3}
+                className="w-full px-3 py-2 border border-black/20 rounded-lg focus:outline-none focus:ring-2 focus:ring-black/20 resize-none bg-white/50"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-black/70 mb-1">
+                Tags
+              </label>
+              <input
+                type="text"
+                value={tags}
+                onChange={(e) => setTags(e.target.value)}
+                placeholder="career, q3-goals, 1-on-1"
+                className="w-full px-3 py-2 border border-black/20 rounded-lg focus:outline-none focus:ring-2 focus:ring-black/20 bg-white/50"
+              />
+              <p className="text-xs text-black/50 mt-1">Separate tags with commas</p>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-black/70 mb-1">
+                Folder
+              </label>
+              <select
+                value={folderId}
+                onChange={(e) => setFolderId(e.target.value)}
+                className="w-full px-3 py-2 border border-black/20 rounded-lg focus:outline-none focus:ring-2 focus:ring-black/20 bg-white/50"
+              >
+                <option value="">No folder (top level)</option>
+                {flattenFolders(folders).map(({ folder, depth }) => (
+                  <option key={folder.id} value={folder.id}>
+                    {'\u00A0\u00A0'.repeat(depth)}{folder.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className="flex items-center justify-end space-x-3 mt-6">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-black/60 hover:text-black transition-colors"
+              disabled={saving}
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={!name.trim() || saving}
+              className="bg-black text-white px-6 py-2 rounded-lg hover:bg-black/80 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {saving ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,168 @@
+import React, { useState } from 'react'
+import { Editor, PageRecordType, useValue } from 'tldraw'
+import type { TLPage } from 'tldraw'
+import { Layers, ChevronDown, Plus, Pencil, Trash2, Check } from 'lucide-react'
+import { getPageShapes } from '../lib/boardPages'
+
+interface BoardPagesMenuProps {
+  editor: Editor | null
+  onCheckpoint?: (name: string) => Promise<void>
+  // Viewers can switch pages, but not add, rename or delete them
+  readOnly?: boolean
+}
+
+export const BoardPagesMenu: React.FC<BoardPagesMenuProps> = ({
+  editor,
+  onCheckpoint,
+  readOnly = false
+}) => {
+  const [isOpen, setIsOpen] = useState(false)
+  const [renamingId, setRenamingId] = useState<string | null>(null)
+  const [pageName, setPageName] = useState('')
+
+  const pages = useValue('board pages', () => editor?.getPages() ?? [], [editor])
+  const currentPageId = useValue('current page', () => editor?.getCurrentPageId(), [editor])
+  const currentPage = pages.find(page => page.id === currentPageId)
+
+  if (!editor) return null
+
+  const switchPage = (page: TLPage) => {
+    editor.setCurrentPage(page.id)
+    setIsOpen(false)
+  }
+
+  const addPage = () => {
+    if (pages.length >= editor.options.maxPages) {
+      alert(`A board can have up to ${editor.options.maxPages} pages.`)
+      return
+    }
+
+    editor.markHistoryStoppingPoint('add page')
+    const id = PageRecordType.createId()
+    const name = `Page ${pages.length + 1}`
+    editor.createPage({ id, name })
+    // createPage doesn't switch to the new page
+    editor.setCurrentPage(id)
+    console.log('📄 Added page:', name)
+  }
+
+  const startRename = (page: TLPage) => {
+    setRenamingId(page.id)
+    setPageName(page.name)
+  }
+
+  const finishRename = (page: TLPage) => {
+    const name = pageName.trim()
+    if (name && name !== page.name) {
+      editor.renamePage(page.id, name)
+    }
+    setRenamingId(null)
+  }
+
+  const deletePage = async (page: TLPage) => {
+    if (pages.length <= 1) return
+
+    const shapeCount = getPageShapes(editor, page.id).length
+    const confirmed = shapeCount === 0 || window.confirm(
+      `Delete the "${page.name}" page and its ${shapeCount} shape${shapeCount === 1 ? '' : 's'}? A checkpoint is kept in the version history.`
+    )
+    if (!confirmed) return
+
+    if (shapeCount > 0) {
+      await onCheckpoint?.(`Before deleting page "${page.name}"`)
+    }
+    editor.markHistoryStoppingPoint('delete page')
+    editor.deletePage(page.id)
+    console.log('🗑️ Deleted page:', page.name)
+  }
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center space-x-1 px-3 py-1.5 text-sm bg-gray-50 text-gray-600 rounded hover:bg-gray-100 transition-colors"
+        title="Pages"
+      >
+        <Layers size={14} />
+        <span className="max-w-[10rem] truncate">{currentPage?.name ?? 'Page'}</span>
+        {pages.length > 1 && <span className="text-xs text-gray-400">{pages.length}</span>}
+        <ChevronDown size={14} />
+      </button>
+
+      {isOpen && (
+        <>
+          {/* Closes the menu when clicking anywhere else */}
+          <div className="fixed inset-0 z-40" onClick={() => setIsOpen(false)} />
+
+          <div className="absolute left-0 top-full mt-1 w-64 bg-white border border-gray-200 rounded-lg shadow-lg z-50 py-1">
+            <ul className="max-h-72 overflow-y-auto">
+              {pages.map(page => (
+                <li
+                  key={page.id}
+                  className={`group flex items-center justify-between px-3 py-1.5 text-sm ${
+                    page.id === currentPageId ? 'bg-blue-50 text-blue-700' : 'text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  {renamingId === page.id ? (
+                    <input
+                      type="text"
+                      value={pageName}
+                      onChange={(e) => setPageName(e.target.value)}
+                      onBlur={() => finishRename(page)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') finishRename(page)
+                        if (e.key === 'Escape') setRenamingId(null)
+                      }}
+                      autoFocus
+                      className="flex-1 px-2 py-0.5 border border-gray-300 rounded text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  ) : (
+                    <button
+                      onClick={() => switchPage(page)}
+                      onDoubleClick={() => !readOnly && startRename(page)}
+                      className="flex-1 flex items-center space-x-2 text-left min-w-0"
+                    >
+                      {page.id === currentPageId ? <Check size={12} /> : <span className="w-3" />}
+                      <span className="truncate">{page.name}</span>
+                    </button>
+                  )}
+
+                  {!readOnly && renamingId !== page.id && (
+                    <div className="flex items-center space-x-1 ml-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                      <button
+                        onClick={() => startRename(page)}
+                        className="p-1 text-gray-400 hover:text-gray-700 transition-colors"
+                        title="Rename page"
+                      >
+                        <Pencil size={12} />
+                      </button>
+                      {pages.length > 1 && (
+                        <button
+                          onClick={() => deletePage(page)}
+                          className="p-1 text-gray-400 hover:text-red-500 transition-colors"
+                          title="Delete page"
+                        >
+                          <Trash2 size={12} />
+                        </button>
+                      )}
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+
+            {!readOnly && (
+              <button
+                onClick={addPage}
+                className="w-full flex items-center space-x-2 px-3 py-1.5 mt-1 border-t border-gray-100 text-sm text-gray-600 hover:bg-gray-50 transition-colors"
+              >
+                <Plus size={14} />
+                <span>Add page</span>
+              </button>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -1,92 +1,214 @@
-import React, { useState } from 'react'
+import React, { useRef, useState } from 'react'
 import { Editor } from 'tldraw'
+import type { TLFrameShape, TLPage, TLShapeId } from 'tldraw'
+import { getPageShapes, getPagesInScope, pageFileSlug, serializePages, sortInReadingOrder, withPage } from '../lib/boardPages'
+import type { PageScope } from '../lib/boardPages'
+import { exportShapesAsImage, IMAGE_FORMATS, IMAGE_SCALES, imageFileExtension, isImageFormat, MAX_IMAGE_PADDING, supportsTransparency } from '../lib/boardImageExport'
+import type { ImageFormat } from '../lib/boardImageExport'
+import { exportBoardMarkdown } from '../lib/boardMarkdown'
+import { exportBoardPdf, PDF_PAGE_SIZES } from '../lib/boardPdf'
+import type { PdfLayout, PdfOrientation, PdfPageSize } from '../lib/boardPdf'
+import { BOARD_IMPORT_ACCEPT, describeImportFailure, describeImportResult, importFileIntoBoard } from '../lib/boardImport'
+
+type ExportFormat = ImageFormat | 'pdf' | 'md' | 'json'
+// What an image shows: whole pages, the selection, or one frame ('frame:<id>')
+type ImageTarget = 'page' | 'selection' | `frame:${string}`
 
 interface BoardSettingsProps {
   onClose: () => void
   editor: Editor | null
+  boardId: string
+  // Used for the PDF title page and Markdown heading
+  boardName?: string
+  onCheckpoint?: (name: string) => Promise<void>
+  // Called with the records an import had to leave out
+  onImported?: (issues: string[]) => void
+  // Viewers can export, but not import or clear the board
+  readOnly?: boolean
 }
 
 export const BoardSettings: React.FC<BoardSettingsProps> = ({
   onClose,
-  editor
+  editor,
+  boardId,
+  boardName,
+  onCheckpoint,
+  onImported,
+  readOnly = false
 }) => {
-  const [exportFormat, setExportFormat] = useState<'png' | 'svg' | 'json'>('png')
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('png')
+  const [exportScope, setExportScope] = useState<PageScope>('current')
+  const [imageTarget, setImageTarget] = useState<ImageTarget>('page')
+  const [imageScale, setImageScale] = useState(2)
+  const [imagePadding, setImagePadding] = useState(32)
+  const [transparentBackground, setTransparentBackground] = useState(false)
+  const [darkMode, setDarkMode] = useState(false)
+  const [pdfLayout, setPdfLayout] = useState<PdfLayout>('frames')
+  const [pdfPageSize, setPdfPageSize] = useState<PdfPageSize>('a4')
+  const [pdfOrientation, setPdfOrientation] = useState<PdfOrientation>('landscape')
+  const [pdfTitlePage, setPdfTitlePage] = useState(true)
+  const [bundleImages, setBundleImages] = useState(false)
+  const [exporting, setExporting] = useState(false)
+  const [importing, setImporting] = useState(false)
+  const importInputRef = useRef<HTMLInputElement>(null)
+
+  const pageCount = editor?.getPages().length ?? 1
+  const selectedCount = editor?.getSelectedShapeIds().length ?? 0
+  const frames = editor
+    ? sortInReadingOrder(editor, editor.getCurrentPageShapes().filter((shape): shape is TLFrameShape => shape.type === 'frame'))
+    : []
+  const exportsWholePages = !isImageFormat(exportFormat) || imageTarget === 'page'
+
+  const downloadBlob = (blob: Blob, filename: string) => {
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = filename
+    a.click()
+    URL.revokeObjectURL(url)
+  }
 
   const handleExport = async () => {
     if (!editor) return
 
     try {
-      const shapes = editor.getCurrentPageShapes()
-      if (shapes.length === 0) {
+      setExporting(true)
+      const pages = getPagesInScope(editor, exportScope)
+        .filter(page => getPageShapes(editor, page.id).length > 0)
+      if (pages.length === 0) {
         alert('No content to export!')
         return
       }
 
+      const timestamp = Date.now()
+      // Name files after their page when more than one page can be exported
+      const filename = (page: TLPage, extension: string) =>
+        pageCount > 1
+          ? `mentor-board-${pageFileSlug(page)}-${timestamp}.${extension}`
+          : `mentor-board-${timestamp}.${extension}`
+
       switch (exportFormat) {
         case 'png':
-          // Export as PNG using SVG conversion
-          const svgForPng = await editor.getSvgString(shapes)
-          if (svgForPng) {
-            const canvas = document.createElement('canvas')
-            const ctx = canvas.getContext('2d')
-            const img = new Image()
-            
-            img.onload = () => {
-              canvas.width = img.width * 2
-              canvas.height = img.height * 2
-              ctx?.drawImage(img, 0, 0, canvas.width, canvas.height)
-              
-              canvas.toBlob((blob) => {
-                if (blob) {
-                  const url = URL.createObjectURL(blob)
-                  const a = document.createElement('a')
-                  a.href = url
-                  a.download = `mentor-board-${Date.now()}.png`
-                  a.click()
-                  URL.revokeObjectURL(url)
-                }
-              }, 'image/png')
+        case 'jpeg':
+        case 'webp':
+        case 'svg': {
+          const imageOptions = {
+            format: exportFormat,
+            scale: imageScale,
+            transparent: transparentBackground,
+            padding: imagePadding,
+            darkMode
+          }
+          const extension = imageFileExtension(exportFormat)
+
+          if (imageTarget === 'selection') {
+            const blob = await exportShapesAsImage(editor, editor.getSelectedShapeIds(), imageOptions)
+            downloadBlob(blob, `mentor-board-selection-${timestamp}.${extension}`)
+            break
+          }
+
+          if (imageTarget !== 'page') {
+            const frame = editor.getShape(imageTarget.slice('frame:'.length) as TLShapeId)
+            if (!frame || frame.type !== 'frame') {
+              alert('That frame no longer exists.')
+              break
             }
-            
-            img.src = 'data:image/svg+xml;base64,' + btoa(svgForPng.svg)
+            const blob = await exportShapesAsImage(editor, [frame.id], imageOptions)
+            downloadBlob(blob, `mentor-board-${pageFileSlug({ name: (frame as TLFrameShape).props.name || 'frame' })}-${timestamp}.${extension}`)
+            break
           }
-          break
-        case 'svg':
-          const svgResult = await editor.getSvgString(shapes)
-          if (svgResult) {
-            const blob = new Blob([svgResult.svg], { type: 'image/svg+xml' })
-            const url = URL.createObjectURL(blob)
-            const a = document.createElement('a')
-            a.href = url
-            a.download = `mentor-board-${Date.now()}.svg`
-            a.click()
-            URL.revokeObjectURL(url)
+
+          // Whole pages are exported one file per page
+          for (const page of pages) {
+            await withPage(editor, page.id, async () => {
+              const blob = await exportShapesAsImage(editor, editor.getCurrentPageShapes().map(shape => shape.id), imageOptions)
+              downloadBlob(blob, filename(page, extension))
+            })
           }
+          console.log(`📤 Exported ${pages.length} page${pages.length === 1 ? '' : 's'} as ${exportFormat.toUpperCase()}`)
+          break
+        }
+        case 'pdf': {
+          // Every page in scope goes into one document
+          const pdf = await exportBoardPdf(editor, {
+            title: boardName || 'Mentor Board',
+            scope: exportScope,
+            layout: pdfLayout,
+            pageSize: pdfPageSize,
+            orientation: pdfOrientation,
+            titlePage: pdfTitlePage
+          })
+          downloadBlob(pdf, pages.length === 1 ? filename(pages[0], 'pdf') : `mentor-board-${timestamp}.pdf`)
+          break
+        }
+        case 'md': {
+          const notes = await exportBoardMarkdown(editor, {
+            title: boardName || 'Mentor Board',
+            scope: exportScope,
+            boardId,
+            bundleImages
+          })
+          const extension = bundleImages ? 'zip' : 'md'
+          downloadBlob(notes, pages.length === 1 ? filename(pages[0], extension) : `mentor-board-${timestamp}.${extension}`)
           break
+        }
         case 'json':
-          const data = editor.store.serialize()
-          const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' })
-          const url = URL.createObjectURL(blob)
-          const a = document.createElement('a')
-          a.href = url
-          a.download = `mentor-board-${Date.now()}.json`
-          a.click()
-          URL.revokeObjectURL(url)
+          // Saved with the schema, so the import can migrate it after tldraw updates
+          const data = {
+            schema: editor.store.schema.serialize(),
+            store: exportScope === 'all'
+              ? editor.store.serialize()
+              : serializePages(editor, [editor.getCurrentPageId()])
+          }
+          const jsonName = exportScope === 'all'
+            ? `mentor-board-${timestamp}.json`
+            : filename(editor.getCurrentPage(), 'json')
+          downloadBlob(new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' }), jsonName)
           break
       }
     } catch (error) {
       console.error('Export failed:', error)
       alert('Export failed. Please try again.')
+    } finally {
+      setExporting(false)
     }
   }
 
-  const clearBoard = () => {
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!editor || !file) return
+
+    try {
+      setImporting(true)
+      await onCheckpoint?.(`Before importing ${file.name}`)
+      const result = await importFileIntoBoard(editor, file)
+      console.log(`📥 ${describeImportResult(result, 0)}`)
+      if (result.failures.length > 0) {
+        console.warn(`⚠️ ${result.failures.length} records could not be imported:`, result.failures)
+        onImported?.(result.failures.map(describeImportFailure))
+      }
+      onClose()
+    } catch (error) {
+      console.error('Import failed:', error)
+      alert(`Import failed: ${error instanceof Error ? error.message : 'please try again.'}`)
+    } finally {
+      setImporting(false)
+    }
+  }
+
+  const clearBoard = async (scope: PageScope) => {
     if (!editor) return
-    
-    const confirmed = window.confirm('Are you sure you want to clear the entire board? This action cannot be undone.')
+
+    const pageName = editor.getCurrentPage().name
+    const confirmed = window.confirm(scope === 'all'
+      ? 'Are you sure you want to clear every page of the board? A checkpoint is kept in the version history.'
+      : `Are you sure you want to clear the "${pageName}" page? A checkpoint is kept in the version history.`
+    )
     if (confirmed) {
-      editor.selectAll()
-      editor.deleteShapes(editor.getSelectedShapeIds())
+      await onCheckpoint?.(scope === 'all' ? 'Before clearing the board' : `Before clearing page "${pageName}"`)
+      const shapeIds = getPagesInScope(editor, scope).flatMap(page => [...editor.getPageShapeIds(page.id)])
+      editor.deleteShapes(shapeIds)
     }
   }
 
@@ -97,7 +219,7 @@ export const BoardSettings: React.FC<BoardSettingsProps> = ({
 
   return (
     <div className="settings-modal-backdrop fixed inset-0 flex items-center justify-center z-50">
-      <div className="settings-modal rounded-lg shadow-xl p-6 w-96 max-w-md">
+      <div className="settings-modal rounded-lg shadow-xl p-6 w-96 max-w-md max-h-[90vh] overflow-y-auto">
         <div className="flex items-center justify-between mb-4">
           <h2 className="text-xl font-semibold text-black">⚙️ Board Settings</h2>
           <button
@@ -119,23 +241,193 @@ export const BoardSettings: React.FC<BoardSettingsProps> = ({
                 </label>
                 <select
                   value={exportFormat}
-                  onChange={(e) => setExportFormat(e.target.value as 'png' | 'svg' | 'json')}
+                  onChange={(e) => setExportFormat(e.target.value as ExportFormat)}
                   className="w-full px-3 py-2 border border-gray-300 rounded bg-white text-black focus:outline-none focus:ring-2 focus:ring-gray-400"
                 >
-                  <option value="png">PNG Image</option>
-                  <option value="svg">SVG Vector</option>
+                  {IMAGE_FORMATS.map(format => (
+                    <option key={format.value} value={format.value}>{format.label}</option>
+                  ))}
+                  <option value="pdf">PDF Document</option>
+                  <option value="md">Markdown Notes</option>
                   <option value="json">JSON Data</option>
                 </select>
               </div>
+              {isImageFormat(exportFormat) && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Content
+                  </label>
+                  <select
+                    value={imageTarget}
+                    onChange={(e) => setImageTarget(e.target.value as ImageTarget)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded bg-white text-black focus:outline-none focus:ring-2 focus:ring-gray-400"
+                  >
+                    <option value="page">{pageCount > 1 ? 'Whole pages' : 'Whole board'}</option>
+                    <option value="selection" disabled={selectedCount === 0}>
+                      Selection ({selectedCount} shape{selectedCount === 1 ? '' : 's'})
+                    </option>
+                    {frames.map(frame => (
+                      <option key={frame.id} value={`frame:${frame.id}`}>Frame: {frame.props.name || 'Frame'}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+              {pageCount > 1 && exportsWholePages && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Pages
+                  </label>
+                  <select
+                    value={exportScope}
+                    onChange={(e) => setExportScope(e.target.value as PageScope)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded bg-white text-black focus:outline-none focus:ring-2 focus:ring-gray-400"
+                  >
+                    <option value="current">Current page ({editor?.getCurrentPage().name})</option>
+                    <option value="all">All {pageCount} pages</option>
+                  </select>
+                  {exportScope === 'all' && isImageFormat(exportFormat) && (
+                    <p className="text-xs text-gray-500 mt-1">Each page is downloaded as its own file.</p>
+                  )}
+                </div>
+              )}
+              {isImageFormat(exportFormat) && (
+                <div className="space-y-3">
+                  <div className="flex space-x-2">
+                    <div className="flex-1">
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Scale
+                      </label>
+                      <select
+                        value={imageScale}
+                        onChange={(e) => setImageScale(Number(e.target.value))}
+                        className="w-full px-3 py-2 border border-gray-300 rounded bg-white text-black focus:outline-none focus:ring-2 focus:ring-gray-400"
+                      >
+                        {IMAGE_SCALES.map(scale => (
+                          <option key={scale} value={scale}>{scale}x</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div className="flex-1">
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Padding (px)
+                      </label>
+                      <input
+                        type="number"
+                        min={0}
+                        max={MAX_IMAGE_PADDING}
+                        value={imagePadding}
+                        onChange={(e) => setImagePadding(Math.max(0, Math.min(MAX_IMAGE_PADDING, Number(e.target.value) || 0)))}
+                        className="w-full px-3 py-2 border border-gray-300 rounded bg-white text-black focus:outline-none focus:ring-2 focus:ring-gray-400"
+                      />
+                    </div>
+                  </div>
+                  <label className="flex items-center space-x-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={transparentBackground && supportsTransparency(exportFormat)}
+                      disabled={!supportsTransparency(exportFormat)}
+                      onChange={(e) => setTransparentBackground(e.target.checked)}
+                    />
+                    <span>Transparent background{supportsTransparency(exportFormat) ? '' : ' (not available for JPEG)'}</span>
+                  </label>
+                  <label className="flex items-center space-x-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={darkMode}
+                      onChange={(e) => setDarkMode(e.target.checked)}
+                    />
+                    <span>Dark mode</span>
+                  </label>
+                </div>
+              )}
+              {exportFormat === 'pdf' && (
+                <div className="space-y-3">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Layout
+                    </label>
+                    <select
+                      value={pdfLayout}
+                      onChange={(e) => setPdfLayout(e.target.value as PdfLayout)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded bg-white text-black focus:outline-none focus:ring-2 focus:ring-gray-400"
+                    >
+                      <option value="frames">One page per frame</option>
+                      <option value="tiles">Whole board, split across pages</option>
+                    </select>
+                  </div>
+                  <div className="flex space-x-2">
+                    <select
+                      value={pdfPageSize}
+                      onChange={(e) => setPdfPageSize(e.target.value as PdfPageSize)}
+                      className="flex-1 px-3 py-2 border border-gray-300 rounded bg-white text-black focus:outline-none focus:ring-2 focus:ring-gray-400"
+                    >
+                      {PDF_PAGE_SIZES.map(size => (
+                        <option key={size.value} value={size.value}>{size.label}</option>
+                      ))}
+                    </select>
+                    <select
+                      value={pdfOrientation}
+                      onChange={(e) => setPdfOrientation(e.target.value as PdfOrientation)}
+                      className="flex-1 px-3 py-2 border border-gray-300 rounded bg-white text-black focus:outline-none focus:ring-2 focus:ring-gray-400"
+                    >
+                      <option value="landscape">Landscape</option>
+                      <option value="portrait">Portrait</option>
+                    </select>
+                  </div>
+                  <label className="flex items-center space-x-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={pdfTitlePage}
+                      onChange={(e) => setPdfTitlePage(e.target.checked)}
+                    />
+                    <span>Title page with the board name and date</span>
+                  </label>
+                </div>
+              )}
+              {exportFormat === 'md' && (
+                <label className="flex items-center space-x-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={bundleImages}
+                    onChange={(e) => setBundleImages(e.target.checked)}
+                  />
+                  <span>Include images (downloads a .zip)</span>
+                </label>
+              )}
               <button
                 onClick={handleExport}
-                className="w-full btn-black py-2 px-4 rounded font-medium transition-all duration-200"
+                disabled={exporting}
+                className="w-full btn-black py-2 px-4 rounded font-medium transition-all duration-200 disabled:opacity-50"
               >
-                Download {exportFormat.toUpperCase()}
+                {exporting ? 'Exporting...' : `Download ${exportFormat === 'md' ? (bundleImages ? 'ZIP' : 'Markdown') : exportFormat.toUpperCase()}`}
               </button>
             </div>
           </div>
 
+          {/* Import Section */}
+          {!readOnly && (
+            <div>
+              <h3 className="text-lg font-medium text-gray-800 mb-3">📥 Import</h3>
+              <p className="text-xs text-gray-600 mb-2">
+                Add a .tldr file or a JSON export to this board. A single page is placed beside the current content; files with several pages are added as new pages.
+              </p>
+              <input
+                ref={importInputRef}
+                type="file"
+                accept={BOARD_IMPORT_ACCEPT}
+                onChange={handleImport}
+                className="hidden"
+              />
+              <button
+                onClick={() => importInputRef.current?.click()}
+                disabled={importing}
+                className="w-full btn-black-light py-2 px-4 rounded font-medium transition-all duration-200 disabled:opacity-50"
+              >
+                {importing ? 'Importing...' : 'Choose File'}
+              </button>
+            </div>
+          )}
+
           {/* Board Actions */}
           <div>
             <h3 className="text-lg font-medium text-gray-800 mb-3">🎯 Board Actions</h3>
@@ -146,12 +438,22 @@ export const BoardSettings: React.FC<BoardSettingsProps> = ({
               >
                 🔍 Fit to Content
               </button>
-              <button
-                onClick={clearBoard}
-                className="w-full bg-red-600 hover:bg-red-500 text-white py-2 px-4 rounded font-medium transition-all duration-200"
-              >
-                🗑️ Clear Board
-              </button>
+              {!readOnly && (
+                <button
+                  onClick={() => clearBoard('current')}
+                  className="w-full bg-red-600 hover:bg-red-500 text-white py-2 px-4 rounded font-medium transition-all duration-200"
+                >
+                  🗑️ {pageCount > 1 ? 'Clear Page' : 'Clear Board'}
+                </button>
+              )}
+              {!readOnly && pageCount > 1 && (
+                <button
+                  onClick={() => clearBoard('all')}
+                  className="w-full bg-red-600 hover:bg-red-500 text-white py-2 px-4 rounded font-medium transition-all duration-200"
+                >
+                  🗑️ Clear All Pages
+                </button>
+              )}
             </div>
           </div>
 
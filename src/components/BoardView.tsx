@@ -1,11 +1,30 @@
-import { useState, useCallback, useEffect } from 'react'
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react'
 import { Tldraw, Editor, toRichText, createTLStore, defaultShapeUtils, defaultTools } from 'tldraw'
-import { useSyncDemo } from '@tldraw/sync'
+import { useSync } from '@tldraw/sync'
+import { TLRemoteSyncError } from '@tldraw/sync-core'
+import { useNavigate } from 'react-router-dom'
 import 'tldraw/tldraw.css'
 import { useAuth } from '../contexts/AuthContext'
 import { supabase } from '../lib/supabase'
-import type { Template } from '../lib/supabase'
-import { ArrowLeft, Save, Share, Users } from 'lucide-react'
+import type { BoardRole, Template } from '../lib/supabase'
+import { BOARD_DOCUMENT_VERSION, describeMigrationFailure, migrateBoardDocument, replaceBoardContent } from '../lib/boardDocument'
+import type { MigrationResult } from '../lib/boardDocument'
+import { AUTO_VERSION_INTERVAL_MS, createBoardVersion } from '../lib/boardVersions'
+import { fetchStoredBoard } from '../lib/boardPersistence'
+import { fetchBoardRole } from '../lib/boardMembers'
+import { THUMBNAIL_MIN_INTERVAL_MS, updateBoardThumbnail } from '../lib/boardThumbnails'
+import { boardPath } from '../lib/routes'
+import { getBuiltinTemplate, insertBuiltinTemplate } from '../lib/builtinTemplates'
+import { insertTemplateDocument } from '../lib/templateInsert'
+import type { TemplateLoadMode } from '../lib/templateInsert'
+import { recordTemplateUsage } from '../lib/templateUsage'
+import { saveBoardAsTemplateVersion } from '../lib/templateManagement'
+import { describeImportFailure } from '../lib/boardImport'
+import { automaticPlaceholderValues, fetchPlaceholderContext, fillTemplatePlaceholders, findDocumentPlaceholders } from '../lib/templatePlaceholders'
+import { createBoardAssetStore, resolveSyncConflict, saveSyncRoom, syncRoomId, syncRoomUri } from '../lib/sync'
+import { BOARD_CONFLICT_REASON } from '../../shared/boards'
+import type { BoardConflictResolution } from '../../shared/boards'
+import { ArrowLeft, Save, Share, Users, History, Eye, Globe, Layers } from 'lucide-react'
 
 // Mentor Board Components
 import { MentorToolbar } from './MentorToolbar'
@@ -14,6 +33,15 @@ import { BoardSettings } from './BoardSettings'
 import { MentorChatPanel } from './MentorChatPanel'
 import { TemplatesPanel } from './TemplatesPanel'
 import { SaveTemplateModal } from './SaveTemplateModal'
+import { NoteImportModal } from './NoteImportModal'
+import { TemplatePlaceholderModal } from './TemplatePlaceholderModal'
+import { TemplateMarketplaceModal } from './TemplateMarketplaceModal'
+import { TemplateManagerModal } from './TemplateManagerModal'
+import { VersionHistoryPanel } from './VersionHistoryPanel'
+import { ShareBoardModal } from './ShareBoardModal'
+import { PublishBoardModal } from './PublishBoardModal'
+import { BoardPagesMenu } from './BoardPagesMenu'
+import { SaveConflictModal } from './SaveConflictModal'
 
 interface BoardViewProps {
   boardId: string
@@ -22,20 +50,74 @@ interface BoardViewProps {
 
 export const BoardView: React.FC<BoardViewProps> = ({ boardId, onBack }) => {
   const { user } = useAuth()
+  const navigate = useNavigate()
   const [isCollaborating, setIsCollaborating] = useState(false)
-  const [roomId, setRoomId] = useState(boardId)
   const [editor, setEditor] = useState<Editor | null>(null)
   const [showSettings, setShowSettings] = useState(false)
   const [showSaveTemplate, setShowSaveTemplate] = useState(false)
+  const [showHistory, setShowHistory] = useState(false)
+  const [showShare, setShowShare] = useState(false)
+  const [showPublish, setShowPublish] = useState(false)
+  const [showNoteImport, setShowNoteImport] = useState(false)
+  const [showMarketplace, setShowMarketplace] = useState(false)
+  const [showTemplateManager, setShowTemplateManager] = useState(false)
+  // Template this board was opened to edit, when the user owns it
+  const [editingTemplate, setEditingTemplate] = useState<Pick<Template, 'id' | 'name' | 'version'> | null>(null)
+  const [savingTemplateVersion, setSavingTemplateVersion] = useState(false)
+  // Template waiting for its placeholder values
+  const [pendingTemplate, setPendingTemplate] = useState<{
+    template: Template
+    migrated: MigrationResult
+    mode: TemplateLoadMode
+    placeholders: string[]
+    defaults: Record<string, string>
+  } | null>(null)
+  const [isPublished, setIsPublished] = useState(false)
+  const [publicSlug, setPublicSlug] = useState<string | null>(null)
   const [boardName, setBoardName] = useState('')
+  // The signed-in user's role on this board (owner, or their board_members role)
+  const [boardRole, setBoardRole] = useState<BoardRole | null>(null)
+  // Viewers get a locked editor; the sync server and RLS reject their writes as well.
+  // The editor stays locked until the role has loaded.
+  const isReadonly = boardRole === null || boardRole === 'viewer'
   const [saving, setSaving] = useState(false)
   const [lastSaved, setLastSaved] = useState<Date | null>(null)
-
-  // Use sync for collaboration or local store
-  const store = useSyncDemo({ 
-    roomId: isCollaborating ? roomId : `board-${boardId}`
+  // Records that could not be migrated when the board or a template was loaded
+  const [loadIssues, setLoadIssues] = useState<string[]>([])
+  // When the last automatic history snapshot was taken this session
+  const lastAutoVersionAt = useRef(0)
+  // Fingerprint of the content the stored thumbnail was made from
+  const thumbnailFingerprintRef = useRef<string | null>(null)
+  const lastThumbnailAt = useRef(0)
+
+  // Sync through our own server. The board's room is its one source of truth: the
+  // server loads it from the saved board and writes every change back, so this
+  // client never saves the board's content itself.
+  const syncRoom = syncRoomId(boardId)
+  // Bumped to connect again, after the room was left over a save conflict
+  const [syncAttempt, setSyncAttempt] = useState(0)
+  const [resolvingConflict, setResolvingConflict] = useState(false)
+  // useSync connects again whenever uri changes, so syncAttempt belongs here
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  const syncUri = useCallback(() => syncRoomUri(syncRoom), [syncRoom, syncAttempt])
+  const assets = useMemo(() => createBoardAssetStore(boardId), [boardId])
+  const userInfo = useMemo(() => user ? {
+    id: user.id,
+    name: user.user_metadata?.full_name || user.email || undefined
+  } : undefined, [user])
+
+  const store = useSync({
+    uri: syncUri,
+    assets,
+    userInfo
   })
 
+  // The server writes the board; when it finds the board was written elsewhere it
+  // stops saving and disconnects everyone until someone chooses what to keep
+  const hasSaveConflict = store.status === 'error'
+    && store.error instanceof TLRemoteSyncError
+    && store.error.reason === BOARD_CONFLICT_REASON
+
   // Load board data and metadata
   useEffect(() => {
     const loadBoardData = async () => {
@@ -49,10 +131,19 @@ export const BoardView: React.FC<BoardViewProps> = ({ boardId, onBack }) => {
         if (error) throw error
         
         setBoardName(data.name)
-        
-        // If board has saved data, load it after editor mounts
-        if (data.board_data && Object.keys(data.board_data).length > 0) {
-          // We'll load this after the editor mounts
+        setIsPublished(data.is_public)
+        setPublicSlug(data.public_slug ?? null)
+        thumbnailFingerprintRef.current = data.thumbnail_fingerprint ?? null
+
+        if (data.editing_template_id) {
+          const { data: template, error: templateError } = await supabase
+            .from('templates')
+            .select('id, name, version, user_id')
+            .eq('id', data.editing_template_id)
+            .maybeSingle()
+
+          if (templateError) throw templateError
+          setEditingTemplate(template && template.user_id === user?.id ? template : null)
         }
       } catch (error) {
         console.error('Error loading board:', error)
@@ -64,89 +155,90 @@ export const BoardView: React.FC<BoardViewProps> = ({ boardId, onBack }) => {
     }
   }, [boardId, user])
 
-  // Auto-save functionality
-  useEffect(() => {
+  // Regenerates the dashboard thumbnail if the board looks different from when it was last made
+  const refreshThumbnail = useCallback(async () => {
     if (!editor || !boardId) return
 
-    const saveBoard = async () => {
-      try {
-        setSaving(true)
-        
-        // Get complete board state including all tldraw data
-        const storeSnapshot = editor.store.getSnapshot()
-        const camera = editor.getCamera()
-        const viewport = editor.getViewportPageBounds()
-        
-        const boardData = {
-          // Complete tldraw store snapshot for full state preservation
-          storeSnapshot,
-          // Additional metadata
-          camera,
-          viewport: {
-            x: viewport.x,
-            y: viewport.y,
-            width: viewport.width,
-            height: viewport.height
-          },
-          // Legacy shape data for backwards compatibility
-          shapes: editor.getCurrentPageShapes().map(shape => ({
-            id: shape.id,
-            type: shape.type,
-            x: shape.x,
-            y: shape.y,
-            props: shape.props,
-            rotation: shape.rotation
-          })),
-          metadata: {
-            version: '2.0',
-            savedAt: new Date().toISOString(),
-            shapeCount: editor.getCurrentPageShapes().length
-          }
-        }
+    try {
+      const result = await updateBoardThumbnail(editor, boardId, thumbnailFingerprintRef.current)
+      if (result.status === 'updated') {
+        thumbnailFingerprintRef.current = result.fingerprint
+        lastThumbnailAt.current = Date.now()
+        console.log('🖼️ Board thumbnail updated')
+      }
+    } catch (error) {
+      console.error('❌ Error updating board thumbnail:', error)
+    }
+  }, [editor, boardId])
 
-        console.log('💾 Saving board data:', {
-          boardId,
-          shapeCount: boardData.shapes.length,
-          storeKeys: Object.keys(storeSnapshot.store),
-          timestamp: boardData.metadata.savedAt
-        })
+  // Asks the sync server to write the board now; it also saves on its own every few seconds
+  const manualSave = useCallback(async () => {
+    if (!editor || isReadonly) return
 
-        const { error } = await supabase
-          .from('boards')
-          .update({
-            board_data: boardData,
-            updated_at: new Date().toISOString()
-          })
-          .eq('id', boardId)
+    try {
+      setSaving(true)
+      console.log('💾 Manual save:', { boardId, shapeCount: editor.getCurrentPageShapes().length })
+      await saveSyncRoom(syncRoom)
+      setLastSaved(new Date())
+      console.log('✅ Manual save completed successfully')
+      refreshThumbnail()
+    } catch (error) {
+      console.error('❌ Error saving board:', error)
+      alert(`Could not save the board: ${error instanceof Error ? error.message : error}`)
+    } finally {
+      setSaving(false)
+    }
+  }, [editor, boardId, syncRoom, isReadonly, refreshThumbnail])
 
-        if (error) throw error
-        setLastSaved(new Date())
-        console.log('✅ Board saved successfully')
+  // Runs once editing in this tab pauses: keeps the thumbnail roughly current and
+  // periodically keeps a copy of the board in the version history
+  const afterEdit = useCallback(async () => {
+    if (!editor || !user || isReadonly) return
+
+    if (Date.now() - lastThumbnailAt.current > THUMBNAIL_MIN_INTERVAL_MS) {
+      refreshThumbnail()
+    }
+
+    if (Date.now() - lastAutoVersionAt.current > AUTO_VERSION_INTERVAL_MS) {
+      lastAutoVersionAt.current = Date.now()
+      try {
+        await createBoardVersion(editor, boardId, user.id, 'auto')
+        console.log('🕘 Automatic version snapshot stored')
       } catch (error) {
-        console.error('❌ Error saving board:', error)
-      } finally {
-        setSaving(false)
+        console.error('❌ Error storing automatic version snapshot:', error)
       }
     }
+  }, [editor, boardId, user, isReadonly, refreshThumbnail])
 
-    // Auto-save every 30 seconds
-    const interval = setInterval(saveBoard, 30000)
+  // Boards saved before thumbnails existed, or changed by others since, get a new one soon after opening
+  useEffect(() => {
+    if (!editor || isReadonly) return
 
-    // Save on shape changes (debounced)
-    let saveTimeout: NodeJS.Timeout
-    const handleChange = () => {
-      clearTimeout(saveTimeout)
-      saveTimeout = setTimeout(saveBoard, 2000)
-    }
+    const thumbnailTimeout = setTimeout(refreshThumbnail, 5000)
+    return () => clearTimeout(thumbnailTimeout)
+  }, [editor, isReadonly, refreshThumbnail])
 
-    const unsubscribe = editor.store.listen(handleChange)
+  // Document changes made in this tab. Camera, selection and presence live outside
+  // the document scope and are ignored.
+  useEffect(() => {
+    if (!editor || !boardId) return
+
+    let editTimeout: ReturnType<typeof setTimeout>
+    const unsubscribe = editor.store.listen(() => {
+      clearTimeout(editTimeout)
+      editTimeout = setTimeout(afterEdit, 2000)
+    }, { source: 'user', scope: 'document' })
 
     return () => {
-      clearInterval(interval)
-      clearTimeout(saveTimeout)
+      clearTimeout(editTimeout)
       unsubscribe()
     }
-  }, [editor, boardId])
+  }, [editor, boardId, afterEdit])
+
+  // Lock the editor for viewers
+  useEffect(() => {
+    editor?.updateInstanceState({ isReadonly })
+  }, [editor, isReadonly])
 
   // Focus the board when component mounts or when editor changes
   useEffect(() => {
@@ -194,73 +286,42 @@ export const BoardView: React.FC<BoardViewProps> = ({ boardId, onBack }) => {
     const loadBoardData = async () => {
       try {
         console.log('🔄 Loading board data for:', boardId)
-        
-        const { data, error } = await supabase
-          .from('boards')
-          .select('board_data')
-          .eq('id', boardId)
-          .single()
 
-        if (error) throw error
-        
-        if (data.board_data && Object.keys(data.board_data).length > 0) {
-          console.log('📄 Found saved board data:', {
-            hasStoreSnapshot: !!data.board_data.storeSnapshot,
-            hasShapes: !!data.board_data.shapes,
-            shapeCount: data.board_data.shapes?.length || 0,
-            version: data.board_data.metadata?.version || 'legacy'
+        const role = await fetchBoardRole(boardId)
+        setBoardRole(role)
+
+        // Viewers see the board as it is in the sync room; they never write to it
+        if (!role || role === 'viewer') {
+          console.log('👀 Opened board as a viewer')
+          return
+        }
+
+        // Unlocked here rather than on the next render, so the content below can be added
+        editor.updateInstanceState({ isReadonly: false })
+
+        // The sync server opened the room from the saved board. Only an empty room
+        // needs a look at what is stored: a new board, or one saved in a format the
+        // server can't read (legacy shape lists), which is brought in here once.
+        const hasShapes = editor.store.allRecords().some(record => record.typeName === 'shape')
+        if (hasShapes) return
+
+        const stored = await fetchStoredBoard(boardId)
+
+        if (stored.document && stored.fromVersion !== null && stored.fromVersion < BOARD_DOCUMENT_VERSION) {
+          console.log('📄 Found board saved in an older format:', {
+            version: stored.fromVersion,
+            shapeCount: stored.document.metadata.shapeCount
           })
 
-          // Try to restore from complete store snapshot first (v2.0+)
-          if (data.board_data.storeSnapshot) {
-            try {
-              console.log('🔄 Restoring from store snapshot...')
-              editor.store.loadSnapshot(data.board_data.storeSnapshot)
-              
-              // Restore camera position
-              if (data.board_data.camera) {
-                editor.setCamera(data.board_data.camera)
-              }
-              
-              console.log('✅ Board restored from store snapshot')
-              return
-            } catch (storeError) {
-              console.warn('⚠️ Failed to restore from store snapshot, falling back to legacy method:', storeError)
-            }
-          }
+          const failures = [...stored.failures, ...replaceBoardContent(editor, stored.document)]
+          editor.zoomToFit()
 
-          // Fallback: restore from legacy shape data
-          if (data.board_data.shapes && data.board_data.shapes.length > 0) {
-            console.log('🔄 Restoring from legacy shape data...')
-            editor.batch(() => {
-              const currentShapes = editor.getCurrentPageShapes()
-              if (currentShapes.length > 0) {
-                editor.deleteShapes(currentShapes.map(shape => shape.id))
-              }
-
-              // Create shapes from saved data
-              data.board_data.shapes.forEach((shapeData: any, index: number) => {
-                try {
-                  editor.createShape({
-                    type: shapeData.type,
-                    x: shapeData.x || 0,
-                    y: shapeData.y || 0,
-                    props: shapeData.props || {},
-                    rotation: shapeData.rotation || 0
-                  })
-                } catch (shapeError) {
-                  console.error(`Error creating shape ${index}:`, shapeError)
-                }
-              })
-
-              // Restore camera position if available
-              if (data.board_data.camera) {
-                editor.setCamera(data.board_data.camera)
-              }
-            })
-            console.log('✅ Board restored from legacy shape data')
+          if (failures.length > 0) {
+            console.warn(`⚠️ ${failures.length} records could not be migrated:`, failures)
+            setLoadIssues(failures.map(describeMigrationFailure))
           }
-        } else {
+          console.log(`✅ Board restored (document v${stored.fromVersion} → v${stored.document.version})`)
+        } else if (!stored.document) {
           console.log('📝 No saved data found, creating welcome board...')
           // Add welcome message for new boards
           editor.createShape({
@@ -312,214 +373,148 @@ export const BoardView: React.FC<BoardViewProps> = ({ boardId, onBack }) => {
     loadBoardData()
   }, [boardId, boardName])
 
+  const resolveConflict = useCallback(async (resolution: BoardConflictResolution) => {
+    try {
+      setResolvingConflict(true)
+      const copyId = await resolveSyncConflict(syncRoom, resolution)
+      if (copyId) {
+        console.log('✅ Saved conflicting changes as a new board:', copyId)
+        navigate(boardPath(copyId))
+        return
+      }
+      setSyncAttempt(attempt => attempt + 1)
+    } catch (error) {
+      console.error('❌ Error resolving save conflict:', error)
+      alert(`Could not resolve the conflict: ${error instanceof Error ? error.message : error}`)
+    } finally {
+      setResolvingConflict(false)
+    }
+  }, [syncRoom, navigate])
+
   const toggleCollaboration = useCallback(() => {
     setIsCollaborating(!isCollaborating)
   }, [isCollaborating])
 
-  const createNewRoom = useCallback(() => {
-    const newRoomId = `mentor-board-${Date.now()}`
-    setRoomId(newRoomId)
-    setIsCollaborating(true)
-  }, [])
-
-  const addMentorTemplate = useCallback((template: string) => {
+  const addMentorTemplate = useCallback((templateId: string) => {
     if (!editor) return
 
-    const bounds = editor.getViewportPageBounds()
-    const centerX = bounds.x + bounds.width / 2
-    const centerY = bounds.y + bounds.height / 2
-
-    switch (template) {
-      case '1on1':
-        editor.createShape({
-          type: 'text',
-          x: centerX - 200,
-          y: centerY - 150,
-          props: {
-            richText: toRichText('📅 1-on-1 Meeting\n\n• Wins this week\n• Challenges\n• Goals for next week\n• Career development'),
-            size: 'm',
-            color: 'light-blue',
-          },
-        })
-        break
-      case 'feedback':
-        editor.createShape({
-          type: 'geo',
-          x: centerX - 100,
-          y: centerY - 100,
-          props: {
-            geo: 'rectangle',
-            w: 200,
-            h: 200,
-            color: 'light-blue',
-            fill: 'semi',
-            richText: toRichText('✅ What went well'),
-          },
-        })
-        editor.createShape({
-          type: 'geo',
-          x: centerX + 150,
-          y: centerY - 100,
-          props: {
-            geo: 'rectangle',
-            w: 200,
-            h: 200,
-            color: 'blue',
-            fill: 'semi',
-            richText: toRichText('🔄 What to improve'),
-          },
-        })
-        break
-      case 'planning':
-        const quarters = ['Q1', 'Q2', 'Q3', 'Q4']
-        const colors = ['light-blue', 'blue', 'light-blue', 'blue']
-        quarters.forEach((quarter, index) => {
-          editor.createShape({
-            type: 'geo',
-            x: centerX - 200 + (index * 120),
-            y: centerY,
-            props: {
-              geo: 'rectangle',
-              w: 100,
-              h: 150,
-              color: colors[index],
-              fill: 'semi',
-              richText: toRichText(quarter),
-            },
-          })
-        })
-        break
+    const template = getBuiltinTemplate(templateId)
+    if (!template) {
+      console.warn('⚠️ Unknown built-in template:', templateId)
+      return
+    }
+
+    try {
+      insertBuiltinTemplate(editor, template)
+      console.log('🧩 Added template:', template.name)
+    } catch (error) {
+      console.error('Error adding template:', error)
     }
   }, [editor])
 
-  const manualSave = useCallback(async () => {
-    if (!editor || !boardId) return
+  // Named checkpoint taken before destructive actions (Clear Board, AI board updates)
+  const createCheckpoint = useCallback(async (name: string) => {
+    if (!editor || !user) return
 
     try {
-      setSaving(true)
-      
-      // Get complete board state including all tldraw data
-      const storeSnapshot = editor.store.getSnapshot()
-      const camera = editor.getCamera()
-      const viewport = editor.getViewportPageBounds()
-      
-      const boardData = {
-        // Complete tldraw store snapshot for full state preservation
-        storeSnapshot,
-        // Additional metadata
-        camera,
-        viewport: {
-          x: viewport.x,
-          y: viewport.y,
-          width: viewport.width,
-          height: viewport.height
-        },
-        // Legacy shape data for backwards compatibility
-        shapes: editor.getCurrentPageShapes().map(shape => ({
-          id: shape.id,
-          type: shape.type,
-          x: shape.x,
-          y: shape.y,
-          props: shape.props,
-          rotation: shape.rotation
-        })),
-        metadata: {
-          version: '2.0',
-          savedAt: new Date().toISOString(),
-          shapeCount: editor.getCurrentPageShapes().length,
-          saveType: 'manual'
-        }
-      }
-
-      console.log('💾 Manual save - board data:', {
-        boardId,
-        shapeCount: boardData.shapes.length,
-        storeKeys: Object.keys(storeSnapshot.store),
-        timestamp: boardData.metadata.savedAt
-      })
-
-      const { error } = await supabase
-        .from('boards')
-        .update({
-          board_data: boardData,
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', boardId)
-
-      if (error) throw error
-      setLastSaved(new Date())
-      console.log('✅ Manual save completed successfully')
+      await createBoardVersion(editor, boardId, user.id, 'manual', name)
+      console.log('🔖 Checkpoint stored:', name)
     } catch (error) {
-      console.error('❌ Error manually saving board:', error)
-    } finally {
-      setSaving(false)
+      console.error('❌ Error storing checkpoint:', error)
     }
-  }, [editor, boardId])
+  }, [editor, boardId, user])
 
   // Template functions
   const handleSaveTemplate = useCallback(() => {
     setShowSaveTemplate(true)
   }, [])
 
-  const handleLoadTemplate = useCallback(async (template: Template) => {
+  const applyTemplate = useCallback(async (
+    template: Template,
+    migrated: MigrationResult,
+    mode: TemplateLoadMode,
+    values: Record<string, string> = {}
+  ) => {
     if (!editor) return
 
+    const { name } = template
+    const document = fillTemplatePlaceholders(migrated.document, values)
+    const issues = migrated.failures.map(describeMigrationFailure)
+
     try {
-      console.log('🔄 Loading template:', template.name)
+      if (mode === 'replace') {
+        await createCheckpoint(`Before loading template "${name}"`)
+
+        issues.push(...replaceBoardContent(editor, document).map(describeMigrationFailure))
+      } else {
+        const result = await insertTemplateDocument(editor, document, name)
+        issues.push(...result.failures.map(describeImportFailure))
+        console.log(`🧩 Inserted ${result.shapeCount} template shapes in ${result.frameIds.length} frame(s)`)
+      }
 
-      // Clear existing shapes first
-      const currentShapes = editor.getCurrentPageShapes()
-      if (currentShapes.length > 0) {
-        editor.deleteShapes(currentShapes.map(shape => shape.id))
+      if (issues.length > 0) {
+        console.warn(`⚠️ ${issues.length} template records could not be loaded:`, issues)
+        setLoadIssues(issues)
       }
+      console.log(`✅ Template loaded (document v${migrated.fromVersion} → v${migrated.document.version})`)
 
-      // Try to restore from complete store snapshot first (v2.0+)
-      if (template.template_data.storeSnapshot) {
-        try {
-          console.log('🔄 Restoring template from store snapshot...')
-          editor.store.loadSnapshot(template.template_data.storeSnapshot)
-          
-          // Restore camera position
-          if (template.template_data.camera) {
-            editor.setCamera(template.template_data.camera)
-          }
-          
-          console.log('✅ Template loaded from store snapshot')
-          return
-        } catch (storeError) {
-          console.warn('⚠️ Failed to restore template from store snapshot, falling back to legacy method:', storeError)
-        }
+      // Counted against this board for the template author's analytics
+      if (user) {
+        recordTemplateUsage(template, user.id, boardId)
+          .catch(error => console.error('Error recording template usage:', error))
       }
+    } catch (error) {
+      console.error('❌ Error loading template:', error)
+      alert(`Could not load the template: ${error instanceof Error ? error.message : error}`)
+    }
+  }, [editor, user, boardId, createCheckpoint])
 
-      // Fallback: restore from legacy shape data
-      if (template.template_data.shapes && template.template_data.shapes.length > 0) {
-        console.log('🔄 Restoring template from legacy shape data...')
-        editor.batch(() => {
-          template.template_data.shapes.forEach((shapeData: any, index: number) => {
-            try {
-              editor.createShape({
-                type: shapeData.type,
-                x: shapeData.x || 0,
-                y: shapeData.y || 0,
-                props: shapeData.props || {},
-                rotation: shapeData.rotation || 0
-              })
-            } catch (shapeError) {
-              console.error(`Error creating template shape ${index}:`, shapeError)
-            }
-          })
+  const handleLoadTemplate = useCallback(async (template: Template, mode: TemplateLoadMode) => {
+    if (!editor) return
+    if (mode === 'replace' && !confirm(`Replace everything on this board with "${template.name}"? A checkpoint is saved first, so you can restore it from History.`)) {
+      return
+    }
 
-          // Restore camera position if available
-          if (template.template_data.camera) {
-            editor.setCamera(template.template_data.camera)
-          }
-        })
-        console.log('✅ Template loaded from legacy shape data')
+    try {
+      console.log('🔄 Loading template:', template.name, mode)
+
+      const migrated = migrateBoardDocument(template.template_data)
+      if (!migrated) {
+        console.warn('⚠️ Template has no saved content:', template.name)
+        return
+      }
+
+      // Templates with {{placeholders}} ask for their values first, suggesting what the board and profile know
+      const placeholders = findDocumentPlaceholders(migrated.document)
+      if (placeholders.length === 0 || !user) {
+        await applyTemplate(template, migrated, mode)
+        return
       }
+
+      const context = await fetchPlaceholderContext(boardId, boardName, user)
+      setPendingTemplate({ template, migrated, mode, placeholders, defaults: automaticPlaceholderValues(context) })
     } catch (error) {
       console.error('❌ Error loading template:', error)
     }
-  }, [editor])
+  }, [editor, user, boardId, boardName, applyTemplate])
+
+  // Board opened from "My Templates": store it as the template's next version
+  const saveTemplateVersion = useCallback(async () => {
+    if (!editor || !editingTemplate) return
+    if (!confirm(`Save this board as version ${editingTemplate.version + 1} of "${editingTemplate.name}"? Earlier versions are kept.`)) return
+
+    try {
+      setSavingTemplateVersion(true)
+      const template = await saveBoardAsTemplateVersion(editor, editingTemplate.id)
+      setEditingTemplate({ id: template.id, name: template.name, version: template.version })
+      alert(`Saved version ${template.version} of "${template.name}".`)
+    } catch (error) {
+      console.error('❌ Error saving template version:', error)
+      alert(`Could not save the template: ${error instanceof Error ? error.message : error}`)
+    } finally {
+      setSavingTemplateVersion(false)
+    }
+  }, [editor, editingTemplate])
 
   const handleTemplateSuccess = useCallback(() => {
     // Refresh templates in the panel if needed
@@ -540,6 +535,7 @@ export const BoardView: React.FC<BoardViewProps> = ({ boardId, onBack }) => {
           </button>
           <div className="h-6 w-px bg-gray-300"></div>
           <h1 className="text-lg font-semibold text-gray-900">{boardName}</h1>
+          <BoardPagesMenu editor={editor} onCheckpoint={createCheckpoint} readOnly={isReadonly} />
         </div>
 
         <div className="flex items-center space-x-2">
@@ -556,13 +552,54 @@ export const BoardView: React.FC<BoardViewProps> = ({ boardId, onBack }) => {
             )}
           </div>
           
+          {isReadonly ? (
+            <span className="flex items-center space-x-1 px-3 py-1.5 text-sm bg-gray-100 text-gray-600 rounded">
+              <Eye size={14} />
+              <span>View only</span>
+            </span>
+          ) : (
+            <button
+              onClick={manualSave}
+              className="flex items-center space-x-1 px-3 py-1.5 text-sm bg-blue-50 text-blue-600 rounded hover:bg-blue-100 transition-colors"
+              disabled={saving}
+            >
+              <Save size={14} />
+              <span>Save</span>
+            </button>
+          )}
+
+          {boardRole === 'owner' && (
+            <button
+              onClick={() => setShowPublish(true)}
+              className={`flex items-center space-x-1 px-3 py-1.5 text-sm rounded transition-colors ${
+                isPublished
+                  ? 'bg-blue-50 text-blue-600 hover:bg-blue-100'
+                  : 'bg-gray-50 text-gray-600 hover:bg-gray-100'
+              }`}
+            >
+              <Globe size={14} />
+              <span>{isPublished ? 'Published' : 'Publish'}</span>
+            </button>
+          )}
+
           <button
-            onClick={manualSave}
-            className="flex items-center space-x-1 px-3 py-1.5 text-sm bg-blue-50 text-blue-600 rounded hover:bg-blue-100 transition-colors"
-            disabled={saving}
+            onClick={() => setShowShare(true)}
+            className="flex items-center space-x-1 px-3 py-1.5 text-sm bg-gray-50 text-gray-600 rounded hover:bg-gray-100 transition-colors"
           >
-            <Save size={14} />
-            <span>Save</span>
+            <Share size={14} />
+            <span>Share</span>
+          </button>
+
+          <button
+            onClick={() => setShowHistory(!showHistory)}
+            className={`flex items-center space-x-1 px-3 py-1.5 text-sm rounded transition-colors ${
+              showHistory
+                ? 'bg-blue-50 text-blue-600 hover:bg-blue-100'
+                : 'bg-gray-50 text-gray-600 hover:bg-gray-100'
+            }`}
+          >
+            <History size={14} />
+            <span>History</span>
           </button>
 
           <button
@@ -579,6 +616,48 @@ export const BoardView: React.FC<BoardViewProps> = ({ boardId, onBack }) => {
         </div>
       </header>
 
+      {/* Board opened to edit a template */}
+      {editingTemplate && !isReadonly && (
+        <div className="bg-blue-50 border-b border-blue-200 px-4 py-2 text-sm text-blue-800 z-50 flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <Layers size={14} />
+            <span>
+              Editing template <span className="font-medium">"{editingTemplate.name}"</span> (version {editingTemplate.version}).
+              The template only changes when you save a new version; its preview is taken from the current page.
+            </span>
+          </div>
+          <button
+            onClick={saveTemplateVersion}
+            disabled={savingTemplateVersion}
+            className="px-3 py-1 bg-blue-500 text-white rounded hover:bg-blue-600 transition-colors disabled:opacity-50"
+          >
+            {savingTemplateVersion ? 'Saving...' : 'Save as New Version'}
+          </button>
+        </div>
+      )}
+
+      {/* Migration report - records that could not be brought forward */}
+      {loadIssues.length > 0 && (
+        <div className="bg-amber-50 border-b border-amber-200 px-4 py-2 text-sm text-amber-800 z-50">
+          <div className="flex items-start justify-between">
+            <div>
+              <p className="font-medium">⚠️ {loadIssues.length} item{loadIssues.length === 1 ? '' : 's'} could not be loaded</p>
+              <ul className="mt-1 text-xs space-y-0.5 max-h-24 overflow-y-auto">
+                {loadIssues.map((issue, index) => (
+                  <li key={index}>• {issue}</li>
+                ))}
+              </ul>
+            </div>
+            <button
+              onClick={() => setLoadIssues([])}
+              className="text-amber-600 hover:text-amber-800 text-lg font-bold transition-colors"
+            >
+              ×
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Board Area */}
       <div 
         className="flex-1 relative"
@@ -594,19 +673,21 @@ export const BoardView: React.FC<BoardViewProps> = ({ boardId, onBack }) => {
           onAddTemplate={addMentorTemplate}
           onToggleCollaboration={toggleCollaboration}
           isCollaborating={isCollaborating}
-          onCreateNewRoom={createNewRoom}
           onShowSettings={() => setShowSettings(!showSettings)}
           onPrintBoard={() => console.log('Board data:', editor?.getCurrentPageShapes())}
           onSaveTemplate={handleSaveTemplate}
           onLoadTemplate={handleLoadTemplate}
-          roomId={roomId}
+          onImportNotes={() => setShowNoteImport(true)}
+          onBrowseMarketplace={() => setShowMarketplace(true)}
+          onManageTemplates={() => setShowTemplateManager(true)}
+          readOnly={isReadonly}
         />
 
         {/* Floating Collaboration Panel */}
         {isCollaborating && (
           <div className="absolute left-4 bottom-20 z-40">
             <CollaborationPanel 
-              roomId={roomId}
+              boardId={boardId}
               editor={editor}
             />
           </div>
@@ -618,16 +699,96 @@ export const BoardView: React.FC<BoardViewProps> = ({ boardId, onBack }) => {
             <BoardSettings 
               onClose={() => setShowSettings(false)}
               editor={editor}
+              boardId={boardId}
+              boardName={boardName}
+              onCheckpoint={createCheckpoint}
+              onImported={setLoadIssues}
+              readOnly={isReadonly}
             />
           </div>
         )}
 
         {/* Floating Mentor Chat Panel */}
         <div className="absolute bottom-4 right-4 z-[9999]">
-          <MentorChatPanel editor={editor} boardId={boardId} />
+          <MentorChatPanel editor={editor} boardId={boardId} onCheckpoint={createCheckpoint} readOnly={isReadonly} />
         </div>
+
+        {/* Version History Sidebar */}
+        {showHistory && (
+          <VersionHistoryPanel
+            editor={editor}
+            boardId={boardId}
+            onClose={() => setShowHistory(false)}
+            onRestored={setLoadIssues}
+            readOnly={isReadonly}
+            canDelete={boardRole === 'owner'}
+          />
+        )}
       </div>
 
+      {/* Board Members & Invites */}
+      {showShare && (
+        <ShareBoardModal
+          boardId={boardId}
+          boardName={boardName}
+          canManage={boardRole === 'owner'}
+          onClose={() => setShowShare(false)}
+        />
+      )}
+
+      {/* Publish to the web */}
+      {showPublish && (
+        <PublishBoardModal
+          boardId={boardId}
+          boardName={boardName}
+          isPublished={isPublished}
+          publicSlug={publicSlug}
+          onChange={(published, slug) => {
+            setIsPublished(published)
+            setPublicSlug(slug)
+          }}
+          onClose={() => setShowPublish(false)}
+        />
+      )}
+
+      {/* Sticky notes from pasted lists and CSVs */}
+      {showNoteImport && !isReadonly && (
+        <NoteImportModal
+          editor={editor}
+          onClose={() => setShowNoteImport(false)}
+        />
+      )}
+
+      {/* Public templates from other mentors */}
+      {showMarketplace && !isReadonly && (
+        <TemplateMarketplaceModal
+          onUseTemplate={handleLoadTemplate}
+          onClose={() => setShowMarketplace(false)}
+        />
+      )}
+
+      {/* Rename, share, version and delete the user's templates */}
+      {showTemplateManager && (
+        <TemplateManagerModal
+          onOpenBoard={(id) => navigate(boardPath(id))}
+          onClose={() => setShowTemplateManager(false)}
+        />
+      )}
+
+      {/* Values for a template's {{placeholders}} */}
+      {pendingTemplate && (
+        <TemplatePlaceholderModal
+          templateName={pendingTemplate.template.name}
+          placeholders={pendingTemplate.placeholders}
+          defaults={pendingTemplate.defaults}
+          onSubmit={(values) => {
+            applyTemplate(pendingTemplate.template, pendingTemplate.migrated, pendingTemplate.mode, values)
+            setPendingTemplate(null)
+          }}
+          onClose={() => setPendingTemplate(null)}
+        />
+      )}
+
       {/* Save Template Modal */}
       {showSaveTemplate && (
         <SaveTemplateModal
@@ -636,6 +797,17 @@ export const BoardView: React.FC<BoardViewProps> = ({ boardId, onBack }) => {
           onSuccess={handleTemplateSuccess}
         />
       )}
+
+      {/* The board was written elsewhere while it was open here */}
+      {hasSaveConflict && (
+        <SaveConflictModal
+          busy={resolvingConflict}
+          canResolve={!isReadonly}
+          onReload={() => isReadonly ? setSyncAttempt(attempt => attempt + 1) : resolveConflict('reload')}
+          onMerge={() => resolveConflict('merge')}
+          onSaveCopy={() => resolveConflict('copy')}
+        />
+      )}
     </div>
   )
 } 
\ No newline at end of file
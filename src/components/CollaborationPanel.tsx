@@ -1,22 +1,24 @@
 import React, { useState } from 'react'
 import { Editor } from 'tldraw'
+import { boardPath } from '../lib/routes'
 
 interface CollaborationPanelProps {
-  roomId: string
+  boardId: string
   editor: Editor | null
 }
 
 export const CollaborationPanel: React.FC<CollaborationPanelProps> = ({
-  roomId,
+  boardId,
   editor
 }) => {
   const [isExpanded, setIsExpanded] = useState(false)
-  const shareUrl = `${window.location.origin}?room=${encodeURIComponent(roomId)}`
+  // Everyone on the board edits its one live room, so the board link is the invite
+  const shareUrl = `${window.location.origin}${boardPath(boardId)}`
 
   const copyToClipboard = async () => {
     try {
       await navigator.clipboard.writeText(shareUrl)
-      alert('Room URL copied to clipboard!')
+      alert('Board URL copied to clipboard!')
     } catch (err) {
       console.error('Failed to copy: ', err)
     }
@@ -50,26 +52,6 @@ export const CollaborationPanel: React.FC<CollaborationPanelProps> = ({
       </div>
       
       <div className="space-y-3">
-        <div>
-          <label className="block text-sm font-medium text-gray-700 mb-1">
-            Room ID
-          </label>
-          <div className="flex items-center space-x-2">
-            <input
-              type="text"
-              value={roomId}
-              readOnly
-              className="flex-1 px-3 py-2 border border-gray-300 rounded text-sm bg-white text-black focus:outline-none focus:ring-2 focus:ring-gray-400"
-            />
-            <button
-              onClick={copyToClipboard}
-              className="btn-black-light px-3 py-2 rounded text-sm font-medium transition-all duration-200"
-            >
-              📋
-            </button>
-          </div>
-        </div>
-
         <div>
           <label className="block text-sm font-medium text-gray-700 mb-1">
             Share URL
@@ -93,7 +75,7 @@ export const CollaborationPanel: React.FC<CollaborationPanelProps> = ({
         <div className="pt-3 border-t border-gray-200">
           <h4 className="text-sm font-medium text-gray-800 mb-2">💡 Tips</h4>
           <ul className="text-sm text-gray-600 space-y-1">
-            <li>• Share the URL to invite others</li>
+            <li>• Share the URL with people the board is shared with</li>
             <li>• Changes sync in real-time</li>
             <li>• See live cursors and selections</li>
             <li>• Use cursor chat to communicate</li>
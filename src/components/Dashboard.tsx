@@ -1,7 +1,16 @@
-import React, { useState, useEffect } from 'react'
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react'
+import { useSearchParams } from 'react-router-dom'
 import { useAuth } from '../contexts/AuthContext'
-import { supabase, type Board } from '../lib/supabase'
-import { Plus, Calendar, Users, Settings, LogOut, Edit, Trash2, ExternalLink } from 'lucide-react'
+import { supabase, type BoardFolder, type BoardSummary } from '../lib/supabase'
+import { boardRoleLabel } from '../lib/boardMembers'
+import { fetchThumbnailUrls } from '../lib/boardThumbnails'
+import { archiveBoard, daysLeftInTrash, deleteBoardFiles, duplicateBoard, emptyTrash, purgeBoard, restoreBoard, trashBoard, TRASH_RETENTION_DAYS, unarchiveBoard } from '../lib/boardLifecycle'
+import { BOARD_SORTS, BOARDS_PAGE_SIZE, boardQueryToParams, fetchBoardStats, fetchBoardTags, isFilteringBoards, parseBoardQuery, searchBoards } from '../lib/boardSearch'
+import type { BoardQuery, BoardSort, BoardStats, DashboardBoard } from '../lib/boardSearch'
+import { createFolder, deleteFolder, fetchFolders, folderTrail, renameFolder } from '../lib/boardFolders'
+import { BOARD_IMPORT_ACCEPT, createBoardDocumentFromFile, describeImportResult } from '../lib/boardImport'
+import { BoardDetailsModal } from './BoardDetailsModal'
+import { Plus, Calendar, Users, Settings, LogOut, Edit, Trash2, ExternalLink, Image as ImageIcon, Search, Folder, FolderPlus, ChevronRight, Tag, X, Copy, Archive, ArchiveRestore, RotateCcw, Upload } from 'lucide-react'
 
 interface DashboardProps {
   onOpenBoard: (boardId: string, boardData?: any) => void
@@ -9,35 +18,108 @@ interface DashboardProps {
 
 export const Dashboard: React.FC<DashboardProps> = ({ onOpenBoard }) => {
   const { user, signOut } = useAuth()
-  const [boards, setBoards] = useState<Board[]>([])
+  const [searchParams, setSearchParams] = useSearchParams()
+  const query = useMemo(() => parseBoardQuery(searchParams), [searchParams])
+  const [boards, setBoards] = useState<DashboardBoard[]>([])
+  const [totalBoards, setTotalBoards] = useState(0)
+  const [limit, setLimit] = useState(BOARDS_PAGE_SIZE)
+  const [stats, setStats] = useState<BoardStats>({ total: 0, published: 0, recent: 0, shared: 0, archived: 0, trash: 0 })
+  const [folders, setFolders] = useState<BoardFolder[]>([])
+  const [tags, setTags] = useState<string[]>([])
+  const [searchInput, setSearchInput] = useState(query.search)
+  // Signed thumbnail URLs by board id
+  const [thumbnails, setThumbnails] = useState<Map<string, string>>(new Map())
   const [loading, setLoading] = useState(true)
+  const [searching, setSearching] = useState(false)
+  const [editingBoard, setEditingBoard] = useState<BoardSummary | null>(null)
   const [showCreateModal, setShowCreateModal] = useState(false)
   const [newBoardName, setNewBoardName] = useState('')
   const [newBoardDescription, setNewBoardDescription] = useState('')
   const [creating, setCreating] = useState(false)
+  const [importing, setImporting] = useState(false)
+  const importInputRef = useRef<HTMLInputElement>(null)
 
+  const filtering = isFilteringBoards(query)
+  const showFolders = query.tab === 'mine' && !filtering
+  const subfolders = folders.filter(folder => folder.parent_id === query.folderId)
+  const trail = folderTrail(folders, query.folderId)
+
+  const updateQuery = useCallback((changes: Partial<BoardQuery>, replace = false) => {
+    setSearchParams(boardQueryToParams({ ...query, ...changes }), { replace })
+  }, [query, setSearchParams])
+
+  // Search the URL was last given from the search box
+  const pushedSearch = useRef(query.search)
+
+  // Typing updates the URL once the user pauses
   useEffect(() => {
-    if (user) {
-      fetchBoards()
+    if (searchInput === query.search) return
+
+    const searchTimeout = setTimeout(() => {
+      pushedSearch.current = searchInput
+      updateQuery({ search: searchInput }, true)
+    }, 300)
+    return () => clearTimeout(searchTimeout)
+  }, [searchInput, query.search, updateQuery])
+
+  // Back/forward navigation changes the search in the URL
+  useEffect(() => {
+    if (query.search !== pushedSearch.current) {
+      pushedSearch.current = query.search
+      setSearchInput(query.search)
     }
-  }, [user])
+  }, [query.search])
+
+  // Start from the first page of results whenever the query changes
+  useEffect(() => {
+    setLimit(BOARDS_PAGE_SIZE)
+  }, [searchParams])
+
+  const fetchBoards = useCallback(async () => {
+    if (!user) return
 
-  const fetchBoards = async () => {
     try {
-      const { data, error } = await supabase
-        .from('boards')
-        .select('*')
-        .eq('user_id', user?.id)
-        .order('updated_at', { ascending: false })
+      setSearching(true)
+      const result = await searchBoards(user.id, query, limit)
+      setBoards(result.boards)
+      setTotalBoards(result.total)
 
-      if (error) throw error
-      setBoards(data || [])
+      // Thumbnails are nice to have - a failure here shouldn't hide the boards
+      fetchThumbnailUrls(result.boards)
+        .then(setThumbnails)
+        .catch(error => console.error('Error loading board thumbnails:', error))
     } catch (error) {
       console.error('Error fetching boards:', error)
     } finally {
+      setSearching(false)
       setLoading(false)
     }
-  }
+  }, [user, query, limit])
+
+  useEffect(() => {
+    fetchBoards()
+  }, [fetchBoards])
+
+  const fetchOverview = useCallback(async () => {
+    if (!user) return
+
+    try {
+      const [boardStats, boardFolders, boardTags] = await Promise.all([
+        fetchBoardStats(user.id),
+        fetchFolders(),
+        fetchBoardTags()
+      ])
+      setStats(boardStats)
+      setFolders(boardFolders)
+      setTags(boardTags)
+    } catch (error) {
+      console.error('Error fetching dashboard overview:', error)
+    }
+  }, [user])
+
+  useEffect(() => {
+    fetchOverview()
+  }, [fetchOverview])
 
   const createBoard = async () => {
     if (!newBoardName.trim() || !user) return
@@ -51,7 +133,9 @@ export const Dashboard: React.FC<DashboardProps> = ({ onOpenBoard }) => {
           description: newBoardDescription.trim() || null,
           user_id: user.id,
           board_data: {},
-          is_public: false
+          is_public: false,
+          // New boards go into the folder being browsed
+          folder_id: query.tab === 'mine' ? query.folderId : null
         })
         .select()
         .single()
@@ -72,21 +156,167 @@ export const Dashboard: React.FC<DashboardProps> = ({ onOpenBoard }) => {
     }
   }
 
-  const deleteBoard = async (boardId: string) => {
-    if (!confirm('Are you sure you want to delete this board? This action cannot be undone.')) {
-      return
-    }
+  // Creates a new board from a .tldr file or JSON export and opens it
+  const handleImportBoard = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file || !user) return
 
+    setImporting(true)
+    const boardId = crypto.randomUUID()
+    let created = false
     try {
-      const { error } = await supabase
+      const { document, result } = await createBoardDocumentFromFile(file, boardId)
+
+      const { data, error } = await supabase
         .from('boards')
-        .delete()
-        .eq('id', boardId)
+        .insert({
+          id: boardId,
+          name: result.name,
+          user_id: user.id,
+          board_data: document,
+          is_public: false,
+          folder_id: query.tab === 'mine' ? query.folderId : null
+        })
+        .select()
+        .single()
 
       if (error) throw error
-      setBoards(boards.filter(board => board.id !== boardId))
+      created = true
+
+      console.log(`📥 ${describeImportResult(result, 0)}`)
+      if (result.failures.length > 0) {
+        console.warn(`⚠️ ${result.failures.length} records could not be imported:`, result.failures)
+        alert(describeImportResult(result))
+      }
+      onOpenBoard(data.id, data.board_data)
+    } catch (error) {
+      console.error('Error importing board:', error)
+      // Images from the file are uploaded before the board is created; without it they'd be orphaned
+      if (!created) {
+        deleteBoardFiles(boardId)
+          .catch(cleanupError => console.error('Error removing imported files:', cleanupError))
+      }
+      alert(`Import failed: ${error instanceof Error ? error.message : 'please try again.'}`)
+    } finally {
+      setImporting(false)
+    }
+  }
+
+  // Archiving, trashing and restoring all move the board out of the list being shown
+  const changeBoardState = async (board: BoardSummary, change: (boardId: string) => Promise<void>, failureMessage: string) => {
+    try {
+      await change(board.id)
+      setBoards(current => current.filter(b => b.id !== board.id))
+      setTotalBoards(total => total - 1)
+      fetchOverview()
+    } catch (error) {
+      console.error('Error updating board:', error)
+      alert(failureMessage)
+    }
+  }
+
+  const moveBoardToTrash = (board: BoardSummary) => {
+    if (!confirm(`Move "${board.name}" to the trash? You can restore it for ${TRASH_RETENTION_DAYS} days. People it is shared with lose access meanwhile.`)) {
+      return
+    }
+    changeBoardState(board, trashBoard, 'Failed to delete the board. Please try again.')
+  }
+
+  const deleteBoardForever = (board: BoardSummary) => {
+    if (!confirm(`Delete "${board.name}" for good? Its content, chats, history and files are removed. This action cannot be undone.`)) {
+      return
+    }
+    changeBoardState(board, purgeBoard, 'Failed to delete the board. Please try again.')
+  }
+
+  const handleEmptyTrash = async () => {
+    if (!user) return
+    if (!confirm(`Delete all ${stats.trash} boards in the trash for good? Their content, chats, history and files are removed. This action cannot be undone.`)) {
+      return
+    }
+
+    try {
+      setSearching(true)
+      const purged = await emptyTrash(user.id)
+      console.log(`🗑️ Emptied the trash (${purged} boards)`)
+    } catch (error) {
+      console.error('Error emptying trash:', error)
+      alert('Some boards could not be deleted. Please try again.')
+    } finally {
+      fetchBoards()
+      fetchOverview()
+    }
+  }
+
+  const handleDuplicate = async (board: BoardSummary) => {
+    if (!user) return
+
+    try {
+      setSearching(true)
+      const copy = await duplicateBoard(board, user.id)
+      console.log('📋 Duplicated board:', copy.name)
+      fetchOverview()
+      // The copy lives in My boards, in the same folder as the original
+      if (query.tab === 'mine') {
+        fetchBoards()
+      } else {
+        updateQuery({ tab: 'mine', folderId: copy.folder_id ?? null })
+      }
+    } catch (error) {
+      console.error('Error duplicating board:', error)
+      alert('Failed to duplicate the board. Please try again.')
+      setSearching(false)
+    }
+  }
+
+  const handleBoardSaved = (saved: BoardSummary) => {
+    setEditingBoard(null)
+    // The board may have moved out of this folder or lost the tag being filtered on
+    fetchBoards()
+    fetchOverview()
+    console.log('📁 Board updated:', saved.name)
+  }
+
+  const handleCreateFolder = async () => {
+    if (!user) return
+    const name = prompt('Folder name')
+    if (!name?.trim()) return
+
+    try {
+      const folder = await createFolder(user.id, name, query.folderId)
+      setFolders(current => [...current, folder].sort((a, b) => a.name.localeCompare(b.name)))
+    } catch (error) {
+      console.error('Error creating folder:', error)
+      alert('Failed to create the folder. Please try again.')
+    }
+  }
+
+  const handleRenameFolder = async (folder: BoardFolder) => {
+    const name = prompt('Rename folder', folder.name)
+    if (!name?.trim() || name.trim() === folder.name) return
+
+    try {
+      await renameFolder(folder.id, name)
+      setFolders(current => current.map(f => f.id === folder.id ? { ...f, name: name.trim() } : f))
+    } catch (error) {
+      console.error('Error renaming folder:', error)
+      alert('Failed to rename the folder. Please try again.')
+    }
+  }
+
+  const handleDeleteFolder = async (folder: BoardFolder) => {
+    if (!confirm(`Delete the folder "${folder.name}" and its subfolders? Boards inside are moved to the top level, not deleted.`)) {
+      return
+    }
+
+    try {
+      await deleteFolder(folder.id)
+      fetchOverview()
+      fetchBoards()
     } catch (error) {
-      console.error('Error deleting board:', error)
+      console.error('Error deleting folder:', error)
+      alert('Failed to delete the folder. Please try again.')
     }
   }
 
@@ -149,7 +379,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ onOpenBoard }) => {
                 <Calendar className="text-black/70" size={24} />
               </div>
               <div>
-                <p className="text-2xl font-bold text-black">{boards.length}</p>
+                <p className="text-2xl font-bold text-black">{stats.total}</p>
                 <p className="text-black/60">Total Boards</p>
               </div>
             </div>
@@ -161,9 +391,9 @@ export const Dashboard: React.FC<DashboardProps> = ({ onOpenBoard }) => {
               </div>
               <div>
                 <p className="text-2xl font-bold text-black">
-                  {boards.filter(board => board.is_public).length}
+                  {stats.published}
                 </p>
-                <p className="text-black/60">Shared Boards</p>
+                <p className="text-black/60">Published Boards</p>
               </div>
             </div>
           </div>
@@ -174,7 +404,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ onOpenBoard }) => {
               </div>
               <div>
                 <p className="text-2xl font-bold text-black">
-                  {boards.filter(board => new Date(board.updated_at) > new Date(Date.now() - 7 * 24 * 60 * 60 * 1000)).length}
+                  {stats.recent}
                 </p>
                 <p className="text-black/60">Recent Activity</p>
               </div>
@@ -184,20 +414,243 @@ export const Dashboard: React.FC<DashboardProps> = ({ onOpenBoard }) => {
 
         {/* Boards Section */}
         <div className="bg-white/80 backdrop-blur-sm rounded-xl shadow-sm border border-black/10">
-          <div className="p-6 border-b border-black/10">
+          <div className="p-6 border-b border-black/10 space-y-4">
             <div className="flex items-center justify-between">
-              <h2 className="text-xl font-semibold text-black">Your Boards</h2>
-              <button
-                onClick={() => setShowCreateModal(true)}
-                className="flex items-center space-x-2 bg-black text-white px-4 py-2 rounded-lg hover:bg-black/80 transition-all duration-200"
+              <div className="flex items-center space-x-1 bg-black/5 rounded-lg p-1">
+                <button
+                  onClick={() => updateQuery({ tab: 'mine', folderId: null })}
+                  className={`px-4 py-1.5 rounded-md text-sm font-medium transition-colors ${
+                    query.tab === 'mine' ? 'bg-white text-black shadow-sm' : 'text-black/60 hover:text-black'
+                  }`}
+                >
+                  My boards ({stats.total})
+                </button>
+                <button
+                  onClick={() => updateQuery({ tab: 'shared', folderId: null })}
+                  className={`px-4 py-1.5 rounded-md text-sm font-medium transition-colors ${
+                    query.tab === 'shared' ? 'bg-white text-black shadow-sm' : 'text-black/60 hover:text-black'
+                  }`}
+                >
+                  Shared with me ({stats.shared})
+                </button>
+                <button
+                  onClick={() => updateQuery({ tab: 'archived', folderId: null })}
+                  className={`px-4 py-1.5 rounded-md text-sm font-medium transition-colors ${
+                    query.tab === 'archived' ? 'bg-white text-black shadow-sm' : 'text-black/60 hover:text-black'
+                  }`}
+                >
+                  Archived ({stats.archived})
+                </button>
+                <button
+                  onClick={() => updateQuery({ tab: 'trash', folderId: null })}
+                  className={`px-4 py-1.5 rounded-md text-sm font-medium transition-colors ${
+                    query.tab === 'trash' ? 'bg-white text-black shadow-sm' : 'text-black/60 hover:text-black'
+                  }`}
+                >
+                  Trash ({stats.trash})
+                </button>
+              </div>
+              <div className="flex items-center space-x-2">
+                {query.tab === 'trash' && stats.trash > 0 && (
+                  <button
+                    onClick={handleEmptyTrash}
+                    className="flex items-center space-x-2 px-4 py-2 text-red-600 border border-red-200 rounded-lg hover:bg-red-50 transition-colors"
+                  >
+                    <Trash2 size={16} />
+                    <span>Empty Trash</span>
+                  </button>
+                )}
+                {showFolders && (
+                  <button
+                    onClick={handleCreateFolder}
+                    className="flex items-center space-x-2 px-4 py-2 text-black/70 border border-black/20 rounded-lg hover:bg-black/5 transition-colors"
+                  >
+                    <FolderPlus size={16} />
+                    <span>New Folder</span>
+                  </button>
+                )}
+                <input
+                  ref={importInputRef}
+                  type="file"
+                  accept={BOARD_IMPORT_ACCEPT}
+                  onChange={handleImportBoard}
+                  className="hidden"
+                />
+                <button
+                  onClick={() => importInputRef.current?.click()}
+                  disabled={importing}
+                  title="Create a board from a .tldr file or JSON export"
+                  className="flex items-center space-x-2 px-4 py-2 text-black/70 border border-black/20 rounded-lg hover:bg-black/5 transition-colors disabled:opacity-50"
+                >
+                  <Upload size={16} />
+                  <span>{importing ? 'Importing...' : 'Import'}</span>
+                </button>
+                <button
+                  onClick={() => setShowCreateModal(true)}
+                  className="flex items-center space-x-2 bg-black text-white px-4 py-2 rounded-lg hover:bg-black/80 transition-all duration-200"
+                >
+                  <Plus size={16} />
+                  <span>New Board</span>
+                </button>
+              </div>
+            </div>
+
+            {/* Search, tag filter and sorting */}
+            <div className="flex flex-wrap items-center gap-2">
+              <div className="relative flex-1 min-w-[16rem]">
+                <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-black/40" />
+                <input
+                  type="search"
+                  value={searchInput}
+                  onChange={(e) => setSearchInput(e.target.value)}
+                  placeholder="Search names, descriptions and board content..."
+                  className="w-full pl-9 pr-3 py-2 border border-black/20 rounded-lg focus:outline-none focus:ring-2 focus:ring-black/20 bg-white/50 text-sm"
+                />
+              </div>
+              <select
+                value={query.tag ?? ''}
+                onChange={(e) => updateQuery({ tag: e.target.value || null })}
+                className="px-3 py-2 border border-black/20 rounded-lg focus:outline-none focus:ring-2 focus:ring-black/20 bg-white/50 text-sm"
               >
-                <Plus size={16} />
-                <span>New Board</span>
-              </button>
+                <option value="">All tags</option>
+                {tags.map(tag => (
+                  <option key={tag} value={tag}>#{tag}</option>
+                ))}
+              </select>
+              <select
+                value={query.sort}
+                onChange={(e) => updateQuery({ sort: e.target.value as BoardSort })}
+                className="px-3 py-2 border border-black/20 rounded-lg focus:outline-none focus:ring-2 focus:ring-black/20 bg-white/50 text-sm"
+              >
+                {BOARD_SORTS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+              {searching && (
+                <div className="w-4 h-4 border-2 border-black/20 border-t-transparent rounded-full animate-spin"></div>
+              )}
             </div>
+
+            {filtering ? (
+              <div className="flex items-center justify-between text-sm text-black/60">
+                <span>
+                  {totalBoards} board{totalBoards === 1 ? '' : 's'} found in all folders
+                  {query.tag && <> tagged <span className="font-medium text-black">#{query.tag}</span></>}
+                </span>
+                <button
+                  onClick={() => {
+                    setSearchInput('')
+                    updateQuery({ search: '', tag: null })
+                  }}
+                  className="flex items-center space-x-1 text-black/60 hover:text-black transition-colors"
+                >
+                  <X size={14} />
+                  <span>Clear filters</span>
+                </button>
+              </div>
+            ) : showFolders && (
+              <nav className="flex items-center flex-wrap text-sm text-black/60">
+                <button
+                  onClick={() => updateQuery({ folderId: null })}
+                  className={`hover:text-black transition-colors ${query.folderId ? '' : 'font-medium text-black'}`}
+                >
+                  All boards
+                </button>
+                {trail.map(folder => (
+                  <React.Fragment key={folder.id}>
+                    <ChevronRight size={14} className="mx-1 text-black/30" />
+                    <button
+                      onClick={() => updateQuery({ folderId: folder.id })}
+                      className={`hover:text-black transition-colors ${folder.id === query.folderId ? 'font-medium text-black' : ''}`}
+                    >
+                      {folder.name}
+                    </button>
+                  </React.Fragment>
+                ))}
+              </nav>
+            )}
           </div>
 
-          {boards.length === 0 ? (
+          {showFolders && subfolders.length > 0 && (
+            <div className="px-6 pt-6">
+              <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 gap-3">
+                {subfolders.map(folder => (
+                  <div
+                    key={folder.id}
+                    className="group flex items-center justify-between bg-white/60 border border-black/10 rounded-lg px-3 py-2 hover:shadow-sm transition-shadow"
+                  >
+                    <button
+                      onClick={() => updateQuery({ folderId: folder.id })}
+                      className="flex items-center space-x-2 min-w-0 flex-1 text-left"
+                    >
+                      <Folder size={16} className="text-black/50 flex-shrink-0" />
+                      <span className="text-sm text-black truncate">{folder.name}</span>
+                    </button>
+                    <div className="flex items-center opacity-0 group-hover:opacity-100 transition-opacity">
+                      <button
+                        onClick={() => handleRenameFolder(folder)}
+                        className="p-1 text-black/40 hover:text-black transition-colors"
+                        title="Rename folder"
+                      >
+                        <Edit size={12} />
+                      </button>
+                      <button
+                        onClick={() => handleDeleteFolder(folder)}
+                        className="p-1 text-black/40 hover:text-red-500 transition-colors"
+                        title="Delete folder"
+                      >
+                        <Trash2 size={12} />
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {boards.length === 0 && filtering ? (
+            <div className="p-12 text-center">
+              <div className="w-24 h-24 bg-black/10 rounded-full flex items-center justify-center mx-auto mb-4">
+                <Search className="text-black/40" size={32} />
+              </div>
+              <h3 className="text-lg font-medium text-black mb-2">No matching boards</h3>
+              <p className="text-black/60">Try other words, or clear the filters</p>
+            </div>
+          ) : boards.length === 0 && query.tab === 'shared' ? (
+            <div className="p-12 text-center">
+              <div className="w-24 h-24 bg-black/10 rounded-full flex items-center justify-center mx-auto mb-4">
+                <Users className="text-black/40" size={32} />
+              </div>
+              <h3 className="text-lg font-medium text-black mb-2">Nothing shared with you yet</h3>
+              <p className="text-black/60">Boards your mentor or mentee invites you to will show up here</p>
+            </div>
+          ) : boards.length === 0 && query.tab === 'archived' ? (
+            <div className="p-12 text-center">
+              <div className="w-24 h-24 bg-black/10 rounded-full flex items-center justify-center mx-auto mb-4">
+                <Archive className="text-black/40" size={32} />
+              </div>
+              <h3 className="text-lg font-medium text-black mb-2">No archived boards</h3>
+              <p className="text-black/60">Archive boards you are done with to keep My boards tidy</p>
+            </div>
+          ) : boards.length === 0 && query.tab === 'trash' ? (
+            <div className="p-12 text-center">
+              <div className="w-24 h-24 bg-black/10 rounded-full flex items-center justify-center mx-auto mb-4">
+                <Trash2 className="text-black/40" size={32} />
+              </div>
+              <h3 className="text-lg font-medium text-black mb-2">The trash is empty</h3>
+              <p className="text-black/60">Deleted boards stay here for {TRASH_RETENTION_DAYS} days before they are removed for good</p>
+            </div>
+          ) : boards.length === 0 && query.folderId ? (
+            subfolders.length === 0 && (
+              <div className="p-12 text-center">
+                <div className="w-24 h-24 bg-black/10 rounded-full flex items-center justify-center mx-auto mb-4">
+                  <Folder className="text-black/40" size={32} />
+                </div>
+                <h3 className="text-lg font-medium text-black mb-2">This folder is empty</h3>
+                <p className="text-black/60">Create a board here, or move boards in from their details</p>
+              </div>
+            )
+          ) : boards.length === 0 && subfolders.length === 0 ? (
             <div className="p-12 text-center">
               <div className="w-24 h-24 bg-black/10 rounded-full flex items-center justify-center mx-auto mb-4">
                 <Calendar className="text-black/40" size={32} />
@@ -211,53 +664,175 @@ export const Dashboard: React.FC<DashboardProps> = ({ onOpenBoard }) => {
                 Create Your First Board
               </button>
             </div>
-          ) : (
+          ) : boards.length > 0 && (
             <div className="p-6">
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-                {boards.map((board) => (
+                {boards.map(board => (
                   <div
                     key={board.id}
                     className="bg-white/60 backdrop-blur-sm rounded-lg p-4 hover:shadow-md transition-shadow border border-black/10"
                   >
+                    {/* Boards in the trash have no room to open until they are restored */}
+                    <button
+                      onClick={() => onOpenBoard(board.id)}
+                      disabled={query.tab === 'trash'}
+                      className="block w-full h-36 mb-3 rounded overflow-hidden bg-white border border-black/10 disabled:cursor-default"
+                      title={query.tab === 'trash' ? 'Restore the board to open it' : `Open ${board.name}`}
+                    >
+                      {thumbnails.get(board.id) ? (
+                        <img
+                          src={thumbnails.get(board.id)}
+                          alt={`Preview of ${board.name}`}
+                          className="w-full h-full object-cover"
+                          loading="lazy"
+                        />
+                      ) : (
+                        <div className="w-full h-full flex items-center justify-center text-black/20">
+                          <ImageIcon size={32} />
+                        </div>
+                      )}
+                    </button>
+
                     <div className="flex items-start justify-between mb-3">
                       <h3 className="font-medium text-black truncate flex-1">{board.name}</h3>
                       <div className="flex items-center space-x-1 ml-2">
-                        <button
-                          onClick={() => deleteBoard(board.id)}
-                          className="p-1 text-black/40 hover:text-red-500 transition-colors"
-                          title="Delete board"
-                        >
-                          <Trash2 size={14} />
-                        </button>
+                        {board.role && (
+                          <span className="bg-black/10 text-black/70 text-xs px-2 py-1 rounded">{boardRoleLabel(board.role)}</span>
+                        )}
+                        {query.tab === 'mine' && (
+                          <button
+                            onClick={() => setEditingBoard(board)}
+                            className="p-1 text-black/40 hover:text-black transition-colors"
+                            title="Edit details, tags and folder"
+                          >
+                            <Edit size={14} />
+                          </button>
+                        )}
+                        {query.tab !== 'trash' && (
+                          <button
+                            onClick={() => handleDuplicate(board)}
+                            className="p-1 text-black/40 hover:text-black transition-colors"
+                            title="Duplicate board"
+                          >
+                            <Copy size={14} />
+                          </button>
+                        )}
+                        {query.tab === 'mine' && (
+                          <button
+                            onClick={() => changeBoardState(board, archiveBoard, 'Failed to archive the board. Please try again.')}
+                            className="p-1 text-black/40 hover:text-black transition-colors"
+                            title="Archive board"
+                          >
+                            <Archive size={14} />
+                          </button>
+                        )}
+                        {query.tab === 'archived' && (
+                          <button
+                            onClick={() => changeBoardState(board, unarchiveBoard, 'Failed to unarchive the board. Please try again.')}
+                            className="p-1 text-black/40 hover:text-black transition-colors"
+                            title="Move back to My boards"
+                          >
+                            <ArchiveRestore size={14} />
+                          </button>
+                        )}
+                        {(query.tab === 'mine' || query.tab === 'archived') && (
+                          <button
+                            onClick={() => moveBoardToTrash(board)}
+                            className="p-1 text-black/40 hover:text-red-500 transition-colors"
+                            title="Move to trash"
+                          >
+                            <Trash2 size={14} />
+                          </button>
+                        )}
+                        {query.tab === 'trash' && (
+                          <button
+                            onClick={() => deleteBoardForever(board)}
+                            className="p-1 text-black/40 hover:text-red-500 transition-colors"
+                            title="Delete forever"
+                          >
+                            <Trash2 size={14} />
+                          </button>
+                        )}
                       </div>
                     </div>
                     
                     {board.description && (
                       <p className="text-sm text-black/60 mb-3 line-clamp-2">{board.description}</p>
                     )}
+
+                    {board.tags?.length > 0 && (
+                      <div className="flex flex-wrap gap-1 mb-3">
+                        {board.tags.map(tag => (
+                          <button
+                            key={tag}
+                            onClick={() => updateQuery({ tag })}
+                            className="flex items-center space-x-1 bg-black/5 text-black/60 text-xs px-2 py-0.5 rounded hover:bg-black/10 transition-colors"
+                          >
+                            <Tag size={10} />
+                            <span>{tag}</span>
+                          </button>
+                        ))}
+                      </div>
+                    )}
                     
                     <div className="flex items-center justify-between text-xs text-black/50 mb-3">
-                      <span>Updated {formatDate(board.updated_at)}</span>
-                      {board.is_public && (
-                        <span className="bg-black/10 text-black/70 px-2 py-1 rounded">Public</span>
+                      {board.deleted_at ? (
+                        <span>Deleted {formatDate(board.deleted_at)} · {daysLeftInTrash(board)} days left</span>
+                      ) : (
+                        <span>Updated {formatDate(board.updated_at)}</span>
+                      )}
+                      {board.is_public && !board.deleted_at && (
+                        <span className="bg-black/10 text-black/70 px-2 py-1 rounded">Published</span>
                       )}
                     </div>
                     
-                    <button
-                      onClick={() => onOpenBoard(board.id, board.board_data)}
-                      className="w-full flex items-center justify-center space-x-2 bg-black/10 border border-black/20 text-black/70 px-3 py-2 rounded hover:bg-black/20 transition-colors"
-                    >
-                      <ExternalLink size={14} />
-                      <span>Open Board</span>
-                    </button>
+                    {query.tab === 'trash' ? (
+                      <button
+                        onClick={() => changeBoardState(board, restoreBoard, 'Failed to restore the board. Please try again.')}
+                        className="w-full flex items-center justify-center space-x-2 bg-black/10 border border-black/20 text-black/70 px-3 py-2 rounded hover:bg-black/20 transition-colors"
+                      >
+                        <RotateCcw size={14} />
+                        <span>Restore</span>
+                      </button>
+                    ) : (
+                      <button
+                        onClick={() => onOpenBoard(board.id)}
+                        className="w-full flex items-center justify-center space-x-2 bg-black/10 border border-black/20 text-black/70 px-3 py-2 rounded hover:bg-black/20 transition-colors"
+                      >
+                        <ExternalLink size={14} />
+                        <span>Open Board</span>
+                      </button>
+                    )}
                   </div>
                 ))}
               </div>
+
+              {boards.length < totalBoards && (
+                <div className="mt-6 text-center">
+                  <button
+                    onClick={() => setLimit(current => current + BOARDS_PAGE_SIZE)}
+                    disabled={searching}
+                    className="px-6 py-2 text-sm text-black/70 border border-black/20 rounded-lg hover:bg-black/5 transition-colors disabled:opacity-50"
+                  >
+                    {searching ? 'Loading...' : `Show more (${totalBoards - boards.length} left)`}
+                  </button>
+                </div>
+              )}
             </div>
           )}
         </div>
       </main>
 
+      {/* Board Details Modal */}
+      {editingBoard && (
+        <BoardDetailsModal
+          board={editingBoard}
+          folders={folders}
+          onSaved={handleBoardSaved}
+          onClose={() => setEditingBoard(null)}
+        />
+      )}
+
       {/* Create Board Modal */}
       {showCreateModal && (
         <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50">
@@ -1,8 +1,10 @@
 import React, { useState, useRef, useEffect } from 'react'
 import { Editor, toRichText } from 'tldraw'
+import type { TLShape } from 'tldraw'
 import { supabase } from '../lib/supabase'
 import { useAuth } from '../contexts/AuthContext'
 import type { BoardChat, BoardImage } from '../lib/supabase'
+import { findOrCreatePage, getPageShapes } from '../lib/boardPages'
 
 interface Message {
   id: string
@@ -14,6 +16,10 @@ interface Message {
 interface MentorChatPanelProps {
   editor: Editor | null
   boardId: string
+  // Stores a version history checkpoint before the AI replaces the board
+  onCheckpoint?: (name: string) => Promise<void>
+  // Viewers can chat, but the AI can't change the board
+  readOnly?: boolean
 }
 
 // Component to format chat messages with better styling
@@ -84,7 +90,7 @@ const FormattedMessage: React.FC<{ content: string }> = ({ content }) => {
   return <div className="space-y-1">{formatMessage(content)}</div>
 }
 
-export const MentorChatPanel: React.FC<MentorChatPanelProps> = ({ editor, boardId }) => {
+export const MentorChatPanel: React.FC<MentorChatPanelProps> = ({ editor, boardId, onCheckpoint, readOnly = false }) => {
   const { user } = useAuth()
   const [isExpanded, setIsExpanded] = useState(false)
   const [activeMode, setActiveMode] = useState<'chat' | 'script'>('chat')
@@ -156,7 +162,8 @@ export const MentorChatPanel: React.FC<MentorChatPanelProps> = ({ editor, boardI
   }
 
   const saveChatMessage = async (message: Message) => {
-    if (!user || !boardId || message.id === 'welcome') return
+    // Viewers' conversations aren't kept with the board
+    if (!user || !boardId || message.id === 'welcome' || readOnly) return
 
     try {
       const { error } = await supabase
@@ -320,6 +327,8 @@ export const MentorChatPanel: React.FC<MentorChatPanelProps> = ({ editor, boardI
     try {
       const shapes = editor.getCurrentPageShapes()
       const boardData = {
+        pageName: editor.getCurrentPage().name,
+        pageCount: editor.getPages().length,
         shapeCount: shapes.length,
         shapeTypes: shapes.map(shape => shape.type),
         hasContent: shapes.length > 0,
@@ -332,10 +341,24 @@ export const MentorChatPanel: React.FC<MentorChatPanelProps> = ({ editor, boardI
     }
   }
 
-  const createBoardShape = async (shapes: any[]) => {
+  // Switches to the page an AI response targets, adding it if it doesn't exist yet.
+  // Without a page name the current page is used.
+  const goToTargetPage = (pageName?: unknown) => {
+    if (!editor) return null
+    if (typeof pageName === 'string' && pageName.trim()) {
+      const page = findOrCreatePage(editor, pageName)
+      if (page.id !== editor.getCurrentPageId()) {
+        editor.setCurrentPage(page.id)
+      }
+    }
+    return editor.getCurrentPage()
+  }
+
+  const createBoardShape = async (shapes: any[], pageName?: string) => {
     if (!editor || !shapes || shapes.length === 0) return
 
     try {
+      goToTargetPage(pageName)
       editor.batch(() => {
         const bounds = editor.getViewportPageBounds()
         const centerX = bounds.x + bounds.width / 2
@@ -441,9 +464,12 @@ export const MentorChatPanel: React.FC<MentorChatPanelProps> = ({ editor, boardI
     console.log('🔄 Updating entire board with data:', boardData)
     console.log('📝 Shapes to create:', boardData.board.shapes)
 
+    const page = goToTargetPage(boardData.board.page)
+    console.log(`📄 Target page: ${page?.name}`)
+
     try {
       editor.batch(() => {
-        // First, clear all existing shapes
+        // First, clear all existing shapes on the target page
         const currentShapes = editor.getCurrentPageShapes()
         console.log(`🗑️ Clearing ${currentShapes.length} existing shapes`)
         if (currentShapes.length > 0) {
@@ -565,6 +591,8 @@ export const MentorChatPanel: React.FC<MentorChatPanelProps> = ({ editor, boardI
       console.error('❌ Error updating board:', error)
       throw error // Re-throw to handle in calling function
     }
+
+    return page?.name
   }
 
   const processScript = async () => {
@@ -601,6 +629,7 @@ export const MentorChatPanel: React.FC<MentorChatPanelProps> = ({ editor, boardI
       ────────────────────────
       CANVAS SNAPSHOT
       ────────────────────────
+      • Page:             ${boardContext?.pageName ?? 'Page 1'} (${boardContext?.pageCount ?? 1} page${boardContext?.pageCount === 1 ? '' : 's'} on the board)
       • Existing shapes:  ${boardContext?.shapeCount ?? 0}
       • Types on canvas:  ${boardContext?.shapeTypes?.join(', ') || 'none'}
       • Uploaded images: ${uploadedImageUrls.length} (URLs available for placement)
@@ -779,34 +808,47 @@ export const MentorChatPanel: React.FC<MentorChatPanelProps> = ({ editor, boardI
     try {
       const boardContext = getBoardContext()
       
-      // Get detailed board context
+      // Get detailed board context, page by page
+      const summarizeShape = (shape: TLShape) => ({
+        id: shape.id,
+        type: shape.type,
+        x: Math.round(shape.x),
+        y: Math.round(shape.y),
+        // Extract text content from shape props
+        content: (() => {
+          try {
+            if (shape.type === 'text' && (shape.props as any).richText) {
+              return (shape.props as any).richText.text || 'Text shape'
+            }
+            if (shape.type === 'note' && (shape.props as any).richText) {
+              return (shape.props as any).richText.text || 'Note shape'
+            }
+            if (shape.type === 'geo' && (shape.props as any).richText) {
+              return (shape.props as any).richText.text || `${(shape.props as any).geo || 'shape'}`
+            }
+            return `${shape.type} shape`
+          } catch {
+            return `${shape.type} shape`
+          }
+        })(),
+        props: shape.props
+      })
+
+      const currentPage = editor?.getCurrentPage()
       const currentShapes = editor?.getCurrentPageShapes() || []
+      const boardPages = editor ? editor.getPages().map(page => {
+        const pageShapes = getPageShapes(editor, page.id)
+        return {
+          name: page.name,
+          isCurrentPage: page.id === currentPage?.id,
+          shapeCount: pageShapes.length,
+          shapes: pageShapes.map(summarizeShape)
+        }
+      }) : []
       const boardSummary = {
-        shapeCount: currentShapes.length,
-        shapes: currentShapes.map(shape => ({
-          id: shape.id,
-          type: shape.type,
-          x: Math.round(shape.x),
-          y: Math.round(shape.y),
-          // Extract text content from shape props
-          content: (() => {
-            try {
-              if (shape.type === 'text' && (shape.props as any).richText) {
-                return (shape.props as any).richText.text || 'Text shape'
-              }
-              if (shape.type === 'note' && (shape.props as any).richText) {
-                return (shape.props as any).richText.text || 'Note shape'
-              }
-              if (shape.type === 'geo' && (shape.props as any).richText) {
-                return (shape.props as any).richText.text || `${(shape.props as any).geo || 'shape'}`
-              }
-              return `${shape.type} shape`
-            } catch {
-              return `${shape.type} shape`
-            }
-          })(),
-          props: shape.props
-        })),
+        currentPage: currentPage?.name,
+        pageCount: boardPages.length,
+        pages: boardPages,
         viewport: editor ? {
           camera: editor.getCamera(),
           bounds: editor.getViewportPageBounds()
@@ -819,7 +861,9 @@ CURRENT BOARD STATE:
 ${JSON.stringify(boardSummary, null, 2)}
 
 BOARD ANALYSIS:
-- Total shapes: ${boardSummary.shapeCount}
+- Pages: ${boardPages.map(page => `"${page.name}" (${page.shapeCount} shapes)`).join(', ') || 'none'}
+- Current page: "${currentPage?.name ?? 'Page 1'}"
+- Shapes on the current page: ${currentShapes.length}
 - Shape types present: ${[...new Set(currentShapes.map(s => s.type))].join(', ') || 'none'}
 - Content summary: ${currentShapes.length > 0 ? currentShapes.map(s => {
   try {
@@ -833,7 +877,13 @@ BOARD ANALYSIS:
 }).slice(0, 5).join(', ') : 'empty board'}
 
 BOARD MANAGEMENT CAPABILITY:
-When users ask you to create, add, generate, draw, update, modify, or change content on the board, you MUST respond with a JSON object containing the COMPLETE board state. You should return ALL shapes that should exist on the board (both existing and new ones).
+When users ask you to create, add, generate, draw, update, modify, or change content on the board, you MUST respond with a JSON object containing the COMPLETE state of ONE page. You should return ALL shapes that should exist on that page (both existing and new ones).
+
+**PAGES:** The board can have several pages. Each update targets exactly one page, named in "board.page":
+- Use the current page ("${currentPage?.name ?? 'Page 1'}") unless the user refers to another page
+- To change another page, use its exact name from the list above
+- To put content on a new page, use a new page name - the page is created for you
+- Shapes on other pages are never changed
 
 **DETECTION KEYWORDS:** create, add, generate, draw, make, build, put on board, add to board, show on board, update, modify, change, edit, replace
 
@@ -842,6 +892,7 @@ When users ask you to create, add, generate, draw, update, modify, or change con
 {
   "action": "update_board",
   "board": {
+    "page": "Name of the page to update",
     "shapes": [
       {
         "type": "text|note|rectangle|geo|arrow",
@@ -862,12 +913,12 @@ When users ask you to create, add, generate, draw, update, modify, or change con
 \`\`\`
 
 **IMPORTANT INSTRUCTIONS:** ONLY RETURN THE JSON OBJECT, NO OTHER TEXT.
-1. ALWAYS return the COMPLETE board state with ALL shapes (existing + new + modified)
-2. If user wants to ADD something, include all existing shapes PLUS the new ones
-3. If user wants to MODIFY something, include all shapes with the modifications applied
-4. If user wants to DELETE something, include all shapes EXCEPT the deleted ones
+1. ALWAYS return the COMPLETE state of the target page with ALL its shapes (existing + new + modified)
+2. If user wants to ADD something, include all existing shapes of that page PLUS the new ones
+3. If user wants to MODIFY something, include all shapes of that page with the modifications applied
+4. If user wants to DELETE something, include all shapes of that page EXCEPT the deleted ones
 5. Maintain the positioning and properties of existing shapes unless specifically asked to change them
-6. Use the current board state as your starting point and apply the requested changes
+6. Use the target page's current state as your starting point and apply the requested changes
 
 **AVAILABLE SHAPE TYPES:**
 1. **text** - Simple text labels, titles, notes
@@ -913,12 +964,13 @@ If you follow the coordinate rules above, shapes will be perfectly aligned. Alte
 
 **EXAMPLE REQUESTS & RESPONSES:**
 
-User: "Create a SWOT analysis on the board" (when board is empty)
+User: "Create a SWOT analysis on the board" (when the current page "Page 1" is empty)
 Response:
 \`\`\`json
 {
   "action": "update_board",
   "board": {
+    "page": "Page 1",
     "shapes": [
       {"type": "text", "content": "SWOT Analysis", "x": -400, "y": -1150, "size": "xl", "color": "black"},
       {"type": "rectangle", "content": "Strengths", "x": -600, "y": -600, "width": 350, "height": 180, "color": "green", "fill": "semi"},
@@ -931,12 +983,13 @@ Response:
 }
 \`\`\`
 
-User: "Add some action items as sticky notes" (when SWOT already exists)
+User: "Add some action items as sticky notes" (when SWOT already exists on "Page 1")
 Response:
 \`\`\`json
 {
   "action": "update_board",
   "board": {
+    "page": "Page 1",
     "shapes": [
       {"type": "text", "content": "SWOT Analysis", "x": -400, "y": -1150, "size": "xl", "color": "black"},
       {"type": "rectangle", "content": "Strengths", "x": -600, "y": -600, "width": 350, "height": 180, "color": "green", "fill": "semi"},
@@ -1016,12 +1069,17 @@ IMPORTANT:
           
           console.log('🎯 Detected JSON board update:', boardData)
           
-          if (boardData.action === 'update_board' && boardData.board?.shapes) {
+          if (readOnly && (boardData.action === 'update_board' || boardData.action === 'create_shapes')) {
+            isJsonResponse = true
+            displayContent = `🔒 This board is view-only, so the suggested changes were not applied. ${boardData.explanation || ''}`.trim()
+
+          } else if (boardData.action === 'update_board' && boardData.board?.shapes) {
             // Update the entire board with the new state
             isJsonResponse = true
             try {
-              await updateEntireBoard(boardData)
-              displayContent = `✅ Updated the entire board! ${boardData.explanation || 'Board has been refreshed with new content.'}`
+              await onCheckpoint?.('Before AI board update')
+              const pageName = await updateEntireBoard(boardData)
+              displayContent = `✅ Updated the "${pageName}" page! ${boardData.explanation || 'The page has been refreshed with new content.'}`
             } catch (boardError) {
               console.error('❌ Failed to update board:', boardError)
               displayContent = `❌ Failed to update board: ${boardError instanceof Error ? boardError.message : 'Unknown error'}`
@@ -1031,7 +1089,7 @@ IMPORTANT:
             // Legacy support for old format - just add shapes
             isJsonResponse = true
             try {
-              await createBoardShape(boardData.shapes)
+              await createBoardShape(boardData.shapes, boardData.page)
               displayContent = `✅ Created content on the board! ${boardData.explanation || 'Shapes have been added to your board.'}`
             } catch (boardError) {
               console.error('❌ Failed to create shapes:', boardError)
@@ -1123,16 +1181,18 @@ IMPORTANT:
         >
           💬 Chat
         </button>
-        <button
-          onClick={() => setActiveMode('script')}
-          className={`flex-1 px-4 py-2 text-sm font-medium transition-colors ${
-            activeMode === 'script'
-              ? 'bg-purple-50 text-purple-600 border-b-2 border-purple-600'
-              : 'text-gray-600 hover:text-gray-800'
-          }`}
-        >
-          📝 Script Mode
-        </button>
+        {!readOnly && (
+          <button
+            onClick={() => setActiveMode('script')}
+            className={`flex-1 px-4 py-2 text-sm font-medium transition-colors ${
+              activeMode === 'script'
+                ? 'bg-purple-50 text-purple-600 border-b-2 border-purple-600'
+                : 'text-gray-600 hover:text-gray-800'
+            }`}
+          >
+            📝 Script Mode
+          </button>
+        )}
       </div>
 
             {/* Content Area */}
@@ -1,4 +1,5 @@
 import React from 'react'
+import { BUILTIN_TEMPLATES, TEMPLATE_ACCENT_CLASSES } from '../lib/builtinTemplates'
 
 interface MentorToolbarProps {
   isCollaborating: boolean
@@ -32,27 +33,17 @@ export const MentorToolbar: React.FC<MentorToolbarProps> = ({
       <div className="space-y-2">
         <h3 className="text-sm font-semibold text-gray-700">Templates</h3>
         <div className="grid grid-cols-1 gap-2">
-          <button
-            onClick={() => onAddTemplate('1on1')}
-            className="flex items-center space-x-2 px-3 py-2 bg-blue-50 hover:bg-blue-100 text-blue-700 rounded-lg text-sm font-medium transition-colors"
-          >
-            <span>📅</span>
-            <span>1-on-1 Meeting</span>
-          </button>
-          <button
-            onClick={() => onAddTemplate('feedback')}
-            className="flex items-center space-x-2 px-3 py-2 bg-purple-50 hover:bg-purple-100 text-purple-700 rounded-lg text-sm font-medium transition-colors"
-          >
-            <span>💬</span>
-            <span>Feedback Session</span>
-          </button>
-          <button
-            onClick={() => onAddTemplate('planning')}
-            className="flex items-center space-x-2 px-3 py-2 bg-green-50 hover:bg-green-100 text-green-700 rounded-lg text-sm font-medium transition-colors"
-          >
-            <span>📋</span>
-            <span>Planning Board</span>
-          </button>
+          {BUILTIN_TEMPLATES.map(template => (
+            <button
+              key={template.id}
+              onClick={() => onAddTemplate(template.id)}
+              className={`flex items-center space-x-2 px-3 py-2 ${TEMPLATE_ACCENT_CLASSES[template.accent]} rounded-lg text-sm font-medium transition-colors`}
+              title={template.description}
+            >
+              <span>{template.icon}</span>
+              <span>{template.name}</span>
+            </button>
+          ))}
         </div>
       </div>
 
@@ -0,0 +1,194 @@
+import React, { useMemo, useRef, useState } from 'react'
+import { X, ClipboardPaste, Upload, StickyNote } from 'lucide-react'
+import type { Editor, TLDefaultColorStyle } from 'tldraw'
+import { createNoteGrid, NOTE_COLORS, NOTE_IMPORT_ACCEPT, parseNoteText, suggestGroupColumn } from '../lib/noteImport'
+
+interface NoteImportModalProps {
+  editor: Editor | null
+  onClose: () => void
+}
+
+const FORMAT_LABELS = {
+  list: 'one note per line',
+  markdown: 'Markdown bullets',
+  csv: 'CSV'
+}
+
+const PLACEHOLDER = `Paste a list, Markdown bullets or a CSV, e.g.
+
+text,color,column
+Shipped the new onboarding,green,Went well
+Too many meetings,red,To improve`
+
+const MAX_WARNINGS_SHOWN = 3
+
+export const NoteImportModal: React.FC<NoteImportModalProps> = ({
+  editor,
+  onClose
+}) => {
+  const [text, setText] = useState('')
+  const [groupBy, setGroupBy] = useState<string | null>(null)
+  const [defaultColor, setDefaultColor] = useState<TLDefaultColorStyle>('yellow')
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const parsed = useMemo(() => parseNoteText(text), [text])
+
+  // Keeps the chosen grouping while it still applies, otherwise suggests one
+  const updateText = (value: string) => {
+    const next = parseNoteText(value)
+    setText(value)
+    setGroupBy(current => (current !== null && next.groupColumns.includes(current) ? current : suggestGroupColumn(next)))
+  }
+
+  const handlePasteFromClipboard = async () => {
+    try {
+      updateText(await navigator.clipboard.readText())
+    } catch (error) {
+      console.error('Error reading the clipboard:', error)
+      alert('Could not read the clipboard. Paste into the text box instead.')
+    }
+  }
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+
+    try {
+      updateText(await file.text())
+    } catch (error) {
+      console.error('Error reading note file:', error)
+      alert(`Could not read ${file.name}.`)
+    }
+  }
+
+  const handleImport = () => {
+    if (!editor || parsed.notes.length === 0) return
+
+    try {
+      createNoteGrid(editor, parsed.notes, { groupBy, defaultColor })
+      console.log(`🗒️ Imported ${parsed.notes.length} sticky notes${groupBy ? ` grouped by ${groupBy}` : ''}`)
+      onClose()
+    } catch (error) {
+      console.error('Error importing sticky notes:', error)
+      alert('Failed to add the sticky notes. Please try again.')
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-lg mx-4">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">Import Sticky Notes</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <div className="flex space-x-2">
+            <button
+              onClick={handlePasteFromClipboard}
+              className="flex-1 flex items-center justify-center space-x-2 px-3 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg text-sm font-medium transition-colors"
+            >
+              <ClipboardPaste size={16} />
+              <span>Paste from Clipboard</span>
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={NOTE_IMPORT_ACCEPT}
+              onChange={handleFile}
+              className="hidden"
+            />
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="flex-1 flex items-center justify-center space-x-2 px-3 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg text-sm font-medium transition-colors"
+            >
+              <Upload size={16} />
+              <span>Open File</span>
+            </button>
+          </div>
+
+          <textarea
+            value={text}
+            onChange={(e) => updateText(e.target.value)}
+            placeholder={PLACEHOLDER}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 h-48 resize-none font-mono text-xs"
+          />
+
+          {text.trim() && (
+            <div className="text-sm text-gray-600">
+              <p>
+                {parsed.notes.length} note{parsed.notes.length === 1 ? '' : 's'} from {FORMAT_LABELS[parsed.format]}
+              </p>
+              {parsed.warnings.length > 0 && (
+                <ul className="mt-1 text-xs text-amber-700 space-y-0.5">
+                  {parsed.warnings.slice(0, MAX_WARNINGS_SHOWN).map((warning, index) => (
+                    <li key={index}>• {warning}</li>
+                  ))}
+                  {parsed.warnings.length > MAX_WARNINGS_SHOWN && (
+                    <li>…and {parsed.warnings.length - MAX_WARNINGS_SHOWN} more</li>
+                  )}
+                </ul>
+              )}
+            </div>
+          )}
+
+          <div className="flex space-x-2">
+            <div className="flex-1">
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Group into frames by
+              </label>
+              <select
+                value={groupBy ?? ''}
+                onChange={(e) => setGroupBy(e.target.value || null)}
+                disabled={parsed.groupColumns.length === 0}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:opacity-50"
+              >
+                <option value="">No frames</option>
+                {parsed.groupColumns.map(column => (
+                  <option key={column} value={column}>{column}</option>
+                ))}
+              </select>
+            </div>
+            <div className="flex-1">
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Default color
+              </label>
+              <select
+                value={defaultColor}
+                onChange={(e) => setDefaultColor(e.target.value as TLDefaultColorStyle)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                {NOTE_COLORS.map(color => (
+                  <option key={color} value={color}>{color.replace('-', ' ')}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-end space-x-3 p-6 border-t border-gray-200">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 hover:text-gray-900 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleImport}
+            disabled={!editor || parsed.notes.length === 0}
+            className="flex items-center space-x-2 px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            <StickyNote size={16} />
+            <span>Add {parsed.notes.length || ''} Note{parsed.notes.length === 1 ? '' : 's'}</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
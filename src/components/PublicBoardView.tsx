@@ -0,0 +1,109 @@
+import React, { useState, useEffect, useCallback } from 'react'
+import { Tldraw, Editor } from 'tldraw'
+import 'tldraw/tldraw.css'
+import { Link } from 'react-router-dom'
+import { describeMigrationFailure, loadBoardDocument } from '../lib/boardDocument'
+import type { BoardDocument } from '../lib/boardDocument'
+import { fetchPublishedBoard } from '../lib/publishing'
+import { DASHBOARD_PATH } from '../lib/routes'
+import { Eye } from 'lucide-react'
+
+interface PublicBoardViewProps {
+  slug: string
+}
+
+// A published board, rendered read-only for anyone - no sign-in, no sync
+export const PublicBoardView: React.FC<PublicBoardViewProps> = ({ slug }) => {
+  const [boardName, setBoardName] = useState('')
+  const [document, setDocument] = useState<BoardDocument | null>(null)
+  const [status, setStatus] = useState<'loading' | 'ready' | 'not-found'>('loading')
+
+  useEffect(() => {
+    const loadPublishedBoard = async () => {
+      try {
+        // Only boards that are currently published come back
+        const published = await fetchPublishedBoard(slug)
+        if (!published) {
+          setStatus('not-found')
+          return
+        }
+
+        setBoardName(published.name)
+        setDocument(published.document)
+        setStatus('ready')
+      } catch (error) {
+        console.error('Error loading published board:', error)
+        setStatus('not-found')
+      }
+    }
+
+    loadPublishedBoard()
+  }, [slug])
+
+  const handleMount = useCallback((editor: Editor) => {
+    if (document) {
+      const failures = loadBoardDocument(editor, document)
+      if (failures.length > 0) {
+        console.warn(`⚠️ ${failures.length} records could not be loaded:`, failures.map(describeMigrationFailure))
+      }
+    }
+    editor.updateInstanceState({ isReadonly: true })
+    editor.zoomToFit()
+  }, [document])
+
+  if (status === 'loading') {
+    return (
+      <div className="h-screen w-screen bg-black/5 flex items-center justify-center">
+        <div className="text-center">
+          <div className="w-8 h-8 border-4 border-black/20 border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
+          <p className="text-black/60">Loading board...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (status === 'not-found') {
+    return (
+      <div className="h-screen w-screen bg-black/5 flex items-center justify-center">
+        <div className="text-center">
+          <h1 className="text-lg font-medium text-black mb-2">This board isn't available</h1>
+          <p className="text-black/60 mb-6">The link may be wrong, or the board is no longer published.</p>
+          <Link
+            to={DASHBOARD_PATH}
+            className="bg-black text-white px-6 py-3 rounded-lg hover:bg-black/80 transition-all duration-200"
+          >
+            Go to The Mentor Board
+          </Link>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="h-screen w-screen flex flex-col">
+      <header className="bg-white/90 backdrop-blur-sm border-b border-gray-200 shadow-sm px-4 py-3 flex items-center justify-between z-50">
+        <div className="flex items-center space-x-4">
+          <span className="text-lg">🎯</span>
+          <div className="h-6 w-px bg-gray-300"></div>
+          <h1 className="text-lg font-semibold text-gray-900">{boardName}</h1>
+        </div>
+        <div className="flex items-center space-x-2">
+          <span className="flex items-center space-x-1 px-3 py-1.5 text-sm bg-gray-100 text-gray-600 rounded">
+            <Eye size={14} />
+            <span>Published board - view only</span>
+          </span>
+          <Link
+            to={DASHBOARD_PATH}
+            className="px-3 py-1.5 text-sm bg-black text-white rounded hover:bg-black/80 transition-colors"
+          >
+            Open The Mentor Board
+          </Link>
+        </div>
+      </header>
+
+      <div className="flex-1 relative">
+        <Tldraw onMount={handleMount} />
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,138 @@
+import React, { useState } from 'react'
+import { X, Globe, Lock, Copy, Check, ExternalLink } from 'lucide-react'
+import { setBoardPublished } from '../lib/publishing'
+import { publicBoardPath } from '../lib/routes'
+
+interface PublishBoardModalProps {
+  boardId: string
+  boardName: string
+  isPublished: boolean
+  publicSlug: string | null
+  onChange: (isPublished: boolean, publicSlug: string) => void
+  onClose: () => void
+}
+
+export const PublishBoardModal: React.FC<PublishBoardModalProps> = ({
+  boardId,
+  boardName,
+  isPublished,
+  publicSlug,
+  onChange,
+  onClose
+}) => {
+  const [updating, setUpdating] = useState(false)
+  const [copied, setCopied] = useState(false)
+
+  const publicUrl = publicSlug ? `${window.location.origin}${publicBoardPath(publicSlug)}` : null
+
+  const togglePublished = async () => {
+    try {
+      setUpdating(true)
+      const result = await setBoardPublished(boardId, !isPublished, publicSlug)
+      onChange(result.is_public, result.public_slug)
+      console.log(result.is_public ? '🌍 Board published' : '🔒 Board unpublished')
+    } catch (error) {
+      console.error('Error changing board publishing:', error)
+      alert('Failed to update publishing. Please try again.')
+    } finally {
+      setUpdating(false)
+    }
+  }
+
+  const copyLink = async () => {
+    if (!publicUrl) return
+
+    try {
+      await navigator.clipboard.writeText(publicUrl)
+      setCopied(true)
+      setTimeout(() => setCopied(false), 2000)
+    } catch (error) {
+      console.error('Failed to copy public link:', error)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-[10000]">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-md mx-4">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">Publish "{boardName}"</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <div className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+            <div className="flex items-center space-x-3">
+              {isPublished ? (
+                <Globe size={16} className="text-blue-500" />
+              ) : (
+                <Lock size={16} className="text-gray-500" />
+              )}
+              <div>
+                <p className="text-sm font-medium text-gray-900">
+                  {isPublished ? 'Published to the web' : 'Not published'}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {isPublished
+                    ? 'Anyone with the link can view this board, without signing in'
+                    : 'Only you and the people you share it with can open this board'
+                  }
+                </p>
+              </div>
+            </div>
+            <button
+              onClick={togglePublished}
+              disabled={updating}
+              className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors disabled:opacity-50 ${
+                isPublished ? 'bg-blue-500' : 'bg-gray-300'
+              }`}
+            >
+              <span
+                className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                  isPublished ? 'translate-x-6' : 'translate-x-1'
+                }`}
+              />
+            </button>
+          </div>
+
+          {isPublished && publicUrl && (
+            <div>
+              <p className="text-sm font-medium text-gray-700 mb-2">Public link</p>
+              <div className="flex space-x-2">
+                <input
+                  type="text"
+                  value={publicUrl}
+                  readOnly
+                  className="flex-1 px-3 py-2 bg-gray-50 border border-gray-200 rounded-lg text-xs text-gray-600"
+                />
+                <button
+                  onClick={copyLink}
+                  className="flex items-center space-x-1 px-3 py-2 bg-gray-100 text-gray-700 text-sm rounded-lg hover:bg-gray-200 transition-colors"
+                >
+                  {copied ? <Check size={14} className="text-green-500" /> : <Copy size={14} />}
+                  <span>{copied ? 'Copied' : 'Copy'}</span>
+                </button>
+                <a
+                  href={publicUrl}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="flex items-center px-3 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+                  title="Open the published board"
+                >
+                  <ExternalLink size={14} />
+                </a>
+              </div>
+              <p className="text-xs text-gray-500 mt-1">
+                Visitors see the last saved version of the board, read-only.
+              </p>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
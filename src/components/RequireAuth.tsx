@@ -0,0 +1,32 @@
+import React from 'react'
+import { Navigate, useLocation } from 'react-router-dom'
+import { useAuth } from '../contexts/AuthContext'
+import { LOGIN_PATH } from '../lib/routes'
+
+interface RequireAuthProps {
+  children: React.ReactNode
+}
+
+// Sends signed-out users to the login page, remembering where they were headed
+export const RequireAuth: React.FC<RequireAuthProps> = ({ children }) => {
+  const { user, loading } = useAuth()
+  const location = useLocation()
+
+  if (loading) {
+    return (
+      <div className="h-screen w-screen bg-black/5 flex items-center justify-center">
+        <div className="text-center">
+          <div className="w-8 h-8 border-4 border-black/20 border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
+          <p className="text-black/60">Loading...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (!user) {
+    const from = `${location.pathname}${location.search}${location.hash}`
+    return <Navigate to={LOGIN_PATH} state={{ from }} replace />
+  }
+
+  return <>{children}</>
+}
@@ -0,0 +1,97 @@
+import React from 'react'
+import { AlertTriangle, RefreshCw, GitMerge, Copy } from 'lucide-react'
+
+interface SaveConflictModalProps {
+  busy: boolean
+  // Viewers wait for someone who can edit the board to choose
+  canResolve: boolean
+  onReload: () => void
+  onMerge: () => void
+  onSaveCopy: () => void
+}
+
+export const SaveConflictModal: React.FC<SaveConflictModalProps> = ({
+  busy,
+  canResolve,
+  onReload,
+  onMerge,
+  onSaveCopy
+}) => {
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-[10000]">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-md mx-4">
+        <div className="flex items-center space-x-2 p-6 border-b border-gray-200">
+          <AlertTriangle size={20} className="text-amber-500" />
+          <h2 className="text-lg font-semibold text-gray-900">This board changed elsewhere</h2>
+        </div>
+
+        <div className="p-6 space-y-3">
+          <p className="text-sm text-gray-600">
+            The board was saved from somewhere else while it was open here. The latest changes made
+            here have not been saved. Saving is paused for everyone on the board until someone chooses
+            what to do.
+          </p>
+
+          {canResolve ? (
+            <>
+              <button
+                onClick={onMerge}
+                disabled={busy}
+                className="w-full flex items-start space-x-3 p-3 border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors text-left disabled:opacity-50"
+              >
+                <GitMerge size={16} className="text-blue-500 mt-0.5" />
+                <div>
+                  <p className="text-sm font-medium text-gray-900">Merge changes</p>
+                  <p className="text-xs text-gray-500">Apply the changes made here on top of the saved board. Where both sides changed the same shape, the saved version is kept.</p>
+                </div>
+              </button>
+
+              <button
+                onClick={onReload}
+                disabled={busy}
+                className="w-full flex items-start space-x-3 p-3 border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors text-left disabled:opacity-50"
+              >
+                <RefreshCw size={16} className="text-gray-500 mt-0.5" />
+                <div>
+                  <p className="text-sm font-medium text-gray-900">Reload saved board</p>
+                  <p className="text-xs text-gray-500">Discard the unsaved changes made here and load the latest saved version.</p>
+                </div>
+              </button>
+
+              <button
+                onClick={onSaveCopy}
+                disabled={busy}
+                className="w-full flex items-start space-x-3 p-3 border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors text-left disabled:opacity-50"
+              >
+                <Copy size={16} className="text-gray-500 mt-0.5" />
+                <div>
+                  <p className="text-sm font-medium text-gray-900">Save as a copy</p>
+                  <p className="text-xs text-gray-500">Keep both: the version here is saved as a new board of yours and opened.</p>
+                </div>
+              </button>
+            </>
+          ) : (
+            <>
+              <p className="text-sm text-gray-600">Someone who can edit the board has to choose. Try again once they have.</p>
+              <button
+                onClick={onReload}
+                disabled={busy}
+                className="w-full flex items-center justify-center space-x-2 p-3 border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+              >
+                <RefreshCw size={16} className="text-gray-500" />
+                <span className="text-sm font-medium text-gray-900">Try again</span>
+              </button>
+            </>
+          )}
+
+          {busy && (
+            <div className="flex items-center justify-center pt-2">
+              <div className="w-4 h-4 border-2 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
+              <span className="ml-2 text-sm text-gray-500">Working...</span>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
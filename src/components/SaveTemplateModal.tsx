@@ -1,7 +1,12 @@
-import React, { useState } from 'react'
+import React, { useEffect, useMemo, useState } from 'react'
 import { X, Save, Image, Globe, Lock } from 'lucide-react'
 import { Editor } from '@tldraw/editor'
 import { supabase } from '../lib/supabase'
+import { createBoardDocument } from '../lib/boardDocument'
+import { boardHasShapes } from '../lib/boardPages'
+import { TEMPLATE_CATEGORIES } from '../lib/templateCategories'
+import { AUTOMATIC_PLACEHOLDERS, findTemplatePlaceholders } from '../lib/templatePlaceholders'
+import { renderTemplatePreview, uploadTemplatePreview } from '../lib/templatePreviews'
 
 interface SaveTemplateModalProps {
   editor: Editor | null
@@ -9,16 +14,6 @@ interface SaveTemplateModalProps {
   onSuccess: () => void
 }
 
-const TEMPLATE_CATEGORIES = [
-  { value: 'mentoring', label: '🎯 Mentoring' },
-  { value: 'feedback', label: '💬 Feedback' },
-  { value: 'planning', label: '📋 Planning' },
-  { value: 'brainstorming', label: '💡 Brainstorming' },
-  { value: 'retrospective', label: '🔄 Retrospective' },
-  { value: 'onboarding', label: '👋 Onboarding' },
-  { value: 'custom', label: '⚙️ Custom' }
-]
-
 export const SaveTemplateModal: React.FC<SaveTemplateModalProps> = ({
   editor,
   onClose,
@@ -30,6 +25,33 @@ export const SaveTemplateModal: React.FC<SaveTemplateModalProps> = ({
   const [isPublic, setIsPublic] = useState(false)
   const [saving, setSaving] = useState(false)
   const [error, setError] = useState('')
+  const [preview, setPreview] = useState<{ image: Blob; url: string } | null>(null)
+  const [renderingPreview, setRenderingPreview] = useState(true)
+  const placeholders = useMemo(() => editor ? findTemplatePlaceholders(editor.store.allRecords()) : [], [editor])
+  const hasSeveralPages = (editor?.getPages().length ?? 0) > 1
+
+  // The preview shows what the template looks like now; it is stored with it on save
+  useEffect(() => {
+    if (!editor) return
+    let cancelled = false
+    let url: string | null = null
+
+    renderTemplatePreview(editor)
+      .then(image => {
+        if (cancelled || !image) return
+        url = URL.createObjectURL(image)
+        setPreview({ image, url })
+      })
+      .catch(error => console.error('Error rendering template preview:', error))
+      .finally(() => {
+        if (!cancelled) setRenderingPreview(false)
+      })
+
+    return () => {
+      cancelled = true
+      if (url) URL.revokeObjectURL(url)
+    }
+  }, [editor])
 
   const handleSave = async () => {
     if (!editor || !name.trim()) {
@@ -41,46 +63,19 @@ export const SaveTemplateModal: React.FC<SaveTemplateModalProps> = ({
       setSaving(true)
       setError('')
 
-      // Get current board state
-      const storeSnapshot = editor.store.getSnapshot()
-      const camera = editor.getCamera()
-      const viewport = editor.getViewportPageBounds()
-      const shapes = editor.getCurrentPageShapes()
-
-      if (shapes.length === 0) {
+      // Every page goes into the template, so only a board with no shapes at all is empty
+      if (!boardHasShapes(editor)) {
         setError('Cannot save empty board as template')
         return
       }
 
-      const templateData = {
-        storeSnapshot,
-        camera,
-        viewport: {
-          x: viewport.x,
-          y: viewport.y,
-          width: viewport.width,
-          height: viewport.height
-        },
-        shapes: shapes.map(shape => ({
-          id: shape.id,
-          type: shape.type,
-          x: shape.x,
-          y: shape.y,
-          props: shape.props,
-          rotation: shape.rotation
-        })),
-        metadata: {
-          version: '2.0',
-          createdAt: new Date().toISOString(),
-          shapeCount: shapes.length
-        }
-      }
+      const templateData = createBoardDocument(editor, 'template')
 
       console.log('💾 Saving template:', {
         name: name.trim(),
         category,
         isPublic,
-        shapeCount: shapes.length
+        pageCount: editor.getPages().length
       })
 
       const { data: { user } } = await supabase.auth.getUser()
@@ -89,9 +84,11 @@ export const SaveTemplateModal: React.FC<SaveTemplateModalProps> = ({
         return
       }
 
+      const templateId = crypto.randomUUID()
       const { error: saveError } = await supabase
         .from('templates')
         .insert({
+          id: templateId,
           name: name.trim(),
           description: description.trim() || null,
           category,
@@ -106,6 +103,15 @@ export const SaveTemplateModal: React.FC<SaveTemplateModalProps> = ({
         return
       }
 
+      if (preview) {
+        try {
+          await uploadTemplatePreview(templateId, preview.image)
+        } catch (previewError) {
+          // The template is saved either way; it just shows without a preview
+          console.error('Error uploading template preview:', previewError)
+        }
+      }
+
       console.log('✅ Template saved successfully')
       onSuccess()
       onClose()
@@ -125,7 +131,7 @@ export const SaveTemplateModal: React.FC<SaveTemplateModalProps> = ({
 
   return (
     <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50">
-      <div className="bg-white rounded-lg shadow-xl w-full max-w-md mx-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-md mx-4 max-h-[90vh] overflow-y-auto">
         <div className="flex items-center justify-between p-6 border-b border-gray-200">
           <h2 className="text-lg font-semibold text-gray-900">Save as Template</h2>
           <button
@@ -143,6 +149,24 @@ export const SaveTemplateModal: React.FC<SaveTemplateModalProps> = ({
             </div>
           )}
 
+          <div className="aspect-[8/5] bg-gray-50 border border-gray-200 rounded-lg overflow-hidden flex items-center justify-center">
+            {preview ? (
+              <img src={preview.url} alt="Template preview" className="w-full h-full object-contain" />
+            ) : renderingPreview ? (
+              <div className="w-5 h-5 border-2 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
+            ) : (
+              <div className="text-center text-gray-400">
+                <Image size={24} className="mx-auto mb-1" />
+                <p className="text-xs">No preview available</p>
+              </div>
+            )}
+          </div>
+          {hasSeveralPages && (
+            <p className="text-xs text-gray-500 -mt-2">
+              The preview shows the current page only. Every page of the board is saved in the template.
+            </p>
+          )}
+
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
               Template Name *
@@ -171,6 +195,23 @@ export const SaveTemplateModal: React.FC<SaveTemplateModalProps> = ({
             />
           </div>
 
+          <div className="p-3 bg-gray-50 rounded-lg text-xs text-gray-600 space-y-1">
+            <p>
+              Write placeholders such as <code className="font-mono">{'{{mentee_name}}'}</code> in any text.
+              Whoever uses the template is asked for their values.
+            </p>
+            <p>
+              Suggested automatically: {AUTOMATIC_PLACEHOLDERS.map(placeholder => (
+                <code key={placeholder.name} className="font-mono" title={placeholder.description}>{placeholder.name} </code>
+              ))}
+            </p>
+            {placeholders.length > 0 && (
+              <p className="text-blue-700">
+                This board has {placeholders.length} placeholder{placeholders.length === 1 ? '' : 's'}: {placeholders.join(', ')}
+              </p>
+            )}
+          </div>
+
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
               Category
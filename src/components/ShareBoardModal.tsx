@@ -0,0 +1,251 @@
+import React, { useState, useEffect } from 'react'
+import { X, UserPlus, Copy, Check, Trash2, Crown } from 'lucide-react'
+import { supabase } from '../lib/supabase'
+import type { BoardMember, BoardRole } from '../lib/supabase'
+import { BOARD_ROLES, boardRoleLabel, inviteBoardMember, sendBoardInviteEmail } from '../lib/boardMembers'
+import { boardPath } from '../lib/routes'
+
+interface ShareBoardModalProps {
+  boardId: string
+  boardName: string
+  // Owners can invite, change roles and remove members; everyone else sees the list
+  canManage: boolean
+  onClose: () => void
+}
+
+export const ShareBoardModal: React.FC<ShareBoardModalProps> = ({
+  boardId,
+  boardName,
+  canManage,
+  onClose
+}) => {
+  const [members, setMembers] = useState<BoardMember[]>([])
+  const [loading, setLoading] = useState(true)
+  const [email, setEmail] = useState('')
+  const [role, setRole] = useState<BoardRole>('mentee')
+  const [inviting, setInviting] = useState(false)
+  const [error, setError] = useState('')
+  const [copied, setCopied] = useState(false)
+
+  const boardUrl = `${window.location.origin}${boardPath(boardId)}`
+
+  useEffect(() => {
+    const loadMembers = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('board_members')
+          .select('*')
+          .eq('board_id', boardId)
+          .order('created_at', { ascending: true })
+
+        if (error) throw error
+        setMembers(data || [])
+      } catch (error) {
+        console.error('Error loading board members:', error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadMembers()
+  }, [boardId])
+
+  const handleInvite = async () => {
+    const trimmed = email.trim().toLowerCase()
+    if (!trimmed || !trimmed.includes('@')) {
+      setError('Enter the email address to invite')
+      return
+    }
+
+    try {
+      setInviting(true)
+      setError('')
+
+      const member = await inviteBoardMember(boardId, trimmed, role)
+      setMembers(current => [...current.filter(m => m.id !== member.id), member])
+      setEmail('')
+      console.log('✅ Invited board member:', member.email, member.role)
+
+      try {
+        await sendBoardInviteEmail(boardId, member.email)
+      } catch (emailError) {
+        // They have access either way
+        console.error('Error sending invite email:', emailError)
+        setError(`Invited ${member.email}, but the email could not be sent - send them the board link instead.`)
+      }
+    } catch (error) {
+      console.error('Error inviting board member:', error)
+      setError('Failed to invite. Please try again.')
+    } finally {
+      setInviting(false)
+    }
+  }
+
+  const changeRole = async (member: BoardMember, newRole: BoardRole) => {
+    try {
+      const { error } = await supabase
+        .from('board_members')
+        .update({ role: newRole })
+        .eq('id', member.id)
+
+      if (error) throw error
+      setMembers(current => current.map(m => m.id === member.id ? { ...m, role: newRole } : m))
+    } catch (error) {
+      console.error('Error changing member role:', error)
+      alert('Failed to change the role. Please try again.')
+    }
+  }
+
+  const removeMember = async (member: BoardMember) => {
+    if (!confirm(`Remove ${member.email} from "${boardName}"?`)) return
+
+    try {
+      const { error } = await supabase
+        .from('board_members')
+        .delete()
+        .eq('id', member.id)
+
+      if (error) throw error
+      setMembers(current => current.filter(m => m.id !== member.id))
+    } catch (error) {
+      console.error('Error removing board member:', error)
+      alert('Failed to remove the member. Please try again.')
+    }
+  }
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(boardUrl)
+      setCopied(true)
+      setTimeout(() => setCopied(false), 2000)
+    } catch (error) {
+      console.error('Failed to copy board link:', error)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-[10000]">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-lg mx-4">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">Share "{boardName}"</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {canManage && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Invite by email
+              </label>
+              <div className="flex space-x-2">
+                <input
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && handleInvite()}
+                  placeholder="mentee@example.com"
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm"
+                />
+                <select
+                  value={role}
+                  onChange={(e) => setRole(e.target.value as BoardRole)}
+                  className="px-2 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm"
+                >
+                  {BOARD_ROLES.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={handleInvite}
+                  disabled={inviting || !email.trim()}
+                  className="flex items-center space-x-1 px-3 py-2 bg-blue-500 text-white text-sm rounded-lg hover:bg-blue-600 transition-colors disabled:opacity-50"
+                >
+                  <UserPlus size={14} />
+                  <span>{inviting ? 'Inviting...' : 'Invite'}</span>
+                </button>
+              </div>
+              <p className="text-xs text-gray-500 mt-1">
+                {BOARD_ROLES.find(option => option.value === role)?.description}. We email them a link to the board; people without an account are invited to sign up with this email.
+              </p>
+              {error && <p className="text-xs text-red-600 mt-1">{error}</p>}
+            </div>
+          )}
+
+          <div>
+            <p className="text-sm font-medium text-gray-700 mb-2">People with access</p>
+            {loading ? (
+              <div className="flex items-center justify-center py-4">
+                <div className="w-4 h-4 border-2 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
+              </div>
+            ) : (
+              <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg max-h-64 overflow-y-auto">
+                <li className="flex items-center justify-between px-3 py-2 text-sm">
+                  <span className="flex items-center space-x-2 text-gray-900">
+                    <Crown size={14} className="text-amber-500" />
+                    <span>Board creator</span>
+                  </span>
+                  <span className="text-gray-500">Owner</span>
+                </li>
+                {members.map(member => (
+                  <li key={member.id} className="flex items-center justify-between px-3 py-2 text-sm">
+                    <div className="min-w-0">
+                      <p className="text-gray-900 truncate">{member.email}</p>
+                      {!member.user_id && <p className="text-xs text-gray-400">Invited - not signed up yet</p>}
+                    </div>
+                    {canManage ? (
+                      <div className="flex items-center space-x-2 ml-2">
+                        <select
+                          value={member.role}
+                          onChange={(e) => changeRole(member, e.target.value as BoardRole)}
+                          className="px-2 py-1 border border-gray-300 rounded text-xs"
+                        >
+                          {BOARD_ROLES.map(option => (
+                            <option key={option.value} value={option.value}>{option.label}</option>
+                          ))}
+                        </select>
+                        <button
+                          onClick={() => removeMember(member)}
+                          className="p-1 text-gray-400 hover:text-red-500 transition-colors"
+                          title="Remove access"
+                        >
+                          <Trash2 size={14} />
+                        </button>
+                      </div>
+                    ) : (
+                      <span className="text-gray-500 ml-2">{boardRoleLabel(member.role)}</span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <div>
+            <p className="text-sm font-medium text-gray-700 mb-2">Board link</p>
+            <div className="flex space-x-2">
+              <input
+                type="text"
+                value={boardUrl}
+                readOnly
+                className="flex-1 px-3 py-2 bg-gray-50 border border-gray-200 rounded-lg text-xs text-gray-600"
+              />
+              <button
+                onClick={copyLink}
+                className="flex items-center space-x-1 px-3 py-2 bg-gray-100 text-gray-700 text-sm rounded-lg hover:bg-gray-200 transition-colors"
+              >
+                {copied ? <Check size={14} className="text-green-500" /> : <Copy size={14} />}
+                <span>{copied ? 'Copied' : 'Copy'}</span>
+              </button>
+            </div>
+            <p className="text-xs text-gray-500 mt-1">Only people with access can open this link.</p>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
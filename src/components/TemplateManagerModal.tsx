@@ -0,0 +1,428 @@
+import React, { useCallback, useEffect, useState } from 'react'
+import { X, Edit, Trash2, Globe, Lock, History, ExternalLink, RotateCcw, Layers, Check, BarChart3 } from 'lucide-react'
+import { useAuth } from '../contexts/AuthContext'
+import type { Template, TemplateVersion } from '../lib/supabase'
+import { TEMPLATE_CATEGORIES, templateCategoryLabel } from '../lib/templateCategories'
+import { fetchTemplatePreviewUrls } from '../lib/templatePreviews'
+import {
+  deleteTemplate,
+  fetchOwnTemplates,
+  fetchTemplateVersions,
+  openTemplateAsBoard,
+  restoreTemplateVersion,
+  updateTemplateDetails
+} from '../lib/templateManagement'
+import type { TemplateDetails } from '../lib/templateManagement'
+import { fetchTemplateUsageStats } from '../lib/templateUsage'
+import type { TemplateUsageStats } from '../lib/templateUsage'
+
+interface TemplateManagerModalProps {
+  // Opens the board made from a template for editing
+  onOpenBoard: (boardId: string) => void
+  onClose: () => void
+}
+
+export const TemplateManagerModal: React.FC<TemplateManagerModalProps> = ({
+  onOpenBoard,
+  onClose
+}) => {
+  const { user } = useAuth()
+  const [templates, setTemplates] = useState<Template[]>([])
+  const [previewUrls, setPreviewUrls] = useState<Map<string, string>>(new Map())
+  const [loading, setLoading] = useState(true)
+  // Template whose details are being edited, and the edited values
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [draft, setDraft] = useState<TemplateDetails>({ name: '', description: '', category: 'custom', is_public: false })
+  // Template whose versions are listed
+  const [versionsId, setVersionsId] = useState<string | null>(null)
+  const [versions, setVersions] = useState<Omit<TemplateVersion, 'template_data'>[]>([])
+  // Template whose usage is shown
+  const [analyticsId, setAnalyticsId] = useState<string | null>(null)
+  const [stats, setStats] = useState<TemplateUsageStats | null>(null)
+  const [busyId, setBusyId] = useState<string | null>(null)
+
+  const loadTemplates = useCallback(async () => {
+    if (!user) return
+
+    try {
+      const results = await fetchOwnTemplates(user.id)
+      setTemplates(results)
+      try {
+        setPreviewUrls(await fetchTemplatePreviewUrls(results))
+      } catch (previewError) {
+        console.error('Error loading template previews:', previewError)
+      }
+    } catch (error) {
+      console.error('Error loading templates:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [user])
+
+  useEffect(() => {
+    loadTemplates()
+  }, [loadTemplates])
+
+  const replaceTemplate = (updated: Template) => {
+    setTemplates(current => current.map(template => template.id === updated.id ? updated : template))
+  }
+
+  const startEditing = (template: Template) => {
+    setEditingId(template.id)
+    setDraft({
+      name: template.name,
+      description: template.description ?? '',
+      category: template.category,
+      is_public: template.is_public
+    })
+  }
+
+  const handleSaveDetails = async (template: Template) => {
+    if (!draft.name.trim()) {
+      alert('Template name is required')
+      return
+    }
+
+    try {
+      setBusyId(template.id)
+      replaceTemplate(await updateTemplateDetails(template.id, draft))
+      setEditingId(null)
+    } catch (error) {
+      console.error('Error updating template:', error)
+      alert('Could not update the template. Please try again.')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleTogglePublic = async (template: Template) => {
+    try {
+      setBusyId(template.id)
+      replaceTemplate(await updateTemplateDetails(template.id, { ...template, is_public: !template.is_public }))
+    } catch (error) {
+      console.error('Error updating template:', error)
+      alert('Could not update the template. Please try again.')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleDelete = async (template: Template) => {
+    if (!confirm(`Delete "${template.name}" and all its versions? Boards made from it keep their content.`)) return
+
+    try {
+      setBusyId(template.id)
+      await deleteTemplate(template)
+      setTemplates(current => current.filter(item => item.id !== template.id))
+    } catch (error) {
+      console.error('Error deleting template:', error)
+      alert('Could not delete the template. Please try again.')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleOpenBoard = async (template: Template) => {
+    if (!user) return
+
+    try {
+      setBusyId(template.id)
+      const boardId = await openTemplateAsBoard(template, user.id)
+      onClose()
+      onOpenBoard(boardId)
+    } catch (error) {
+      console.error('Error opening template as a board:', error)
+      alert('Could not open the template as a board. Please try again.')
+      setBusyId(null)
+    }
+  }
+
+  const toggleVersions = async (template: Template) => {
+    if (versionsId === template.id) {
+      setVersionsId(null)
+      return
+    }
+
+    setVersionsId(template.id)
+    setVersions([])
+    try {
+      setVersions(await fetchTemplateVersions(template.id))
+    } catch (error) {
+      console.error('Error loading template versions:', error)
+    }
+  }
+
+  const toggleAnalytics = async (template: Template) => {
+    if (analyticsId === template.id) {
+      setAnalyticsId(null)
+      return
+    }
+
+    setAnalyticsId(template.id)
+    setStats(null)
+    try {
+      setStats(await fetchTemplateUsageStats(template.id))
+    } catch (error) {
+      console.error('Error loading template usage:', error)
+    }
+  }
+
+  const handleRestore = async (template: Template, version: Omit<TemplateVersion, 'template_data'>) => {
+    if (!confirm(`Make version ${version.version} of "${template.name}" the current version? It is saved as version ${template.version + 1}; nothing is lost.`)) return
+
+    try {
+      setBusyId(template.id)
+      replaceTemplate(await restoreTemplateVersion(template.id, version.id))
+      setVersions(await fetchTemplateVersions(template.id))
+    } catch (error) {
+      console.error('Error restoring template version:', error)
+      alert('Could not restore the version. Please try again.')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString()
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-3xl mx-4 max-h-[85vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">My Templates</h2>
+            <p className="text-sm text-gray-500">Rename, recategorise, share, edit or delete the templates you saved, and see how they are used</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-3">
+          {loading ? (
+            <div className="flex items-center justify-center py-8">
+              <div className="w-5 h-5 border-2 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
+              <span className="ml-2 text-sm text-gray-500">Loading templates...</span>
+            </div>
+          ) : templates.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">
+              <Layers size={32} className="mx-auto mb-2 opacity-50" />
+              <p className="text-sm">No saved templates yet</p>
+            </div>
+          ) : templates.map(template => (
+            <div key={template.id} className="border border-gray-200 rounded-lg p-3">
+              <div className="flex items-start space-x-3">
+                <div className="w-32 aspect-[8/5] flex-shrink-0 bg-gray-50 rounded overflow-hidden flex items-center justify-center">
+                  {previewUrls.get(template.id) ? (
+                    <img src={previewUrls.get(template.id)} alt={template.name} className="w-full h-full object-cover" />
+                  ) : (
+                    <Layers size={20} className="text-gray-300" />
+                  )}
+                </div>
+
+                {editingId === template.id ? (
+                  <div className="flex-1 space-y-2">
+                    <input
+                      type="text"
+                      value={draft.name}
+                      onChange={(e) => setDraft(current => ({ ...current, name: e.target.value }))}
+                      autoFocus
+                      className="w-full px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    />
+                    <textarea
+                      value={draft.description ?? ''}
+                      onChange={(e) => setDraft(current => ({ ...current, description: e.target.value }))}
+                      placeholder="Describe what this template is for..."
+                      rows={2}
+                      className="w-full px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 resize-none"
+                    />
+                    <div className="flex items-center space-x-2">
+                      <select
+                        value={draft.category}
+                        onChange={(e) => setDraft(current => ({ ...current, category: e.target.value }))}
+                        className="flex-1 px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      >
+                        {TEMPLATE_CATEGORIES.map(option => (
+                          <option key={option.value} value={option.value}>{option.label}</option>
+                        ))}
+                      </select>
+                      <button
+                        onClick={() => setEditingId(null)}
+                        className="px-3 py-1.5 text-sm text-gray-700 hover:text-gray-900"
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        onClick={() => handleSaveDetails(template)}
+                        disabled={busyId === template.id}
+                        className="flex items-center space-x-1 px-3 py-1.5 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors disabled:opacity-50 text-sm"
+                      >
+                        <Check size={14} />
+                        <span>Save</span>
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center space-x-2">
+                      <h3 className="text-sm font-semibold text-gray-900 truncate">{template.name}</h3>
+                      <span className="text-xs text-gray-500">v{template.version}</span>
+                    </div>
+                    {template.description && (
+                      <p className="text-xs text-gray-600 mt-1 line-clamp-2">{template.description}</p>
+                    )}
+                    <div className="flex items-center space-x-3 mt-1 text-xs text-gray-500">
+                      <span>{templateCategoryLabel(template.category)}</span>
+                      <span>Updated {formatDate(template.updated_at)}</span>
+                      <span>Used {template.usage_count} times</span>
+                    </div>
+
+                    <div className="flex flex-wrap items-center gap-1 mt-2">
+                      <button
+                        onClick={() => startEditing(template)}
+                        className="flex items-center space-x-1 px-2 py-1 text-xs text-gray-700 bg-gray-50 hover:bg-gray-100 rounded transition-colors"
+                      >
+                        <Edit size={12} />
+                        <span>Details</span>
+                      </button>
+                      <button
+                        onClick={() => handleTogglePublic(template)}
+                        disabled={busyId === template.id}
+                        className={`flex items-center space-x-1 px-2 py-1 text-xs rounded transition-colors disabled:opacity-50 ${
+                          template.is_public
+                            ? 'bg-blue-50 text-blue-700 hover:bg-blue-100'
+                            : 'bg-gray-50 text-gray-700 hover:bg-gray-100'
+                        }`}
+                        title={template.is_public ? 'Make private' : 'Share in the marketplace'}
+                      >
+                        {template.is_public ? <Globe size={12} /> : <Lock size={12} />}
+                        <span>{template.is_public ? 'Public' : 'Private'}</span>
+                      </button>
+                      <button
+                        onClick={() => handleOpenBoard(template)}
+                        disabled={busyId === template.id}
+                        className="flex items-center space-x-1 px-2 py-1 text-xs text-gray-700 bg-gray-50 hover:bg-gray-100 rounded transition-colors disabled:opacity-50"
+                        title="Open the template as a board, then save your changes as a new version"
+                      >
+                        <ExternalLink size={12} />
+                        <span>Edit on Board</span>
+                      </button>
+                      <button
+                        onClick={() => toggleVersions(template)}
+                        className={`flex items-center space-x-1 px-2 py-1 text-xs rounded transition-colors ${
+                          versionsId === template.id
+                            ? 'bg-blue-50 text-blue-700 hover:bg-blue-100'
+                            : 'bg-gray-50 text-gray-700 hover:bg-gray-100'
+                        }`}
+                      >
+                        <History size={12} />
+                        <span>Versions</span>
+                      </button>
+                      <button
+                        onClick={() => toggleAnalytics(template)}
+                        className={`flex items-center space-x-1 px-2 py-1 text-xs rounded transition-colors ${
+                          analyticsId === template.id
+                            ? 'bg-blue-50 text-blue-700 hover:bg-blue-100'
+                            : 'bg-gray-50 text-gray-700 hover:bg-gray-100'
+                        }`}
+                      >
+                        <BarChart3 size={12} />
+                        <span>Analytics</span>
+                      </button>
+                      <button
+                        onClick={() => handleDelete(template)}
+                        disabled={busyId === template.id}
+                        className="flex items-center space-x-1 px-2 py-1 text-xs text-red-600 hover:bg-red-50 rounded transition-colors disabled:opacity-50"
+                      >
+                        <Trash2 size={12} />
+                        <span>Delete</span>
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </div>
+
+              {versionsId === template.id && (
+                <div className="mt-3 pt-3 border-t border-gray-100 space-y-1">
+                  {versions.length === 0 ? (
+                    <p className="text-xs text-gray-500">Loading versions...</p>
+                  ) : versions.map(version => (
+                    <div key={version.id} className="flex items-center justify-between text-xs text-gray-600">
+                      <span>
+                        Version {version.version} · {new Date(version.created_at).toLocaleString()}
+                        {version.version === template.version && <span className="ml-2 text-green-600 font-medium">Current</span>}
+                      </span>
+                      {version.version !== template.version && (
+                        <button
+                          onClick={() => handleRestore(template, version)}
+                          disabled={busyId === template.id}
+                          className="flex items-center space-x-1 text-blue-600 hover:text-blue-700 disabled:opacity-50"
+                        >
+                          <RotateCcw size={12} />
+                          <span>Restore</span>
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {analyticsId === template.id && (
+                <div className="mt-3 pt-3 border-t border-gray-100">
+                  {!stats ? (
+                    <p className="text-xs text-gray-500">Loading usage...</p>
+                  ) : (
+                    <div className="space-y-3">
+                      <div className="grid grid-cols-4 gap-2">
+                        {[
+                          { label: 'Uses', value: stats.total_uses },
+                          { label: 'Unique users', value: stats.unique_users },
+                          { label: 'Boards', value: stats.boards },
+                          { label: 'Active boards', value: stats.active_boards }
+                        ].map(tile => (
+                          <div key={tile.label} className="bg-gray-50 rounded p-2 text-center">
+                            <div className="text-lg font-semibold text-gray-900">{tile.value}</div>
+                            <div className="text-xs text-gray-500">{tile.label}</div>
+                          </div>
+                        ))}
+                      </div>
+
+                      <div>
+                        <p className="text-xs font-medium text-gray-700 mb-1">Uses per week (last 12 weeks)</p>
+                        <div className="flex items-end space-x-1 h-16">
+                          {stats.weekly_uses.map(week => (
+                            <div
+                              key={week.week}
+                              className="flex-1 bg-blue-400 rounded-t min-h-[2px]"
+                              style={{ height: `${(week.uses / Math.max(1, ...stats.weekly_uses.map(item => item.uses))) * 100}%` }}
+                              title={`Week of ${formatDate(week.week)}: ${week.uses} use${week.uses === 1 ? '' : 's'}`}
+                            />
+                          ))}
+                        </div>
+                      </div>
+
+                      {stats.version_uses.length > 0 && (
+                        <p className="text-xs text-gray-600">
+                          {stats.version_uses
+                            .map(item => `${item.version === null ? 'Before versions' : `v${item.version}`}: ${item.uses}`)
+                            .join(' · ')}
+                        </p>
+                      )}
+                      <p className="text-xs text-gray-500">
+                        Active boards are boards the template was used on that are not archived or in the trash.
+                      </p>
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,465 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react'
+import { X, Search, Star, GitFork, ArrowLeft, TrendingUp, Layers, Store, Trash2 } from 'lucide-react'
+import { useAuth } from '../contexts/AuthContext'
+import type { Template, TemplateAuthor, TemplateReview } from '../lib/supabase'
+import type { TemplateLoadMode } from '../lib/templateInsert'
+import { TEMPLATE_CATEGORIES, templateCategoryLabel } from '../lib/templateCategories'
+import { fetchTemplatePreviewUrls } from '../lib/templatePreviews'
+import {
+  MARKETPLACE_SORTS,
+  authorDisplayName,
+  deleteTemplateReview,
+  fetchMarketplaceTemplate,
+  fetchTemplate,
+  fetchTemplateAuthors,
+  fetchTemplateReviews,
+  forkTemplate,
+  saveTemplateReview,
+  searchMarketplaceTemplates
+} from '../lib/templateMarketplace'
+import type { MarketplaceQuery, MarketplaceTemplate } from '../lib/templateMarketplace'
+
+interface TemplateMarketplaceModalProps {
+  onUseTemplate: (template: Template, mode: TemplateLoadMode) => void
+  onClose: () => void
+}
+
+interface StarRatingProps {
+  rating: number
+  size?: number
+  // Makes the stars clickable
+  onChange?: (rating: number) => void
+}
+
+const StarRating: React.FC<StarRatingProps> = ({ rating, size = 12, onChange }) => (
+  <div className="flex items-center">
+    {[1, 2, 3, 4, 5].map(value => {
+      const star = (
+        <Star
+          size={size}
+          className={value <= Math.round(rating) ? 'text-yellow-400 fill-yellow-400' : 'text-gray-300'}
+        />
+      )
+      return onChange ? (
+        <button key={value} type="button" onClick={() => onChange(value)} title={`${value} star${value === 1 ? '' : 's'}`}>
+          {star}
+        </button>
+      ) : (
+        <span key={value}>{star}</span>
+      )
+    })}
+  </div>
+)
+
+export const TemplateMarketplaceModal: React.FC<TemplateMarketplaceModalProps> = ({
+  onUseTemplate,
+  onClose
+}) => {
+  const { user } = useAuth()
+  const [query, setQuery] = useState<MarketplaceQuery>({ search: '', category: null, authorId: null, sort: 'popular' })
+  const [searchInput, setSearchInput] = useState('')
+  const [templates, setTemplates] = useState<MarketplaceTemplate[]>([])
+  const [authors, setAuthors] = useState<TemplateAuthor[]>([])
+  const [previewUrls, setPreviewUrls] = useState<Map<string, string>>(new Map())
+  const [loading, setLoading] = useState(true)
+  const [selected, setSelected] = useState<MarketplaceTemplate | null>(null)
+  const [reviews, setReviews] = useState<TemplateReview[]>([])
+  const [myRating, setMyRating] = useState(0)
+  const [myComment, setMyComment] = useState('')
+  const [savingReview, setSavingReview] = useState(false)
+  const [busy, setBusy] = useState(false)
+
+  const authorsById = useMemo(() => new Map(authors.map(author => [author.id, author])), [authors])
+  const publishers = authors.filter(author => author.public_template_count > 0)
+  const myReview = reviews.find(review => review.user_id === user?.id)
+  const isOwnTemplate = selected?.user_id === user?.id
+
+  // Typing searches once the user pauses
+  useEffect(() => {
+    if (searchInput === query.search) return
+
+    const searchTimeout = setTimeout(() => {
+      setQuery(current => ({ ...current, search: searchInput }))
+    }, 300)
+    return () => clearTimeout(searchTimeout)
+  }, [searchInput, query.search])
+
+  useEffect(() => {
+    fetchTemplateAuthors()
+      .then(setAuthors)
+      .catch(error => console.error('Error loading template authors:', error))
+  }, [])
+
+  useEffect(() => {
+    let cancelled = false
+    setLoading(true)
+
+    searchMarketplaceTemplates(query)
+      .then(async results => {
+        if (cancelled) return
+        setTemplates(results)
+        try {
+          const urls = await fetchTemplatePreviewUrls(results)
+          if (!cancelled) setPreviewUrls(urls)
+        } catch (previewError) {
+          console.error('Error loading template previews:', previewError)
+        }
+      })
+      .catch(error => console.error('Error searching templates:', error))
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [query])
+
+  const loadReviews = useCallback(async (templateId: string) => {
+    try {
+      const results = await fetchTemplateReviews(templateId)
+      setReviews(results)
+
+      const own = results.find(review => review.user_id === user?.id)
+      setMyRating(own?.rating ?? 0)
+      setMyComment(own?.comment ?? '')
+    } catch (error) {
+      console.error('Error loading template reviews:', error)
+    }
+  }, [user])
+
+  const openTemplate = (template: MarketplaceTemplate) => {
+    setSelected(template)
+    setReviews([])
+    setMyRating(0)
+    setMyComment('')
+    loadReviews(template.id)
+  }
+
+  // Ratings are recalculated in the database; pick up the new totals
+  const refreshSelected = async (templateId: string) => {
+    const listing = await fetchMarketplaceTemplate(templateId)
+    setSelected(listing)
+    setTemplates(current => current.map(item => item.id === templateId ? listing : item))
+  }
+
+  const handleSaveReview = async () => {
+    if (!selected || !user || myRating === 0) return
+
+    try {
+      setSavingReview(true)
+      await saveTemplateReview(selected.id, user.id, myRating, myComment)
+      await loadReviews(selected.id)
+      await refreshSelected(selected.id)
+    } catch (error) {
+      console.error('Error saving review:', error)
+      alert('Could not save your review. Please try again.')
+    } finally {
+      setSavingReview(false)
+    }
+  }
+
+  const handleDeleteReview = async () => {
+    if (!selected || !myReview || !confirm('Delete your review?')) return
+
+    try {
+      setSavingReview(true)
+      await deleteTemplateReview(myReview.id)
+      await loadReviews(selected.id)
+      await refreshSelected(selected.id)
+    } catch (error) {
+      console.error('Error deleting review:', error)
+      alert('Could not delete your review. Please try again.')
+    } finally {
+      setSavingReview(false)
+    }
+  }
+
+  const handleUse = async (mode: TemplateLoadMode) => {
+    if (!selected) return
+
+    try {
+      setBusy(true)
+      onUseTemplate(await fetchTemplate(selected.id), mode)
+      onClose()
+    } catch (error) {
+      console.error('Error loading template:', error)
+      alert('Could not load the template. Please try again.')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleFork = async () => {
+    if (!selected || !user) return
+
+    try {
+      setBusy(true)
+      await forkTemplate(selected.id, user.id)
+      alert(`"${selected.name}" was added to your saved templates.`)
+    } catch (error) {
+      console.error('Error forking template:', error)
+      alert('Could not fork the template. Please try again.')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString()
+  }
+
+  const previewImage = (template: MarketplaceTemplate, iconSize: number) => previewUrls.get(template.id) ? (
+    <img src={previewUrls.get(template.id)} alt={template.name} className="w-full h-full object-cover" />
+  ) : (
+    <Layers size={iconSize} className="text-gray-300" />
+  )
+
+  const ratingSummary = (template: MarketplaceTemplate) => template.rating_count > 0 ? (
+    <div className="flex items-center space-x-1">
+      <StarRating rating={template.rating_average ?? 0} />
+      <span>({template.rating_count})</span>
+    </div>
+  ) : (
+    <span>No ratings yet</span>
+  )
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-5xl mx-4 h-[85vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div className="flex items-center space-x-2">
+            <Store size={20} className="text-purple-600" />
+            <h2 className="text-lg font-semibold text-gray-900">Template Marketplace</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        {selected ? (
+          <div className="flex-1 overflow-y-auto p-6">
+            <button
+              onClick={() => setSelected(null)}
+              className="flex items-center space-x-1 text-sm text-gray-600 hover:text-gray-900 mb-4"
+            >
+              <ArrowLeft size={16} />
+              <span>Back to templates</span>
+            </button>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div className="aspect-[8/5] bg-gray-50 border border-gray-200 rounded-lg overflow-hidden flex items-center justify-center">
+                {previewImage(selected, 40)}
+              </div>
+
+              <div className="space-y-3">
+                <div>
+                  <h3 className="text-xl font-semibold text-gray-900">{selected.name}</h3>
+                  <p className="text-sm text-gray-500">
+                    by {isOwnTemplate ? 'you' : authorDisplayName(authorsById, selected.user_id)} · {formatDate(selected.created_at)}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-4 text-sm text-gray-600">
+                  {ratingSummary(selected)}
+                  <div className="flex items-center space-x-1">
+                    <TrendingUp size={14} />
+                    <span>Used {selected.usage_count} times</span>
+                  </div>
+                </div>
+                <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-gray-100 text-gray-800">
+                  {templateCategoryLabel(selected.category)}
+                </span>
+                {selected.description && (
+                  <p className="text-sm text-gray-700">{selected.description}</p>
+                )}
+
+                <div className="flex flex-wrap gap-2 pt-2">
+                  <button
+                    onClick={() => handleUse('insert')}
+                    disabled={busy}
+                    className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors disabled:opacity-50 text-sm font-medium"
+                  >
+                    Insert into Board
+                  </button>
+                  <button
+                    onClick={() => handleUse('replace')}
+                    disabled={busy}
+                    className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50 text-sm font-medium"
+                  >
+                    Replace Board
+                  </button>
+                  {!isOwnTemplate && (
+                    <button
+                      onClick={handleFork}
+                      disabled={busy}
+                      className="flex items-center space-x-2 px-4 py-2 bg-purple-50 text-purple-700 border border-purple-200 rounded-lg hover:bg-purple-100 transition-colors disabled:opacity-50 text-sm font-medium"
+                      title="Copy this template into your saved templates to change it"
+                    >
+                      <GitFork size={16} />
+                      <span>Fork to My Templates</span>
+                    </button>
+                  )}
+                </div>
+              </div>
+            </div>
+
+            <div className="mt-8 space-y-4">
+              <h4 className="text-sm font-semibold text-gray-900">Reviews ({reviews.length})</h4>
+
+              {!isOwnTemplate && (
+                <div className="border border-gray-200 rounded-lg p-4 space-y-3">
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm font-medium text-gray-700">{myReview ? 'Your review' : 'Rate this template'}</span>
+                    <StarRating rating={myRating} size={20} onChange={setMyRating} />
+                  </div>
+                  <textarea
+                    value={myComment}
+                    onChange={(e) => setMyComment(e.target.value)}
+                    placeholder="What worked well in your sessions? (optional)"
+                    rows={3}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 resize-none text-sm"
+                  />
+                  <div className="flex items-center justify-end space-x-2">
+                    {myReview && (
+                      <button
+                        onClick={handleDeleteReview}
+                        disabled={savingReview}
+                        className="flex items-center space-x-1 px-3 py-1.5 text-sm text-red-600 hover:text-red-700 disabled:opacity-50"
+                      >
+                        <Trash2 size={14} />
+                        <span>Delete</span>
+                      </button>
+                    )}
+                    <button
+                      onClick={handleSaveReview}
+                      disabled={savingReview || myRating === 0}
+                      className="px-3 py-1.5 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors disabled:opacity-50 text-sm"
+                    >
+                      {savingReview ? 'Saving...' : myReview ? 'Update Review' : 'Post Review'}
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              {reviews.length === 0 ? (
+                <p className="text-sm text-gray-500">No reviews yet.</p>
+              ) : (
+                <div className="space-y-3">
+                  {reviews.map(review => (
+                    <div key={review.id} className="border-b border-gray-100 pb-3">
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center space-x-2">
+                          <span className="text-sm font-medium text-gray-900">
+                            {review.user_id === user?.id ? 'You' : authorDisplayName(authorsById, review.user_id)}
+                          </span>
+                          <StarRating rating={review.rating} />
+                        </div>
+                        <span className="text-xs text-gray-500">{formatDate(review.updated_at)}</span>
+                      </div>
+                      {review.comment && (
+                        <p className="text-sm text-gray-700 mt-1">{review.comment}</p>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-center gap-2 px-6 py-4 border-b border-gray-200">
+              <div className="relative flex-1 min-w-[200px]">
+                <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+                <input
+                  type="text"
+                  value={searchInput}
+                  onChange={(e) => setSearchInput(e.target.value)}
+                  placeholder="Search templates..."
+                  autoFocus
+                  className="w-full pl-9 pr-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm"
+                />
+              </div>
+              <select
+                value={query.category ?? ''}
+                onChange={(e) => setQuery(current => ({ ...current, category: e.target.value || null }))}
+                className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value="">All categories</option>
+                {TEMPLATE_CATEGORIES.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+              <select
+                value={query.authorId ?? ''}
+                onChange={(e) => setQuery(current => ({ ...current, authorId: e.target.value || null }))}
+                className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value="">All authors</option>
+                {publishers.map(author => (
+                  <option key={author.id} value={author.id}>
+                    {author.full_name || 'Anonymous'} ({author.public_template_count})
+                  </option>
+                ))}
+              </select>
+              <select
+                value={query.sort}
+                onChange={(e) => setQuery(current => ({ ...current, sort: e.target.value as MarketplaceQuery['sort'] }))}
+                className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                {MARKETPLACE_SORTS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="flex-1 overflow-y-auto p-6">
+              {loading ? (
+                <div className="flex items-center justify-center py-12">
+                  <div className="w-6 h-6 border-2 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
+                  <span className="ml-2 text-sm text-gray-500">Loading templates...</span>
+                </div>
+              ) : templates.length === 0 ? (
+                <div className="text-center py-12 text-gray-500">
+                  <Store size={32} className="mx-auto mb-2 opacity-50" />
+                  <p className="text-sm">No public templates match your search</p>
+                </div>
+              ) : (
+                <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+                  {templates.map(template => (
+                    <button
+                      key={template.id}
+                      onClick={() => openTemplate(template)}
+                      className="text-left border border-gray-200 rounded-lg overflow-hidden hover:shadow-md transition-shadow"
+                    >
+                      <div className="aspect-[8/5] bg-gray-50 flex items-center justify-center">
+                        {previewImage(template, 24)}
+                      </div>
+                      <div className="p-3 space-y-1">
+                        <h4 className="text-sm font-medium text-gray-900 truncate">{template.name}</h4>
+                        <p className="text-xs text-gray-500 truncate">
+                          by {template.user_id === user?.id ? 'you' : authorDisplayName(authorsById, template.user_id)}
+                        </p>
+                        <div className="flex items-center justify-between text-xs text-gray-500">
+                          {ratingSummary(template)}
+                          {template.usage_count > 0 && (
+                            <div className="flex items-center space-x-1">
+                              <TrendingUp size={10} />
+                              <span>{template.usage_count}</span>
+                            </div>
+                          )}
+                        </div>
+                      </div>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,85 @@
+import React, { useState } from 'react'
+import { X, Check } from 'lucide-react'
+import { placeholderLabel } from '../lib/templatePlaceholders'
+
+interface TemplatePlaceholderModalProps {
+  templateName: string
+  placeholders: string[]
+  // Values filled in from the board and the user's profile
+  defaults: Record<string, string>
+  onSubmit: (values: Record<string, string>) => void
+  onClose: () => void
+}
+
+export const TemplatePlaceholderModal: React.FC<TemplatePlaceholderModalProps> = ({
+  templateName,
+  placeholders,
+  defaults,
+  onSubmit,
+  onClose
+}) => {
+  const [values, setValues] = useState<Record<string, string>>(() =>
+    Object.fromEntries(placeholders.map(name => [name, defaults[name] ?? '']))
+  )
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    onSubmit(Object.fromEntries(Object.entries(values).map(([name, value]) => [name, value.trim()])))
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50">
+      <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-xl w-full max-w-md mx-4">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Fill in Template</h2>
+            <p className="text-sm text-gray-500">{templateName}</p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 max-h-[60vh] overflow-y-auto">
+          {placeholders.map((name, index) => (
+            <div key={name}>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                {placeholderLabel(name)}
+                <span className="ml-2 font-mono text-xs text-gray-400">{`{{${name}}}`}</span>
+              </label>
+              <input
+                type="text"
+                value={values[name]}
+                onChange={(e) => setValues(current => ({ ...current, [name]: e.target.value }))}
+                autoFocus={index === 0}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+          ))}
+          <p className="text-xs text-gray-500">Fields left empty keep their placeholder, so you can fill them in on the board.</p>
+        </div>
+
+        <div className="flex items-center justify-end space-x-3 p-6 border-t border-gray-200">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 hover:text-gray-900 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            className="flex items-center space-x-2 px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
+          >
+            <Check size={16} />
+            <span>Use Template</span>
+          </button>
+        </div>
+      </form>
+    </div>
+  )
+}
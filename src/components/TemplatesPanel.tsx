@@ -1,47 +1,74 @@
 import React, { useState, useEffect } from 'react'
-import { Layers, Settings, Users, Rocket, Bug, Plus, Bookmark, Globe, Lock, TrendingUp, Clock } from 'lucide-react'
+import { Layers, Settings, Users, Bug, Plus, Bookmark, Globe, Lock, TrendingUp, Clock, StickyNote, Store } from 'lucide-react'
 import { supabase } from '../lib/supabase'
 import type { Template } from '../lib/supabase'
+import { BUILTIN_TEMPLATES, TEMPLATE_ACCENT_CLASSES } from '../lib/builtinTemplates'
+import type { TemplateLoadMode } from '../lib/templateInsert'
+import { TEMPLATE_CATEGORIES, templateCategoryLabel } from '../lib/templateCategories'
+import { fetchTemplatePreviewUrls } from '../lib/templatePreviews'
 
 interface TemplatesPanelProps {
   isCollaborating: boolean
   onToggleCollaboration: () => void
-  onCreateNewRoom: () => void
   onAddTemplate: (template: string) => void
   onShowSettings: () => void
   onPrintBoard: () => void
   onSaveTemplate: () => void
-  onLoadTemplate: (template: Template) => void
-  roomId: string
+  onLoadTemplate: (template: Template, mode: TemplateLoadMode) => void
+  onImportNotes: () => void
+  onBrowseMarketplace: () => void
+  onManageTemplates: () => void
+  // Viewers only get the actions; templates would change the board
+  readOnly?: boolean
 }
 
 export const TemplatesPanel: React.FC<TemplatesPanelProps> = ({
   isCollaborating,
   onToggleCollaboration,
-  onCreateNewRoom,
   onAddTemplate,
   onShowSettings,
   onPrintBoard,
   onSaveTemplate,
   onLoadTemplate,
-  roomId
+  onImportNotes,
+  onBrowseMarketplace,
+  onManageTemplates,
+  readOnly = false
 }) => {
   const [isExpanded, setIsExpanded] = useState(false)
   const [templates, setTemplates] = useState<Template[]>([])
   const [loading, setLoading] = useState(false)
   const [activeTab, setActiveTab] = useState<'builtin' | 'saved'>('builtin')
+  const [categoryFilter, setCategoryFilter] = useState('all')
+  const [previewUrls, setPreviewUrls] = useState<Map<string, string>>(new Map())
+  // Saved template shown large beside the panel while the pointer is over it
+  const [hoveredTemplate, setHoveredTemplate] = useState<Template | null>(null)
 
-  // Load templates from database
+  const visibleTemplates = categoryFilter === 'all'
+    ? templates
+    : templates.filter(template => template.category === categoryFilter)
+
+  // Load the user's own templates (and forks); public templates are in the marketplace
   const loadTemplates = async () => {
     try {
       setLoading(true)
+      const { data: { user } } = await supabase.auth.getUser()
+      if (!user) return
+
       const { data, error } = await supabase
         .from('templates')
         .select('*')
+        .eq('user_id', user.id)
         .order('usage_count', { ascending: false })
 
       if (error) throw error
       setTemplates(data || [])
+
+      try {
+        setPreviewUrls(await fetchTemplatePreviewUrls(data || []))
+      } catch (previewError) {
+        console.error('Error loading template previews:', previewError)
+      }
     } catch (error) {
       console.error('Error loading templates:', error)
     } finally {
@@ -51,32 +78,15 @@ export const TemplatesPanel: React.FC<TemplatesPanelProps> = ({
 
   // Load templates when panel expands
   useEffect(() => {
-    if (isExpanded && activeTab === 'saved') {
+    if (isExpanded && activeTab === 'saved' && !readOnly) {
       loadTemplates()
     }
-  }, [isExpanded, activeTab])
+  }, [isExpanded, activeTab, readOnly])
 
-  const handleLoadTemplate = async (template: Template) => {
-    try {
-      // Track template usage
-      const { data: { user } } = await supabase.auth.getUser()
-      if (user) {
-        await supabase.from('template_usage').insert({
-          template_id: template.id,
-          user_id: user.id
-        })
-
-        // Increment usage count
-        await supabase.rpc('increment_template_usage', {
-          template_uuid: template.id
-        })
-      }
-
-      onLoadTemplate(template)
-      setIsExpanded(false)
-    } catch (error) {
-      console.error('Error loading template:', error)
-    }
+  const handleLoadTemplate = (template: Template, mode: TemplateLoadMode) => {
+    onLoadTemplate(template, mode)
+    setHoveredTemplate(null)
+    setIsExpanded(false)
   }
 
   const formatDate = (dateString: string) => {
@@ -108,143 +118,194 @@ export const TemplatesPanel: React.FC<TemplatesPanelProps> = ({
         </button>
       </div>
 
-      {/* Room Status */}
-      {isCollaborating && (
-        <div className="bg-gradient-to-r from-green-100 to-green-50 border border-green-200 text-green-800 px-3 py-2 rounded-lg text-sm font-medium">
-          🌐 Room: {roomId.split('-').pop()}
-        </div>
-      )}
+      {!readOnly && (
+        <>
+          {/* Save Template Button */}
+          <button
+            onClick={onSaveTemplate}
+            className="w-full flex items-center justify-center space-x-2 bg-blue-50 hover:bg-blue-100 text-blue-700 px-3 py-2 rounded-lg text-sm font-medium transition-colors border border-blue-200"
+          >
+            <Plus size={16} />
+            <span>Save Current Board as Template</span>
+          </button>
 
-      {/* Save Template Button */}
-      <button
-        onClick={onSaveTemplate}
-        className="w-full flex items-center justify-center space-x-2 bg-blue-50 hover:bg-blue-100 text-blue-700 px-3 py-2 rounded-lg text-sm font-medium transition-colors border border-blue-200"
-      >
-        <Plus size={16} />
-        <span>Save Current Board as Template</span>
-      </button>
+          {/* Sticky notes from a list or CSV */}
+          <button
+            onClick={() => {
+              onImportNotes()
+              setIsExpanded(false)
+            }}
+            className="w-full flex items-center justify-center space-x-2 bg-yellow-50 hover:bg-yellow-100 text-yellow-800 px-3 py-2 rounded-lg text-sm font-medium transition-colors border border-yellow-200"
+          >
+            <StickyNote size={16} />
+            <span>Import Sticky Notes</span>
+          </button>
 
-      {/* Template Tabs */}
-      <div className="flex space-x-1 bg-gray-100 rounded-lg p-1">
-        <button
-          onClick={() => setActiveTab('builtin')}
-          className={`flex-1 py-1.5 px-3 text-xs font-medium rounded-md transition-colors ${
-            activeTab === 'builtin'
-              ? 'bg-white text-gray-900 shadow-sm'
-              : 'text-gray-600 hover:text-gray-900'
-          }`}
-        >
-          Built-in
-        </button>
-        <button
-          onClick={() => setActiveTab('saved')}
-          className={`flex-1 py-1.5 px-3 text-xs font-medium rounded-md transition-colors ${
-            activeTab === 'saved'
-              ? 'bg-white text-gray-900 shadow-sm'
-              : 'text-gray-600 hover:text-gray-900'
-          }`}
-        >
-          Saved ({templates.length})
-        </button>
-      </div>
+          {/* Public templates shared by others */}
+          <button
+            onClick={() => {
+              onBrowseMarketplace()
+              setIsExpanded(false)
+            }}
+            className="w-full flex items-center justify-center space-x-2 bg-purple-50 hover:bg-purple-100 text-purple-700 px-3 py-2 rounded-lg text-sm font-medium transition-colors border border-purple-200"
+          >
+            <Store size={16} />
+            <span>Browse Template Marketplace</span>
+          </button>
 
-      {/* Templates Section */}
-      <div className="space-y-2 max-h-64 overflow-y-auto">
-        {activeTab === 'builtin' ? (
-          <div className="grid grid-cols-1 gap-2">
-            <button
-              onClick={() => onAddTemplate('1on1')}
-              className="flex items-center space-x-2 px-3 py-2 bg-blue-50 hover:bg-blue-100 text-blue-700 rounded-lg text-sm font-medium transition-colors"
-            >
-              <span>📅</span>
-              <span>1-on-1 Meeting</span>
-            </button>
+          {/* Template Tabs */}
+          <div className="flex space-x-1 bg-gray-100 rounded-lg p-1">
             <button
-              onClick={() => onAddTemplate('feedback')}
-              className="flex items-center space-x-2 px-3 py-2 bg-purple-50 hover:bg-purple-100 text-purple-700 rounded-lg text-sm font-medium transition-colors"
+              onClick={() => setActiveTab('builtin')}
+              className={`flex-1 py-1.5 px-3 text-xs font-medium rounded-md transition-colors ${
+                activeTab === 'builtin'
+                  ? 'bg-white text-gray-900 shadow-sm'
+                  : 'text-gray-600 hover:text-gray-900'
+              }`}
             >
-              <span>💬</span>
-              <span>Feedback Session</span>
+              Built-in
             </button>
             <button
-              onClick={() => onAddTemplate('planning')}
-              className="flex items-center space-x-2 px-3 py-2 bg-green-50 hover:bg-green-100 text-green-700 rounded-lg text-sm font-medium transition-colors"
+              onClick={() => setActiveTab('saved')}
+              className={`flex-1 py-1.5 px-3 text-xs font-medium rounded-md transition-colors ${
+                activeTab === 'saved'
+                  ? 'bg-white text-gray-900 shadow-sm'
+                  : 'text-gray-600 hover:text-gray-900'
+              }`}
             >
-              <span>📋</span>
-              <span>Planning Board</span>
+              Saved ({templates.length})
             </button>
           </div>
-        ) : (
-          <div className="space-y-2">
-            {loading ? (
-              <div className="flex items-center justify-center py-4">
-                <div className="w-4 h-4 border-2 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
-                <span className="ml-2 text-sm text-gray-500">Loading templates...</span>
-              </div>
-            ) : templates.length === 0 ? (
-              <div className="text-center py-4 text-gray-500">
-                <Bookmark size={24} className="mx-auto mb-2 opacity-50" />
-                <p className="text-sm">No saved templates yet</p>
-                <p className="text-xs">Save your current board as a template to see it here</p>
+
+          {/* Templates Section */}
+          <div className="space-y-2 max-h-96 overflow-y-auto">
+            {activeTab === 'builtin' ? (
+              <div className="grid grid-cols-1 gap-2">
+                {BUILTIN_TEMPLATES.map(template => (
+                  <button
+                    key={template.id}
+                    onClick={() => onAddTemplate(template.id)}
+                    className={`flex items-center space-x-2 px-3 py-2 ${TEMPLATE_ACCENT_CLASSES[template.accent]} rounded-lg text-sm font-medium transition-colors`}
+                    title={template.description}
+                  >
+                    <span>{template.icon}</span>
+                    <span>{template.name}</span>
+                  </button>
+                ))}
               </div>
             ) : (
-              templates.map((template) => (
-                <div
-                  key={template.id}
-                  className="border border-gray-200 rounded-lg p-3 hover:bg-gray-50 transition-colors"
+              <div className="space-y-2">
+                <button
+                  onClick={() => {
+                    onManageTemplates()
+                    setIsExpanded(false)
+                  }}
+                  className="w-full flex items-center justify-center space-x-1 text-xs font-medium text-blue-600 hover:text-blue-700"
                 >
-                  <div className="flex items-start justify-between">
-                    <div className="flex-1 min-w-0">
-                      <div className="flex items-center space-x-2 mb-1">
-                        <h4 className="text-sm font-medium text-gray-900 truncate">
-                          {template.name}
-                        </h4>
-                        <div className="flex items-center space-x-1">
-                          {template.is_public ? (
-                            <div title="Public template">
-                              <Globe size={12} className="text-blue-500" />
-                            </div>
+                  <Settings size={12} />
+                  <span>Manage My Templates</span>
+                </button>
+
+                {/* Category filters */}
+                <div className="flex flex-wrap gap-1">
+                  {[{ value: 'all', label: 'All' }, ...TEMPLATE_CATEGORIES].map(option => (
+                    <button
+                      key={option.value}
+                      onClick={() => setCategoryFilter(option.value)}
+                      className={`px-2 py-0.5 rounded-full text-xs font-medium transition-colors ${
+                        categoryFilter === option.value
+                          ? 'bg-blue-500 text-white'
+                          : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+
+                {loading ? (
+                  <div className="flex items-center justify-center py-4">
+                    <div className="w-4 h-4 border-2 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
+                    <span className="ml-2 text-sm text-gray-500">Loading templates...</span>
+                  </div>
+                ) : visibleTemplates.length === 0 ? (
+                  <div className="text-center py-4 text-gray-500">
+                    <Bookmark size={24} className="mx-auto mb-2 opacity-50" />
+                    {templates.length === 0 ? (
+                      <>
+                        <p className="text-sm">No saved templates yet</p>
+                        <p className="text-xs">Save your current board as a template to see it here</p>
+                      </>
+                    ) : (
+                      <p className="text-sm">No templates in this category</p>
+                    )}
+                  </div>
+                ) : (
+                  <div className="grid grid-cols-2 gap-2">
+                    {visibleTemplates.map((template) => (
+                      <div
+                        key={template.id}
+                        onMouseEnter={() => setHoveredTemplate(template)}
+                        onMouseLeave={() => setHoveredTemplate(null)}
+                        className="border border-gray-200 rounded-lg overflow-hidden hover:shadow-md transition-shadow"
+                      >
+                        <div className="aspect-[8/5] bg-gray-50 flex items-center justify-center">
+                          {previewUrls.get(template.id) ? (
+                            <img src={previewUrls.get(template.id)} alt={template.name} className="w-full h-full object-cover" />
                           ) : (
-                            <div title="Private template">
-                              <Lock size={12} className="text-gray-400" />
-                            </div>
-                          )}
-                          {template.usage_count > 0 && (
-                            <div className="flex items-center space-x-1 text-xs text-gray-500">
-                              <TrendingUp size={10} />
-                              <span>{template.usage_count}</span>
-                            </div>
+                            <Layers size={20} className="text-gray-300" />
                           )}
                         </div>
-                      </div>
-                      {template.description && (
-                        <p className="text-xs text-gray-600 mb-2 line-clamp-2">
-                          {template.description}
-                        </p>
-                      )}
-                      <div className="flex items-center justify-between">
-                        <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-gray-100 text-gray-800">
-                          {template.category}
-                        </span>
-                        <div className="flex items-center space-x-1 text-xs text-gray-500">
-                          <Clock size={10} />
-                          <span>{formatDate(template.created_at)}</span>
+                        <div className="p-2">
+                          <div className="flex items-center space-x-1">
+                            <h4 className="flex-1 text-xs font-medium text-gray-900 truncate">
+                              {template.name}
+                            </h4>
+                            {template.is_public ? (
+                              <div title="Public template">
+                                <Globe size={10} className="text-blue-500" />
+                              </div>
+                            ) : (
+                              <div title="Private template">
+                                <Lock size={10} className="text-gray-400" />
+                              </div>
+                            )}
+                          </div>
+                          <div className="flex items-center justify-between mt-1 text-xs text-gray-500">
+                            <span className="truncate">{templateCategoryLabel(template.category)}</span>
+                            {template.usage_count > 0 && (
+                              <div className="flex items-center space-x-1">
+                                <TrendingUp size={10} />
+                                <span>{template.usage_count}</span>
+                              </div>
+                            )}
+                          </div>
+                          <div className="flex space-x-1 mt-2">
+                            <button
+                              onClick={() => handleLoadTemplate(template, 'insert')}
+                              className="flex-1 bg-blue-50 hover:bg-blue-100 text-blue-700 py-1 rounded text-xs font-medium transition-colors"
+                              title="Add the template beside what is on the board"
+                            >
+                              Insert
+                            </button>
+                            <button
+                              onClick={() => handleLoadTemplate(template, 'replace')}
+                              className="flex-1 bg-gray-50 hover:bg-gray-100 text-gray-700 py-1 rounded text-xs font-medium transition-colors"
+                              title="Replace the whole board with the template"
+                            >
+                              Replace
+                            </button>
+                          </div>
                         </div>
                       </div>
-                    </div>
+                    ))}
                   </div>
-                  <button
-                    onClick={() => handleLoadTemplate(template)}
-                    className="w-full mt-2 bg-blue-50 hover:bg-blue-100 text-blue-700 py-1.5 px-3 rounded text-xs font-medium transition-colors"
-                  >
-                    Load Template
-                  </button>
-                </div>
-              ))
+                )}
+              </div>
             )}
           </div>
-        )}
-      </div>
+        </>
+      )}
 
       {/* Actions Section */}
       <div className="space-y-2 pt-2 border-t border-gray-200">
@@ -261,16 +322,6 @@ export const TemplatesPanel: React.FC<TemplatesPanelProps> = ({
             <Users size={16} />
             <span>{isCollaborating ? 'Collaborating' : 'Start Collaboration'}</span>
           </button>
-          
-          {!isCollaborating && (
-            <button
-              onClick={onCreateNewRoom}
-              className="w-full flex items-center justify-center space-x-2 bg-blue-100 text-blue-700 hover:bg-blue-200 px-3 py-2 rounded-lg text-sm font-medium transition-colors"
-            >
-              <Rocket size={16} />
-              <span>New Room</span>
-            </button>
-          )}
 
           <button
             onClick={onShowSettings}
@@ -296,6 +347,35 @@ export const TemplatesPanel: React.FC<TemplatesPanelProps> = ({
   return (
     <div className="absolute left-4 top-1/2 transform -translate-y-1/2 z-40">
       {isExpanded ? expandedPanel : toggleButton}
+
+      {/* Larger preview of the saved template under the pointer */}
+      {isExpanded && hoveredTemplate && (
+        <div className="absolute left-full top-1/2 -translate-y-1/2 ml-3 w-[420px] bg-white/95 backdrop-blur-sm border border-gray-200 rounded-lg shadow-xl p-3 pointer-events-none">
+          <div className="aspect-[8/5] bg-gray-50 rounded overflow-hidden flex items-center justify-center">
+            {previewUrls.get(hoveredTemplate.id) ? (
+              <img src={previewUrls.get(hoveredTemplate.id)} alt={hoveredTemplate.name} className="w-full h-full object-contain" />
+            ) : (
+              <div className="text-center text-gray-400">
+                <Layers size={32} className="mx-auto mb-1" />
+                <p className="text-xs">No preview</p>
+              </div>
+            )}
+          </div>
+          <h4 className="mt-2 text-sm font-semibold text-gray-900">{hoveredTemplate.name}</h4>
+          {hoveredTemplate.description && (
+            <p className="text-xs text-gray-600 mt-1">{hoveredTemplate.description}</p>
+          )}
+          <div className="flex items-center justify-between mt-2 text-xs text-gray-500">
+            <span className="inline-flex items-center px-2 py-0.5 rounded font-medium bg-gray-100 text-gray-800">
+              {templateCategoryLabel(hoveredTemplate.category)}
+            </span>
+            <div className="flex items-center space-x-1">
+              <Clock size={10} />
+              <span>{formatDate(hoveredTemplate.created_at)}</span>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   )
 } 
\ No newline at end of file
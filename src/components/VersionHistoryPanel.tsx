@@ -0,0 +1,389 @@
+import React, { useState, useEffect, useCallback } from 'react'
+import { Tldraw, Editor } from 'tldraw'
+import { X, History, Bookmark, Clock, Eye, RotateCcw, Trash2, Copy } from 'lucide-react'
+import { supabase } from '../lib/supabase'
+import type { BoardVersion } from '../lib/supabase'
+import { useAuth } from '../contexts/AuthContext'
+import { describeMigrationFailure, loadBoardDocument, migrateBoardDocument, replaceBoardContent } from '../lib/boardDocument'
+import type { BoardDocument } from '../lib/boardDocument'
+import { BOARD_VERSION_LIST_COLUMNS, createBoardVersion } from '../lib/boardVersions'
+
+interface VersionHistoryPanelProps {
+  editor: Editor | null
+  boardId: string
+  onClose: () => void
+  onRestored: (issues: string[]) => void
+  // Viewers can browse and preview the history, but not change the board or the history
+  readOnly?: boolean
+  // Only the board's owner can delete versions (RLS allows nobody else)
+  canDelete?: boolean
+}
+
+const versionLabel = (version: BoardVersion) =>
+  version.name || (version.kind === 'auto' ? 'Automatic snapshot' : 'Checkpoint')
+
+const formatDate = (dateString: string) => {
+  return new Date(dateString).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  })
+}
+
+// Downloads a version's snapshot and migrates it to the current document format
+const fetchVersionDocument = async (versionId: string) => {
+  const { data, error } = await supabase
+    .from('board_versions')
+    .select('board_data')
+    .eq('id', versionId)
+    .single()
+
+  if (error) throw error
+
+  const migrated = migrateBoardDocument(data.board_data)
+  if (!migrated) throw new Error('This version has no saved content')
+  return migrated
+}
+
+interface VersionPreviewProps {
+  version: BoardVersion
+  document: BoardDocument
+  onClose: () => void
+  // Left out for read-only boards
+  onRestore?: () => void
+  onCopySelection?: (previewEditor: Editor) => void
+}
+
+// Read-only editor showing a single version
+const VersionPreview: React.FC<VersionPreviewProps> = ({
+  version,
+  document,
+  onClose,
+  onRestore,
+  onCopySelection
+}) => {
+  const [previewEditor, setPreviewEditor] = useState<Editor | null>(null)
+  const [selectedCount, setSelectedCount] = useState(0)
+  const [issues, setIssues] = useState<string[]>([])
+
+  const handleMount = useCallback((previewEditor: Editor) => {
+    setIssues(loadBoardDocument(previewEditor, document).map(describeMigrationFailure))
+    previewEditor.updateInstanceState({ isReadonly: true })
+    previewEditor.zoomToFit()
+    setPreviewEditor(previewEditor)
+
+    // Track the selection so parts of the version can be copied out. Tldraw calls
+    // the returned cleanup when the preview unmounts.
+    const unsubscribe = previewEditor.store.listen(() => {
+      setSelectedCount(previewEditor.getSelectedShapeIds().length)
+    })
+
+    return () => {
+      unsubscribe()
+    }
+  }, [document])
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-[10000] p-6">
+      <div className="bg-white rounded-lg shadow-xl w-full h-full max-w-6xl flex flex-col overflow-hidden">
+        <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">{versionLabel(version)}</h2>
+            <p className="text-xs text-gray-500">
+              {formatDate(version.created_at)} • {version.shape_count} shapes • Read-only preview
+              {issues.length > 0 && (
+                <span className="text-amber-600" title={issues.join('\n')}>
+                  {' '}• ⚠️ {issues.length} item{issues.length === 1 ? '' : 's'} could not be loaded
+                </span>
+              )}
+            </p>
+          </div>
+          <div className="flex items-center space-x-2">
+            {onCopySelection && (
+              <button
+                onClick={() => previewEditor && onCopySelection(previewEditor)}
+                disabled={!previewEditor || selectedCount === 0}
+                className="flex items-center space-x-1 px-3 py-1.5 text-sm bg-gray-50 text-gray-700 rounded hover:bg-gray-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                title="Select shapes in the preview, then copy them into the current board"
+              >
+                <Copy size={14} />
+                <span>Copy selection to board{selectedCount > 0 ? ` (${selectedCount})` : ''}</span>
+              </button>
+            )}
+            {onRestore && (
+              <button
+                onClick={onRestore}
+                className="flex items-center space-x-1 px-3 py-1.5 text-sm bg-blue-50 text-blue-600 rounded hover:bg-blue-100 transition-colors"
+              >
+                <RotateCcw size={14} />
+                <span>Restore this version</span>
+              </button>
+            )}
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 transition-colors"
+            >
+              <X size={20} />
+            </button>
+          </div>
+        </div>
+        <div className="flex-1 relative">
+          <Tldraw onMount={handleMount} />
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export const VersionHistoryPanel: React.FC<VersionHistoryPanelProps> = ({
+  editor,
+  boardId,
+  onClose,
+  onRestored,
+  readOnly = false,
+  canDelete = false
+}) => {
+  const { user } = useAuth()
+  const [versions, setVersions] = useState<BoardVersion[]>([])
+  const [loading, setLoading] = useState(true)
+  const [checkpointName, setCheckpointName] = useState('')
+  const [savingCheckpoint, setSavingCheckpoint] = useState(false)
+  const [busyVersionId, setBusyVersionId] = useState<string | null>(null)
+  const [preview, setPreview] = useState<{ version: BoardVersion; document: BoardDocument } | null>(null)
+
+  const loadVersions = useCallback(async () => {
+    try {
+      setLoading(true)
+      const { data, error } = await supabase
+        .from('board_versions')
+        .select(BOARD_VERSION_LIST_COLUMNS)
+        .eq('board_id', boardId)
+        .order('created_at', { ascending: false })
+
+      if (error) throw error
+      setVersions((data || []) as BoardVersion[])
+    } catch (error) {
+      console.error('Error loading board versions:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [boardId])
+
+  useEffect(() => {
+    loadVersions()
+  }, [loadVersions])
+
+  const saveCheckpoint = async () => {
+    if (!editor || !user || !checkpointName.trim()) return
+
+    try {
+      setSavingCheckpoint(true)
+      const version = await createBoardVersion(editor, boardId, user.id, 'manual', checkpointName)
+      setVersions([version, ...versions])
+      setCheckpointName('')
+      console.log('✅ Checkpoint saved:', version.name)
+    } catch (error) {
+      console.error('❌ Error saving checkpoint:', error)
+      alert('Failed to save checkpoint. Please try again.')
+    } finally {
+      setSavingCheckpoint(false)
+    }
+  }
+
+  const openPreview = async (version: BoardVersion) => {
+    try {
+      setBusyVersionId(version.id)
+      const migrated = await fetchVersionDocument(version.id)
+      setPreview({ version, document: migrated.document })
+    } catch (error) {
+      console.error('❌ Error loading version preview:', error)
+      alert('Failed to load this version.')
+    } finally {
+      setBusyVersionId(null)
+    }
+  }
+
+  const restoreVersion = async (version: BoardVersion) => {
+    if (!editor || !user) return
+
+    const confirmed = window.confirm(`Restore "${versionLabel(version)}" from ${formatDate(version.created_at)}? The current board is saved as a checkpoint first.`)
+    if (!confirmed) return
+
+    try {
+      setBusyVersionId(version.id)
+      const migrated = await fetchVersionDocument(version.id)
+
+      // Keep the state we are about to replace so the restore can be undone
+      const backup = await createBoardVersion(editor, boardId, user.id, 'manual', `Before restoring ${versionLabel(version)}`)
+      setVersions(prev => [backup, ...prev])
+
+      const failures = [...migrated.failures, ...replaceBoardContent(editor, migrated.document)]
+      onRestored(failures.map(describeMigrationFailure))
+      setPreview(null)
+      console.log('✅ Board restored from version:', version.id)
+    } catch (error) {
+      console.error('❌ Error restoring version:', error)
+      alert('Failed to restore this version.')
+    } finally {
+      setBusyVersionId(null)
+    }
+  }
+
+  const copySelection = (previewEditor: Editor) => {
+    if (!editor) return
+
+    const content = previewEditor.getContentFromCurrentPage(previewEditor.getSelectedShapeIds())
+    if (!content) return
+
+    editor.putContentOntoCurrentPage(content, { select: true })
+    console.log(`✅ Copied ${content.shapes.length} shapes from version into the board`)
+    setPreview(null)
+  }
+
+  const deleteVersion = async (version: BoardVersion) => {
+    if (!confirm(`Delete "${versionLabel(version)}" from the history?`)) return
+
+    try {
+      const { data, error } = await supabase
+        .from('board_versions')
+        .delete()
+        .eq('id', version.id)
+        .select('id')
+
+      if (error) throw error
+      // RLS hides rows it won't delete instead of failing
+      if (!data || data.length === 0) throw new Error('Version was not deleted')
+      setVersions(versions.filter(v => v.id !== version.id))
+    } catch (error) {
+      console.error('Error deleting version:', error)
+      alert('Failed to delete this version. Only the board owner can delete versions.')
+    }
+  }
+
+  return (
+    <>
+      <div className="absolute top-0 right-0 h-full w-80 bg-white/95 backdrop-blur-sm border-l border-gray-200 shadow-xl z-50 flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b border-gray-200">
+          <div className="flex items-center space-x-2">
+            <History size={16} className="text-gray-700" />
+            <h3 className="font-semibold text-gray-800">Version History</h3>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-700 text-lg font-bold transition-colors"
+          >
+            ×
+          </button>
+        </div>
+
+        {/* Named checkpoint */}
+        {!readOnly && (
+          <div className="p-4 border-b border-gray-200 space-y-2">
+            <label className="block text-sm font-medium text-gray-700">
+              Save a checkpoint
+            </label>
+            <div className="flex items-center space-x-2">
+              <input
+                type="text"
+                value={checkpointName}
+                onChange={(e) => setCheckpointName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && saveCheckpoint()}
+                placeholder="e.g. Before Q3 review"
+                className="flex-1 px-3 py-1.5 border border-gray-300 rounded text-sm focus:outline-none focus:ring-2 focus:ring-blue-400"
+                maxLength={100}
+              />
+              <button
+                onClick={saveCheckpoint}
+                disabled={!checkpointName.trim() || savingCheckpoint || !editor}
+                className="px-3 py-1.5 text-sm bg-blue-50 text-blue-600 rounded hover:bg-blue-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {savingCheckpoint ? 'Saving...' : 'Save'}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* Version list */}
+        <div className="flex-1 overflow-y-auto p-4 space-y-2">
+          {loading ? (
+            <div className="flex items-center justify-center py-4">
+              <div className="w-4 h-4 border-2 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
+              <span className="ml-2 text-sm text-gray-500">Loading history...</span>
+            </div>
+          ) : versions.length === 0 ? (
+            <div className="text-center py-4 text-gray-500">
+              <History size={24} className="mx-auto mb-2 opacity-50" />
+              <p className="text-sm">No versions yet</p>
+              <p className="text-xs">Snapshots are taken automatically while you work</p>
+            </div>
+          ) : (
+            versions.map((version) => (
+              <div
+                key={version.id}
+                className="border border-gray-200 rounded-lg p-3 hover:bg-gray-50 transition-colors"
+              >
+                <div className="flex items-start justify-between">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center space-x-2">
+                      {version.kind === 'manual' ? (
+                        <Bookmark size={12} className="text-blue-500 flex-shrink-0" />
+                      ) : (
+                        <Clock size={12} className="text-gray-400 flex-shrink-0" />
+                      )}
+                      <h4 className="text-sm font-medium text-gray-900 truncate">
+                        {versionLabel(version)}
+                      </h4>
+                    </div>
+                    <p className="text-xs text-gray-500 mt-1">
+                      {formatDate(version.created_at)} • {version.shape_count} shapes
+                    </p>
+                  </div>
+                  {canDelete && (
+                    <button
+                      onClick={() => deleteVersion(version)}
+                      className="p-1 text-gray-400 hover:text-red-500 transition-colors"
+                      title="Delete version"
+                    >
+                      <Trash2 size={12} />
+                    </button>
+                  )}
+                </div>
+                <div className="flex items-center space-x-2 mt-2">
+                  <button
+                    onClick={() => openPreview(version)}
+                    disabled={busyVersionId === version.id}
+                    className="flex-1 flex items-center justify-center space-x-1 bg-gray-100 hover:bg-gray-200 text-gray-700 py-1.5 px-2 rounded text-xs font-medium transition-colors disabled:opacity-50"
+                  >
+                    <Eye size={12} />
+                    <span>Preview</span>
+                  </button>
+                  {!readOnly && (
+                    <button
+                      onClick={() => restoreVersion(version)}
+                      disabled={busyVersionId === version.id || !editor}
+                      className="flex-1 flex items-center justify-center space-x-1 bg-blue-50 hover:bg-blue-100 text-blue-700 py-1.5 px-2 rounded text-xs font-medium transition-colors disabled:opacity-50"
+                    >
+                      <RotateCcw size={12} />
+                      <span>Restore</span>
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+
+      {preview && (
+        <VersionPreview
+          version={preview.version}
+          document={preview.document}
+          onClose={() => setPreview(null)}
+          onRestore={readOnly ? undefined : () => restoreVersion(preview.version)}
+          onCopySelection={readOnly ? undefined : copySelection}
+        />
+      )}
+    </>
+  )
+}
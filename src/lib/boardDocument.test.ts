@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest'
+import { defaultShapeUtils } from 'tldraw'
+import type { Editor, TLRecord, TLShape } from 'tldraw'
+import { BOARD_DOCUMENT_VERSION, describeMigrationFailure, detectBoardDocumentVersion, migrateBoardDocument } from './boardDocument'
+
+// Legacy documents stored each shape's full props, as the editor had them
+const defaultProps = (type: string): Record<string, unknown> => {
+  const ShapeUtil = defaultShapeUtils.find(util => util.type === type)!
+  return { ...new ShapeUtil(null as unknown as Editor).getDefaultProps() }
+}
+
+const shapesIn = (store: Record<string, TLRecord>) =>
+  Object.values(store).filter((record): record is TLShape => record.typeName === 'shape')
+
+describe('detectBoardDocumentVersion', () => {
+  it('finds nothing saved in empty data', () => {
+    expect(detectBoardDocumentVersion(null)).toBeNull()
+    expect(detectBoardDocumentVersion({})).toBeNull()
+    expect(detectBoardDocumentVersion([])).toBeNull()
+  })
+
+  it('reads explicit versions and recognises unversioned data', () => {
+    expect(detectBoardDocumentVersion({ version: 2, storeSnapshot: {} })).toBe(2)
+    expect(detectBoardDocumentVersion({ storeSnapshot: {} })).toBe(2)
+    expect(detectBoardDocumentVersion({ shapes: [] })).toBe(1)
+  })
+})
+
+describe('migrateBoardDocument', () => {
+  it('returns null when there is no saved document', () => {
+    expect(migrateBoardDocument({})).toBeNull()
+  })
+
+  it('rejects documents from a newer version of the app', () => {
+    expect(() => migrateBoardDocument({ version: BOARD_DOCUMENT_VERSION + 1, storeSnapshot: {} }))
+      .toThrow(/newer version/)
+  })
+
+  it('rebuilds a legacy shape list as records on one page', () => {
+    const result = migrateBoardDocument({
+      shapes: [
+        { id: 'shape:a', type: 'geo', x: 10, y: 20, props: { ...defaultProps('geo'), w: 100, h: 50 } },
+        { id: 'shape:b', type: 'text', x: 30, y: 40, props: defaultProps('text') }
+      ],
+      camera: { x: 1, y: 2, z: 1 }
+    })
+
+    expect(result).not.toBeNull()
+    const { document, fromVersion, failures } = result!
+    expect(fromVersion).toBe(1)
+    expect(failures).toEqual([])
+    expect(document.version).toBe(BOARD_DOCUMENT_VERSION)
+    expect(document.camera).toEqual({ x: 1, y: 2, z: 1 })
+
+    const store = document.storeSnapshot.store as Record<string, TLRecord>
+    const pages = Object.values(store).filter(record => record.typeName === 'page')
+    const shapes = shapesIn(store)
+    expect(pages).toHaveLength(1)
+    expect(shapes).toHaveLength(2)
+    expect(document.metadata.shapeCount).toBe(2)
+    expect(shapes.every(shape => shape.parentId === pages[0].id)).toBe(true)
+
+    // Stacked in their original order
+    const [first, second] = [...shapes].sort((a, b) => (a.index < b.index ? -1 : 1))
+    expect(first).toMatchObject({ type: 'geo', x: 10, y: 20, props: { w: 100, h: 50 } })
+    expect(second).toMatchObject({ type: 'text', x: 30, y: 40 })
+  })
+
+  it('skips legacy shapes it cannot bring forward and reports each one', () => {
+    const result = migrateBoardDocument({
+      shapes: [
+        { id: 'shape:ok', type: 'geo', x: 0, y: 0, props: defaultProps('geo') },
+        { id: 'shape:untyped', x: 0, y: 0 },
+        { id: 'shape:unknown', type: 'no-such-shape', x: 0, y: 0 }
+      ]
+    })
+
+    const { document, failures } = result!
+    expect(shapesIn(document.storeSnapshot.store as Record<string, TLRecord>)).toHaveLength(1)
+    expect(failures).toHaveLength(2)
+    expect(failures[0]).toMatchObject({ fromVersion: 1, toVersion: 2, index: 1, recordId: 'shape:untyped', reason: 'Shape has no type' })
+    expect(failures[1]).toMatchObject({ index: 2, recordId: 'shape:unknown', recordType: 'no-such-shape' })
+    expect(describeMigrationFailure(failures[0])).toContain('Shape has no type')
+  })
+
+  it('keeps current documents as they are and fills in missing metadata', () => {
+    const storeSnapshot = { schema: { schemaVersion: 2, sequences: {} }, store: {} }
+    const result = migrateBoardDocument({ storeSnapshot, metadata: { createdAt: '2024-01-01T00:00:00.000Z' } })
+
+    const { document, fromVersion, failures } = result!
+    expect(fromVersion).toBe(2)
+    expect(failures).toEqual([])
+    expect(document.storeSnapshot).toBe(storeSnapshot)
+    expect(document.metadata).toMatchObject({ savedAt: '2024-01-01T00:00:00.000Z', shapeCount: 0 })
+  })
+})
@@ -0,0 +1,338 @@
+import {
+  createShapeId,
+  createTLStore,
+  defaultBindingUtils,
+  defaultShapeUtils,
+  DocumentRecordType,
+  getIndexAbove,
+  loadSnapshot,
+  PageRecordType,
+  TLDOCUMENT_ID,
+} from 'tldraw'
+import type { Editor, IndexKey, TLRecord, TLShape, TLStoreSnapshot } from 'tldraw'
+import { BOARD_DOCUMENT_VERSION } from '../../shared/boards'
+
+// Board documents are what we persist in boards.board_data and
+// templates.template_data. Every document carries a version number and is
+// migrated forward, one step at a time, before it is loaded into an editor.
+export { BOARD_DOCUMENT_VERSION }
+
+export interface BoardCamera {
+  x: number
+  y: number
+  z: number
+}
+
+export interface BoardViewport {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export type BoardSaveType = 'auto' | 'manual' | 'template'
+
+export interface BoardDocumentMetadata {
+  savedAt: string
+  shapeCount: number
+  saveType?: BoardSaveType
+}
+
+// v1: flat list of shapes from the current page (pre-snapshot boards)
+export interface LegacyBoardShape {
+  id?: string
+  type: string
+  x?: number
+  y?: number
+  rotation?: number
+  props?: Record<string, unknown>
+}
+
+export interface BoardDocumentV1 {
+  version: 1
+  shapes: LegacyBoardShape[]
+  camera?: BoardCamera
+}
+
+// v2: complete tldraw store snapshot
+export interface BoardDocumentV2 {
+  version: 2
+  storeSnapshot: TLStoreSnapshot
+  camera?: BoardCamera
+  viewport?: BoardViewport
+  metadata: BoardDocumentMetadata
+  // Shape list that older saves wrote next to the snapshot; loaded when the snapshot can't be
+  shapes?: LegacyBoardShape[]
+}
+
+// The current document format
+export type BoardDocument = BoardDocumentV2
+
+type AnyBoardDocument = BoardDocumentV1 | BoardDocumentV2
+
+export interface MigrationFailure {
+  fromVersion: number
+  toVersion: number
+  // Position of the item in the source document, when the failure is per item
+  index?: number
+  recordId?: string
+  recordType?: string
+  reason: string
+}
+
+export interface MigrationResult {
+  document: BoardDocument
+  // Version the stored data was in before migrating
+  fromVersion: number
+  failures: MigrationFailure[]
+}
+
+interface BoardDocumentMigration {
+  from: number
+  to: number
+  up: (document: AnyBoardDocument, failures: MigrationFailure[]) => AnyBoardDocument
+}
+
+// v1 -> v2: rebuild the legacy shape list as records on a single page
+const legacyShapesToSnapshot = (document: AnyBoardDocument, failures: MigrationFailure[]): BoardDocumentV2 => {
+  const legacy = document as BoardDocumentV1
+  const store = createTLStore({ shapeUtils: defaultShapeUtils, bindingUtils: defaultBindingUtils })
+  const page = PageRecordType.create({ id: PageRecordType.createId(), name: 'Page 1', index: 'a1' as IndexKey })
+
+  store.put([DocumentRecordType.create({ id: TLDOCUMENT_ID }), page])
+
+  let index: IndexKey | undefined
+  legacy.shapes.forEach((shape, i) => {
+    const fail = (reason: string) => failures.push({
+      fromVersion: 1,
+      toVersion: 2,
+      index: i,
+      recordId: shape?.id,
+      recordType: shape?.type,
+      reason
+    })
+
+    if (!shape || typeof shape.type !== 'string') {
+      fail('Shape has no type')
+      return
+    }
+
+    try {
+      const nextIndex = getIndexAbove(index)
+      const record = store.schema.types.shape.create({
+        id: createShapeId(),
+        type: shape.type,
+        parentId: page.id,
+        index: nextIndex,
+        x: shape.x || 0,
+        y: shape.y || 0,
+        rotation: shape.rotation || 0,
+        props: shape.props || {}
+      } as unknown as TLShape)
+
+      // put() validates the record against the shape's schema
+      store.put([record])
+      index = nextIndex
+    } catch (error) {
+      fail(error instanceof Error ? error.message : String(error))
+    }
+  })
+
+  const shapeCount = store.allRecords().filter(record => record.typeName === 'shape').length
+
+  return {
+    version: 2,
+    storeSnapshot: store.getStoreSnapshot(),
+    camera: legacy.camera,
+    metadata: {
+      savedAt: new Date().toISOString(),
+      shapeCount
+    }
+  }
+}
+
+// Ordered migration steps; add new ones to the end
+const MIGRATIONS: BoardDocumentMigration[] = [
+  { from: 1, to: 2, up: legacyShapesToSnapshot },
+]
+
+// Loose view of what may be stored in a board_data / template_data column
+interface StoredBoardData {
+  version?: number
+  storeSnapshot?: TLStoreSnapshot
+  shapes?: LegacyBoardShape[]
+  camera?: BoardCamera
+  viewport?: BoardViewport
+  metadata?: Partial<BoardDocumentMetadata> & { createdAt?: string }
+}
+
+const isStoredBoardData = (value: unknown): value is StoredBoardData =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+// Works out which version stored data is in, or null when there is nothing saved
+export const detectBoardDocumentVersion = (raw: unknown): number | null => {
+  if (!isStoredBoardData(raw) || Object.keys(raw).length === 0) return null
+
+  if (typeof raw.version === 'number') return raw.version
+
+  // Unversioned data from before explicit version numbers
+  if (raw.storeSnapshot) return 2
+  if (Array.isArray(raw.shapes)) return 1
+
+  return null
+}
+
+// Normalises stored data into the typed shape for its version
+const readBoardDocument = (raw: StoredBoardData, version: number): AnyBoardDocument => {
+  switch (version) {
+    case 1:
+      return {
+        version: 1,
+        shapes: raw.shapes ?? [],
+        camera: raw.camera
+      }
+    case 2:
+      return {
+        version: 2,
+        storeSnapshot: raw.storeSnapshot as TLStoreSnapshot,
+        camera: raw.camera,
+        viewport: raw.viewport,
+        metadata: {
+          savedAt: raw.metadata?.savedAt ?? raw.metadata?.createdAt ?? new Date().toISOString(),
+          shapeCount: raw.metadata?.shapeCount ?? 0,
+          saveType: raw.metadata?.saveType
+        },
+        shapes: Array.isArray(raw.shapes) && raw.shapes.length > 0 ? raw.shapes : undefined
+      }
+    default:
+      throw new Error(`Unknown board document version: ${version}`)
+  }
+}
+
+// Migrates stored board or template data to the current document version.
+// Returns null when there is no saved document.
+export const migrateBoardDocument = (raw: unknown): MigrationResult | null => {
+  const fromVersion = detectBoardDocumentVersion(raw)
+  if (fromVersion === null) return null
+
+  if (fromVersion > BOARD_DOCUMENT_VERSION) {
+    throw new Error(`Board was saved by a newer version of the app (document v${fromVersion}, supported v${BOARD_DOCUMENT_VERSION})`)
+  }
+
+  const failures: MigrationFailure[] = []
+  let document = readBoardDocument(raw as StoredBoardData, fromVersion)
+
+  for (const migration of MIGRATIONS) {
+    if (migration.from !== document.version) continue
+    document = migration.up(document, failures)
+    if (document.version !== migration.to) {
+      throw new Error(`Board document migration v${migration.from} -> v${migration.to} produced v${document.version}`)
+    }
+  }
+
+  if (document.version !== BOARD_DOCUMENT_VERSION) {
+    throw new Error(`No migration path from board document v${fromVersion} to v${BOARD_DOCUMENT_VERSION}`)
+  }
+
+  return { document, fromVersion, failures }
+}
+
+// Builds a current-version document from the editor's state
+export const createBoardDocument = (editor: Editor, saveType: BoardSaveType): BoardDocument => {
+  const storeSnapshot = editor.store.getStoreSnapshot()
+  const { x, y, z } = editor.getCamera()
+  const viewport = editor.getViewportPageBounds()
+
+  return {
+    version: BOARD_DOCUMENT_VERSION,
+    storeSnapshot,
+    camera: { x, y, z },
+    viewport: {
+      x: viewport.x,
+      y: viewport.y,
+      width: viewport.width,
+      height: viewport.height
+    },
+    metadata: {
+      savedAt: new Date().toISOString(),
+      shapeCount: Object.values(storeSnapshot.store).filter((record: TLRecord) => record.typeName === 'shape').length,
+      saveType
+    }
+  }
+}
+
+// Hands the document's snapshot to load. A snapshot that fails to load is reported,
+// and the legacy shape list saved next to it, if any, is loaded in its place.
+const loadWithLegacyFallback = (document: BoardDocument, load: (snapshot: TLStoreSnapshot) => void): MigrationFailure[] => {
+  try {
+    load(document.storeSnapshot)
+    return []
+  } catch (error) {
+    const failures: MigrationFailure[] = [{
+      fromVersion: document.version,
+      toVersion: BOARD_DOCUMENT_VERSION,
+      recordType: 'snapshot',
+      reason: error instanceof Error ? error.message : String(error)
+    }]
+
+    if (!document.shapes) throw error
+
+    console.warn('⚠️ Board snapshot could not be loaded, loading its legacy shapes instead:', error)
+    const legacy = legacyShapesToSnapshot({ version: 1, shapes: document.shapes, camera: document.camera }, failures)
+    load(legacy.storeSnapshot)
+    return failures
+  }
+}
+
+// Replaces the editor's document with a migrated board document. Only for editors
+// with their own local store (previews, published boards) - see replaceBoardContent.
+// Returns what could not be loaded.
+export const loadBoardDocument = (editor: Editor, document: BoardDocument): MigrationFailure[] => {
+  const failures = loadWithLegacyFallback(document, snapshot => loadSnapshot(editor.store, snapshot))
+
+  if (document.camera) {
+    editor.setCamera(document.camera)
+  }
+
+  return failures
+}
+
+// Swaps the editor's document records for a board document's as an ordinary edit.
+// Boards are synced: loading a snapshot would reset the shared room for everyone,
+// so their content is only ever changed through puts and removes. Returns what
+// could not be loaded.
+export const replaceBoardContent = (editor: Editor, document: BoardDocument): MigrationFailure[] =>
+  loadWithLegacyFallback(document, snapshot => {
+    const migrated = editor.store.schema.migrateStoreSnapshot(snapshot)
+    if (migrated.type === 'error') {
+      throw new Error(`Board document could not be migrated: ${migrated.reason}`)
+    }
+
+    const records = Object.values(migrated.value)
+    const keep = new Set(records.map(record => record.id))
+    const documentTypes = editor.store.scopedTypes.document
+
+    editor.run(() => {
+      editor.store.remove(
+        editor.store.allRecords()
+          .filter(record => documentTypes.has(record.typeName) && !keep.has(record.id))
+          .map(record => record.id)
+      )
+      editor.store.put(records)
+
+      // The page we were on may be gone
+      if (!editor.getPage(editor.getCurrentPageId())) {
+        editor.setCurrentPage(editor.getPages()[0])
+      }
+    })
+  })
+
+export const describeMigrationFailure = (failure: MigrationFailure) => {
+  const subject = [
+    failure.recordType ?? 'item',
+    failure.recordId ? `"${failure.recordId}"` : null,
+    failure.index !== undefined ? `(#${failure.index + 1})` : null
+  ].filter(Boolean).join(' ')
+
+  return `v${failure.fromVersion} → v${failure.toVersion}: ${subject} — ${failure.reason}`
+}
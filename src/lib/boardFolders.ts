@@ -0,0 +1,74 @@
+import { supabase } from './supabase'
+import type { BoardFolder } from './supabase'
+
+// All of the user's folders. Folder trees are small, so the dashboard keeps them
+// in memory to draw breadcrumbs and the move-to-folder list.
+export const fetchFolders = async (): Promise<BoardFolder[]> => {
+  const { data, error } = await supabase
+    .from('board_folders')
+    .select('*')
+    .order('name', { ascending: true })
+
+  if (error) throw error
+  return data || []
+}
+
+export const createFolder = async (userId: string, name: string, parentId: string | null): Promise<BoardFolder> => {
+  const { data, error } = await supabase
+    .from('board_folders')
+    .insert({ user_id: userId, name: name.trim(), parent_id: parentId })
+    .select()
+    .single()
+
+  if (error) throw error
+  return data
+}
+
+export const renameFolder = async (folderId: string, name: string) => {
+  const { error } = await supabase
+    .from('board_folders')
+    .update({ name: name.trim() })
+    .eq('id', folderId)
+
+  if (error) throw error
+}
+
+// Subfolders are deleted with it; boards inside move to the top level
+export const deleteFolder = async (folderId: string) => {
+  const { error } = await supabase
+    .from('board_folders')
+    .delete()
+    .eq('id', folderId)
+
+  if (error) throw error
+}
+
+// Folders from the top level down to folderId, for breadcrumbs
+export const folderTrail = (folders: BoardFolder[], folderId: string | null) => {
+  const byId = new Map(folders.map(folder => [folder.id, folder]))
+  const trail: BoardFolder[] = []
+
+  let folder = folderId ? byId.get(folderId) : undefined
+  while (folder && !trail.includes(folder)) {
+    trail.unshift(folder)
+    folder = folder.parent_id ? byId.get(folder.parent_id) : undefined
+  }
+  return trail
+}
+
+// Every folder in tree order with its depth, for pickers
+export const flattenFolders = (folders: BoardFolder[]) => {
+  const result: { folder: BoardFolder; depth: number }[] = []
+
+  const visit = (parentId: string | null, depth: number) => {
+    folders
+      .filter(folder => folder.parent_id === parentId)
+      .forEach(folder => {
+        result.push({ folder, depth })
+        visit(folder.id, depth + 1)
+      })
+  }
+
+  visit(null, 0)
+  return result
+}
@@ -0,0 +1,53 @@
+import type { Editor, TLShapeId } from 'tldraw'
+
+export type ImageFormat = 'png' | 'jpeg' | 'webp' | 'svg'
+
+export interface ImageExportOptions {
+  format: ImageFormat
+  // Multiplier of the board's size: 1 = one image pixel per board pixel
+  scale: number
+  transparent: boolean
+  padding: number
+  darkMode: boolean
+}
+
+export const IMAGE_FORMATS: { value: ImageFormat; label: string }[] = [
+  { value: 'png', label: 'PNG Image' },
+  { value: 'jpeg', label: 'JPEG Image' },
+  { value: 'webp', label: 'WebP Image' },
+  { value: 'svg', label: 'SVG Vector' },
+]
+
+export const IMAGE_SCALES = [1, 2, 3, 4]
+export const MAX_IMAGE_PADDING = 256
+const LOSSY_QUALITY = 0.92
+
+export const isImageFormat = (format: string): format is ImageFormat =>
+  IMAGE_FORMATS.some(option => option.value === format)
+
+// JPEG has no transparency, so it always gets a background
+export const supportsTransparency = (format: ImageFormat) => format !== 'jpeg'
+
+export const imageFileExtension = (format: ImageFormat) => (format === 'jpeg' ? 'jpg' : format)
+
+// Renders shapes with tldraw's exporter, which embeds fonts and images and
+// handles any Unicode text. Bitmap sizes come from the pixel ratio, so images
+// in the board are also fetched at the export's resolution.
+export const exportShapesAsImage = async (editor: Editor, shapeIds: TLShapeId[], options: ImageExportOptions): Promise<Blob> => {
+  const background = !options.transparent || !supportsTransparency(options.format)
+  const padding = Math.max(0, Math.min(MAX_IMAGE_PADDING, options.padding))
+
+  const { blob } = options.format === 'svg'
+    ? await editor.toImage(shapeIds, { format: 'svg', scale: options.scale, background, padding, darkMode: options.darkMode })
+    : await editor.toImage(shapeIds, {
+        format: options.format,
+        scale: 1,
+        pixelRatio: options.scale,
+        quality: LOSSY_QUALITY,
+        background,
+        padding,
+        darkMode: options.darkMode
+      })
+
+  return blob
+}
@@ -0,0 +1,483 @@
+import {
+  AssetRecordType,
+  createBindingId,
+  createShapeId,
+  createTLStore,
+  defaultBindingUtils,
+  defaultShapeUtils,
+  DocumentRecordType,
+  getIndexAbove,
+  getIndicesAbove,
+  MigrationFailureReason,
+  PageRecordType,
+  TLDOCUMENT_ID,
+} from 'tldraw'
+import type { Editor, IndexKey, SerializedSchema, TLAsset, TLBinding, TLPage, TLPageId, TLRecord, TLShape, TLShapeId, TLStore } from 'tldraw'
+import { BOARD_DOCUMENT_VERSION, migrateBoardDocument } from './boardDocument'
+import type { BoardDocument } from './boardDocument'
+import { createBoardAssetStore } from './sync'
+
+// Files the import accepts: .tldr files saved by tldraw, and the JSON that
+// board settings export (or a board's stored data)
+export const BOARD_IMPORT_ACCEPT = '.tldr,.json,application/json'
+
+// Newest .tldr file format we can read
+const TLDR_FILE_FORMAT_VERSION = 1
+
+// Only a board's content is imported; the document record, cameras and other
+// per-user state belong to the board being imported into
+const CONTENT_TYPES = new Set(['page', 'shape', 'binding', 'asset'])
+
+// Gap between what is already on a page and content imported beside it
+const IMPORT_GAP = 100
+
+export type BoardImportFormat = 'tldr' | 'board-document' | 'snapshot' | 'records'
+
+export interface ImportFailure {
+  recordId?: string
+  recordType?: string
+  reason: string
+}
+
+export interface BoardImportResult {
+  // Board name stored in the file, or the file name
+  name: string
+  format: BoardImportFormat
+  pageCount: number
+  shapeCount: number
+  failures: ImportFailure[]
+}
+
+type AssetUploader = (asset: TLAsset, file: File) => Promise<{ src: string }>
+
+interface ParsedBoardFile {
+  name: string
+  format: BoardImportFormat
+  // Migrated and validated pages, shapes, bindings and assets
+  records: TLRecord[]
+  failures: ImportFailure[]
+}
+
+interface RawBoardFile {
+  format: BoardImportFormat
+  records: unknown[]
+  // Schema the records were saved with; exports from store.serialize() don't carry one
+  schema: SerializedSchema | null
+  failures: ImportFailure[]
+}
+
+const MIGRATION_FAILURE_REASONS: Record<MigrationFailureReason, string> = {
+  [MigrationFailureReason.IncompatibleSubtype]: 'Uses a shape or asset type this board does not support',
+  [MigrationFailureReason.UnknownType]: 'Unknown record type',
+  [MigrationFailureReason.TargetVersionTooNew]: 'Saved by a newer version of tldraw',
+  [MigrationFailureReason.TargetVersionTooOld]: 'Saved by a version of tldraw that is too old',
+  [MigrationFailureReason.MigrationError]: 'Could not be upgraded to the current tldraw version',
+  [MigrationFailureReason.UnrecognizedSubtype]: 'Uses a shape or asset type this board does not support',
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const isRecord = (value: unknown): value is TLRecord =>
+  isObject(value) && typeof value.id === 'string' && typeof value.typeName === 'string'
+
+const recordType = (record: TLRecord) =>
+  record.typeName === 'shape' || record.typeName === 'asset' || record.typeName === 'binding'
+    ? `${record.type} ${record.typeName}`
+    : record.typeName
+
+const errorMessage = (error: unknown) => error instanceof Error ? error.message : String(error)
+
+// Works out what kind of file this is and pulls out its records
+const readBoardFile = (json: unknown): RawBoardFile => {
+  if (!isObject(json)) throw new Error('The file does not contain a board')
+
+  // tldraw's own .tldr format
+  if ('tldrawFileFormatVersion' in json) {
+    if (typeof json.tldrawFileFormatVersion !== 'number' || json.tldrawFileFormatVersion > TLDR_FILE_FORMAT_VERSION) {
+      throw new Error('The file was saved by a newer version of tldraw')
+    }
+    if (!Array.isArray(json.records) || !isObject(json.schema)) {
+      throw new Error('The .tldr file is damaged - it has no records or schema')
+    }
+    return { format: 'tldr', records: json.records, schema: json.schema as unknown as SerializedSchema, failures: [] }
+  }
+
+  if (isObject(json.document) && 'pages' in json.document) {
+    throw new Error('Files from tldraw v1 are not supported. Open the file at tldraw.com and save it again first.')
+  }
+
+  // Board data as stored in boards.board_data, in any document version
+  if ('version' in json || 'storeSnapshot' in json || Array.isArray(json.shapes)) {
+    const migrated = migrateBoardDocument(json)
+    if (!migrated) throw new Error('The file does not contain a board')
+
+    return {
+      format: 'board-document',
+      records: Object.values(migrated.document.storeSnapshot.store),
+      schema: migrated.document.storeSnapshot.schema,
+      failures: migrated.failures.map(failure => ({
+        recordId: failure.recordId,
+        recordType: failure.recordType,
+        reason: failure.reason
+      }))
+    }
+  }
+
+  // A store snapshot ({ store, schema }), as the JSON export writes
+  if (isObject(json.store) && isObject(json.schema)) {
+    return { format: 'snapshot', records: Object.values(json.store), schema: json.schema as unknown as SerializedSchema, failures: [] }
+  }
+
+  // Records keyed by id, as older JSON exports wrote them. Without a schema
+  // they are assumed to be from the current tldraw version.
+  const values = Object.values(json)
+  if (values.length > 0 && values.every(isRecord)) {
+    return { format: 'records', records: values, schema: null, failures: [] }
+  }
+
+  throw new Error('The file is not a tldraw or Mentor Board export')
+}
+
+// Migrates each record to the store's schema and validates it. Failures are
+// collected per record, so one bad shape doesn't stop the rest importing.
+const migrateRecords = (store: TLStore, raw: RawBoardFile, failures: ImportFailure[]) => {
+  const persistedSchema = raw.schema ?? store.schema.serialize()
+  const records: TLRecord[] = []
+
+  raw.records.forEach((value, index) => {
+    if (!isRecord(value)) {
+      failures.push({ reason: `Item #${index + 1} is not a tldraw record` })
+      return
+    }
+    if (!CONTENT_TYPES.has(value.typeName)) return
+
+    const fail = (reason: string) => failures.push({ recordId: value.id, recordType: recordType(value), reason })
+
+    const migrated = store.schema.migratePersistedRecord(value, persistedSchema)
+    if (migrated.type === 'error') {
+      fail(MIGRATION_FAILURE_REASONS[migrated.reason])
+      return
+    }
+
+    try {
+      records.push(store.schema.validateRecord(store, migrated.value, 'initialize', null))
+    } catch (error) {
+      fail(errorMessage(error))
+    }
+  })
+
+  return records
+}
+
+// Drops shapes whose page or parent shape didn't import, and bindings to
+// shapes that didn't, until nothing is left dangling. existingIds are records
+// already in the board that imported shapes may be placed on.
+const dropOrphans = (records: TLRecord[], failures: ImportFailure[], existingIds: string[] = []) => {
+  const byId = new Map<string, TLRecord>(records.map(record => [record.id, record]))
+  const has = (id: string) => byId.has(id) || existingIds.includes(id)
+
+  let removed = true
+  while (removed) {
+    removed = false
+    byId.forEach(record => {
+      let missing: string | null = null
+      if (record.typeName === 'shape' && !has(record.parentId)) {
+        missing = 'Its page or parent shape could not be imported'
+      } else if (record.typeName === 'binding' && (!has(record.fromId) || !has(record.toId))) {
+        missing = 'A shape it connects could not be imported'
+      }
+
+      if (missing) {
+        byId.delete(record.id)
+        failures.push({ recordId: record.id, recordType: recordType(record), reason: missing })
+        removed = true
+      }
+    })
+  }
+
+  return [...byId.values()]
+}
+
+// The pages, shapes, bindings and assets of a stored board document, migrated
+// to the store's schema, for adding them to another board
+export const readDocumentRecords = (store: TLStore, document: BoardDocument, failures: ImportFailure[]) => {
+  const raw: RawBoardFile = {
+    format: 'board-document',
+    records: Object.values(document.storeSnapshot.store),
+    schema: document.storeSnapshot.schema,
+    failures: []
+  }
+  return dropOrphans(migrateRecords(store, raw, failures), failures)
+}
+
+const readJson = async (file: File) => {
+  try {
+    return JSON.parse(await file.text())
+  } catch {
+    throw new Error(`${file.name} is not a valid .tldr or JSON file`)
+  }
+}
+
+// Reads a .tldr or JSON export and brings its records up to the store's schema.
+// Records that can't be migrated or validated are left out and reported.
+const parseBoardFile = async (file: File, store: TLStore): Promise<ParsedBoardFile> => {
+  const json = await readJson(file)
+  const raw = readBoardFile(json)
+  const failures = [...raw.failures]
+  const records = dropOrphans(migrateRecords(store, raw, failures), failures)
+
+  const documentName = raw.records
+    .filter(isRecord)
+    .map(record => record.typeName === 'document' ? record.name?.trim() : undefined)
+    .find(Boolean)
+
+  return {
+    name: documentName || file.name.replace(/\.(tldr|json)$/i, '') || 'Imported board',
+    format: raw.format,
+    records,
+    failures
+  }
+}
+
+const dataUrlFileName = (asset: TLAsset, mimeType: string) => {
+  const name = 'name' in asset.props && asset.props.name ? asset.props.name : asset.id.replace('asset:', '')
+  return name.includes('.') ? name : `${name}.${mimeType.split('/')[1] || 'bin'}`
+}
+
+// .tldr files carry their images inline as data URLs. Each one is uploaded to
+// the board's storage and the asset pointed at the uploaded copy.
+export const uploadEmbeddedAssets = async (records: TLRecord[], upload: AssetUploader, failures: ImportFailure[]) => {
+  const result: TLRecord[] = []
+
+  for (const record of records) {
+    if (record.typeName !== 'asset' || record.type === 'bookmark' || !record.props.src?.startsWith('data:')) {
+      result.push(record)
+      continue
+    }
+
+    try {
+      const blob = await (await fetch(record.props.src)).blob()
+      const mimeType = record.props.mimeType || blob.type
+      const file = new File([blob], dataUrlFileName(record, mimeType), { type: mimeType })
+      const { src } = await upload(record, file)
+      result.push({ ...record, props: { ...record.props, src } } as TLAsset)
+    } catch (error) {
+      console.error('Error uploading imported asset:', error)
+      failures.push({ recordId: record.id, recordType: recordType(record), reason: `Image could not be uploaded: ${errorMessage(error)}` })
+    }
+  }
+
+  return result
+}
+
+// Gives every page, shape, binding and asset a fresh id, so importing into a
+// board - even the same file twice - can't overwrite what is already there
+export const remapRecordIds = (records: TLRecord[]): TLRecord[] => {
+  const ids = new Map<string, string>()
+  records.forEach(record => {
+    switch (record.typeName) {
+      case 'page':
+        ids.set(record.id, PageRecordType.createId())
+        break
+      case 'shape':
+        ids.set(record.id, createShapeId())
+        break
+      case 'binding':
+        ids.set(record.id, createBindingId())
+        break
+      case 'asset':
+        ids.set(record.id, AssetRecordType.createId())
+        break
+    }
+  })
+
+  const newId = <T extends string>(id: T) => (ids.get(id) ?? id) as T
+
+  return records.map(record => {
+    switch (record.typeName) {
+      case 'shape':
+        return {
+          ...record,
+          id: newId(record.id),
+          parentId: newId(record.parentId),
+          props: 'assetId' in record.props && record.props.assetId
+            ? { ...record.props, assetId: newId(record.props.assetId) }
+            : record.props
+        } as TLShape
+      case 'binding':
+        return { ...record, id: newId(record.id), fromId: newId(record.fromId), toId: newId(record.toId) } as TLBinding
+      default:
+        return { ...record, id: newId(record.id) } as TLRecord
+    }
+  })
+}
+
+const summarize = (parsed: ParsedBoardFile, records: TLRecord[]): BoardImportResult => ({
+  name: parsed.name,
+  format: parsed.format,
+  pageCount: records.filter(record => record.typeName === 'page').length,
+  shapeCount: records.filter(record => record.typeName === 'shape').length,
+  failures: parsed.failures
+})
+
+const assertSomethingImported = (parsed: ParsedBoardFile) => {
+  if (parsed.records.length === 0 && parsed.failures.length > 0) {
+    throw new Error(`Nothing in ${parsed.name} could be imported (${parsed.failures.length} records failed)`)
+  }
+}
+
+// Builds the document for a new board from an imported file. Embedded images
+// are uploaded into the new board's storage folder, so the board row can be
+// inserted with its final content.
+export const createBoardDocumentFromFile = async (
+  file: File,
+  boardId: string
+): Promise<{ document: BoardDocument; result: BoardImportResult }> => {
+  const store = createTLStore({ shapeUtils: defaultShapeUtils, bindingUtils: defaultBindingUtils })
+  const parsed = await parseBoardFile(file, store)
+  assertSomethingImported(parsed)
+
+  const records = await uploadEmbeddedAssets(parsed.records, createBoardAssetStore(boardId).upload, parsed.failures)
+
+  store.put([DocumentRecordType.create({ id: TLDOCUMENT_ID, name: parsed.name })])
+  if (!records.some(record => record.typeName === 'page')) {
+    store.put([PageRecordType.create({ id: PageRecordType.createId(), name: 'Page 1', index: 'a1' as IndexKey })])
+  }
+  store.put(records)
+
+  const result = summarize(parsed, records)
+
+  return {
+    document: {
+      version: BOARD_DOCUMENT_VERSION,
+      storeSnapshot: store.getStoreSnapshot(),
+      metadata: {
+        savedAt: new Date().toISOString(),
+        shapeCount: result.shapeCount,
+        saveType: 'manual'
+      }
+    },
+    result
+  }
+}
+
+// Adds an imported file to the open board as one undoable change. A file with
+// a single page is placed on the current page, beside what is already there;
+// a file with several pages adds them as new pages.
+export const importFileIntoBoard = async (editor: Editor, file: File): Promise<BoardImportResult> => {
+  const parsed = await parseBoardFile(file, editor.store)
+  assertSomethingImported(parsed)
+
+  const uploaded = await uploadEmbeddedAssets(
+    remapRecordIds(parsed.records),
+    (asset, assetFile) => editor.uploadAsset(asset, assetFile),
+    parsed.failures
+  )
+
+  const importedPages = uploaded
+    .filter((record): record is TLPage => record.typeName === 'page')
+    .sort((a, b) => (a.index < b.index ? -1 : a.index > b.index ? 1 : 0))
+
+  const currentPageId = editor.getCurrentPageId()
+  const onCurrentPage = importedPages.length === 1
+  const pageTargets = new Map<TLPageId, TLPageId>()
+  const newPages: TLPage[] = []
+
+  if (onCurrentPage) {
+    pageTargets.set(importedPages[0].id, currentPageId)
+  } else {
+    const existingNames = new Set(editor.getPages().map(page => page.name))
+    let index = editor.getPages().at(-1)?.index
+
+    importedPages.forEach(page => {
+      if (editor.getPages().length + newPages.length >= editor.options.maxPages) {
+        parsed.failures.push({ recordId: page.id, recordType: 'page', reason: `The board already has ${editor.options.maxPages} pages` })
+        return
+      }
+      index = getIndexAbove(index)
+      const name = existingNames.has(page.name) ? `${page.name} (imported)` : page.name
+      newPages.push({ ...page, name, index })
+      pageTargets.set(page.id, page.id)
+    })
+  }
+
+  // Shapes on the imported page go on top of the current page's shapes
+  const topLevelShapes = uploaded
+    .filter((record): record is TLShape => record.typeName === 'shape' && pageTargets.has(record.parentId as TLPageId))
+    .sort((a, b) => (a.index < b.index ? -1 : a.index > b.index ? 1 : 0))
+  const topLevelIndexes = onCurrentPage
+    ? getIndicesAbove(editor.getHighestIndexForParent(currentPageId), topLevelShapes.length)
+    : topLevelShapes.map(shape => shape.index)
+  const topLevel = new Map(topLevelShapes.map((shape, i) => [shape.id, topLevelIndexes[i]]))
+
+  const records = dropOrphans(
+    uploaded
+      .filter(record => record.typeName !== 'page')
+      .map((record): TLRecord => {
+        if (record.typeName !== 'shape' || !topLevel.has(record.id)) return record
+        return { ...record, parentId: pageTargets.get(record.parentId as TLPageId)!, index: topLevel.get(record.id)! }
+      })
+      .concat(newPages as TLRecord[]),
+    parsed.failures,
+    [currentPageId]
+  )
+
+  const existingBounds = onCurrentPage ? editor.getCurrentPageBounds() : undefined
+
+  editor.markHistoryStoppingPoint('import board')
+  editor.run(() => {
+    editor.store.put(records)
+
+    if (onCurrentPage) {
+      const shapeIds = records
+        .filter(record => record.typeName === 'shape' && topLevel.has(record.id))
+        .map(record => record.id as TLShapeId)
+      editor.select(...shapeIds)
+
+      const importedBounds = editor.getSelectionPageBounds()
+      if (existingBounds && importedBounds) {
+        editor.nudgeShapes(shapeIds, {
+          x: existingBounds.maxX + IMPORT_GAP - importedBounds.x,
+          y: existingBounds.y - importedBounds.y
+        })
+      }
+    } else if (newPages.length > 0) {
+      editor.setCurrentPage(newPages[0].id)
+    }
+  })
+
+  if (onCurrentPage) {
+    editor.zoomToSelection()
+  } else {
+    editor.zoomToFit()
+  }
+
+  return summarize(parsed, records)
+}
+
+export const describeImportFailure = (failure: ImportFailure) => {
+  const subject = [failure.recordType ?? 'item', failure.recordId ? `"${failure.recordId}"` : null]
+    .filter(Boolean)
+    .join(' ')
+
+  return `${subject} — ${failure.reason}`
+}
+
+// One-line summary of an import, with the first few failures for alerts
+export const describeImportResult = (result: BoardImportResult, maxFailures = 5) => {
+  const lines = [
+    `Imported ${result.shapeCount} shape${result.shapeCount === 1 ? '' : 's'}` +
+      (result.pageCount > 1 ? ` on ${result.pageCount} pages` : '') + ` from ${result.name}.`
+  ]
+
+  if (result.failures.length > 0) {
+    lines.push('', `${result.failures.length} item${result.failures.length === 1 ? '' : 's'} could not be imported:`)
+    result.failures.slice(0, maxFailures).forEach(failure => lines.push(`• ${describeImportFailure(failure)}`))
+    if (result.failures.length > maxFailures) {
+      lines.push(`…and ${result.failures.length - maxFailures} more`)
+    }
+  }
+
+  return lines.join('\n')
+}
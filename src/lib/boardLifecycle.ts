@@ -0,0 +1,140 @@
+import type { TLAsset } from 'tldraw'
+import { supabase } from './supabase'
+import type { Board, BoardSummary } from './supabase'
+import type { BoardDocument } from './boardDocument'
+import { fetchStoredBoard } from './boardPersistence'
+import { copyBoardThumbnail } from './boardThumbnails'
+import { postToSyncServer } from './sync'
+import { BOARD_FILES_BUCKET, TRASH_RETENTION_MS, boardFilesFolder, listBoardFiles } from '../../shared/boardFiles'
+
+export { TRASH_RETENTION_DAYS } from '../../shared/boardFiles'
+
+const trashExpiresAt = (board: Pick<Board, 'deleted_at'>) =>
+  board.deleted_at ? new Date(new Date(board.deleted_at).getTime() + TRASH_RETENTION_MS) : null
+
+export const daysLeftInTrash = (board: Pick<Board, 'deleted_at'>) => {
+  const expiresAt = trashExpiresAt(board)
+  if (!expiresAt) return null
+  return Math.max(0, Math.ceil((expiresAt.getTime() - Date.now()) / (24 * 60 * 60 * 1000)))
+}
+
+const updateBoard = async (boardId: string, changes: Partial<Pick<Board, 'archived_at' | 'deleted_at'>>) => {
+  const { error } = await supabase
+    .from('boards')
+    .update(changes)
+    .eq('id', boardId)
+
+  if (error) throw error
+}
+
+export const archiveBoard = (boardId: string) =>
+  updateBoard(boardId, { archived_at: new Date().toISOString() })
+
+export const unarchiveBoard = (boardId: string) =>
+  updateBoard(boardId, { archived_at: null })
+
+// Moves a board to the trash. Members lose access until it is restored.
+export const trashBoard = (boardId: string) =>
+  updateBoard(boardId, { deleted_at: new Date().toISOString() })
+
+export const restoreBoard = (boardId: string) =>
+  updateBoard(boardId, { deleted_at: null })
+
+// Copies the board's canvas assets into the new board's folder and points the
+// document at the copies, so purging the original doesn't break the duplicate
+const copyBoardAssets = async (document: BoardDocument, fromBoardId: string, toBoardId: string): Promise<BoardDocument> => {
+  const fromFolder = `${boardFilesFolder(fromBoardId)}/`
+  const store = { ...document.storeSnapshot.store }
+
+  for (const record of Object.values(store)) {
+    if (record.typeName !== 'asset' || typeof record.props.src !== 'string') continue
+
+    const marker = `/object/public/${BOARD_FILES_BUCKET}/`
+    const pathStart = record.props.src.indexOf(marker)
+    if (pathStart === -1) continue
+
+    const path = decodeURIComponent(record.props.src.slice(pathStart + marker.length).split('?')[0])
+    if (!path.startsWith(fromFolder)) continue
+
+    const newPath = `${boardFilesFolder(toBoardId)}/${path.slice(fromFolder.length)}`
+    const { error } = await supabase.storage.from(BOARD_FILES_BUCKET).copy(path, newPath)
+    if (error) throw error
+
+    const { data } = supabase.storage.from(BOARD_FILES_BUCKET).getPublicUrl(newPath)
+    store[record.id] = { ...record, props: { ...record.props, src: data.publicUrl } } as TLAsset
+  }
+
+  return { ...document, storeSnapshot: { ...document.storeSnapshot, store } }
+}
+
+// Copies a board's current content (checkpoint plus logged changes), details and
+// files into a new board owned by userId. Chats, members and history stay behind.
+export const duplicateBoard = async (board: BoardSummary, userId: string): Promise<Board> => {
+  const stored = await fetchStoredBoard(board.id)
+  const boardId = crypto.randomUUID()
+
+  const document = stored.document
+    ? await copyBoardAssets(stored.document, board.id, boardId)
+    : null
+
+  const { data, error } = await supabase
+    .from('boards')
+    .insert({
+      id: boardId,
+      name: `${board.name} (copy)`,
+      description: board.description || null,
+      user_id: userId,
+      board_data: document
+        ? { ...document, metadata: { ...document.metadata, savedAt: new Date().toISOString() } }
+        : {},
+      is_public: false,
+      tags: board.tags || [],
+      // Folders belong to their owner, so copies of shared boards start at the top level
+      folder_id: board.user_id === userId ? board.folder_id ?? null : null
+    })
+    .select()
+    .single()
+
+  if (error) throw error
+
+  await copyBoardThumbnail(board, boardId)
+    .catch(thumbnailError => console.error('Error copying board thumbnail:', thumbnailError))
+
+  return data
+}
+
+// Removes every file stored under a board's folder. Returns how many there were.
+export const deleteBoardFiles = async (boardId: string) => {
+  const paths = await listBoardFiles(supabase, boardId)
+  if (paths.length > 0) {
+    const { error } = await supabase.storage.from(BOARD_FILES_BUCKET).remove(paths)
+    if (error) throw error
+  }
+  return paths.length
+}
+
+// Deletes a board in the trash for good. The sync server does it, the same way it
+// purges expired boards, so the board's room state goes too (server/trash.ts).
+export const purgeBoard = async (boardId: string) => {
+  const response = await postToSyncServer(`/purge/${encodeURIComponent(boardId)}`)
+  if (!response.ok) throw new Error(`The sync server could not delete the board (${response.status})`)
+  console.log(`🗑️ Purged board ${boardId}`)
+}
+
+// Empties the owner's trash now. Boards left in it are purged by the sync server once
+// they have been there for TRASH_RETENTION_DAYS (server/trash.ts).
+export const emptyTrash = async (userId: string) => {
+  const { data, error } = await supabase
+    .from('boards')
+    .select('id')
+    .eq('user_id', userId)
+    .not('deleted_at', 'is', null)
+
+  if (error) throw error
+
+  // One at a time - each board's files are listed and removed separately
+  for (const board of data || []) {
+    await purgeBoard(board.id)
+  }
+  return (data || []).length
+}
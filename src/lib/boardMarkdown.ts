@@ -0,0 +1,274 @@
+import { strToU8, zipSync } from 'fflate'
+import type { Editor, TLFrameShape, TLGeoShape, TLImageShape, TLNoteShape, TLRichText, TLShape, TLTextShape } from 'tldraw'
+import { supabase } from './supabase'
+import { getPageShapes, getPagesInScope, sortInReadingOrder } from './boardPages'
+import type { PageScope } from './boardPages'
+
+export interface MarkdownExportOptions {
+  title: string
+  scope: PageScope
+  boardId: string
+  // Zip the notes with the images they show, instead of linking to them
+  bundleImages: boolean
+}
+
+// Loose view of tldraw's rich text (a TipTap document)
+interface RichTextNode {
+  type: string
+  text?: string
+  content?: RichTextNode[]
+  attrs?: Record<string, unknown>
+  marks?: { type: string; attrs?: Record<string, unknown> }[]
+}
+
+// A paragraph, heading or list item of the output. List items are written
+// without blank lines between them, so consecutive ones form one list.
+interface MarkdownBlock {
+  text: string
+  listItem: boolean
+}
+
+interface ExportedImage {
+  src: string
+  // Path inside the zip, when images are bundled
+  path: string | null
+}
+
+// Paragraphs written as "• item" (as the built-in templates do) become list items
+const BULLET_PREFIX = /^\s*[\u2022\u25e6\u25aa\u2023\-*]\s+/
+
+// Text shapes in the two largest sizes holding a single line read as headings
+const HEADING_TEXT_SIZES = ['l', 'xl']
+const MAX_HEADING_LENGTH = 80
+
+const MAX_HEADING_LEVEL = 6
+
+const escapeMarkdown = (text: string) =>
+  text.replace(/([\\`*_[\]])/g, '\\$1').replace(/^(\s*)(#|>|\d+\.)/, '$1\\$2')
+
+const heading = (level: number, text: string) =>
+  `${'#'.repeat(Math.min(level, MAX_HEADING_LEVEL))} ${text}`
+
+const indent = (text: string, prefix: string) =>
+  text.split('\n').map(line => (line ? prefix + line : line)).join('\n')
+
+const joinBlocks = (blocks: MarkdownBlock[]) =>
+  blocks.reduce((markdown, block, i) => {
+    if (i === 0) return block.text
+    const separator = block.listItem && blocks[i - 1].listItem ? '\n' : '\n\n'
+    return markdown + separator + block.text
+  }, '')
+
+const inlineMarkdown = (nodes: RichTextNode[] = []): string =>
+  nodes.map(node => {
+    if (node.type === 'hardBreak') return '  \n'
+    if (node.type !== 'text') return inlineMarkdown(node.content)
+
+    let text = escapeMarkdown(node.text ?? '')
+    if (!text.trim()) return text
+
+    node.marks?.forEach(mark => {
+      switch (mark.type) {
+        case 'code':
+          text = `\`${node.text}\``
+          break
+        case 'bold':
+          text = `**${text}**`
+          break
+        case 'italic':
+          text = `_${text}_`
+          break
+        case 'strike':
+          text = `~~${text}~~`
+          break
+        case 'link':
+          if (typeof mark.attrs?.href === 'string') text = `[${text}](${mark.attrs.href})`
+          break
+      }
+    })
+    return text
+  }).join('')
+
+// Markdown for a rich text document. Headings inside it are placed below
+// `level`, the heading level of the section it is in.
+const richTextBlocks = (nodes: RichTextNode[] = [], level: number): MarkdownBlock[] =>
+  nodes.flatMap((node): MarkdownBlock[] => {
+    switch (node.type) {
+      case 'paragraph': {
+        const text = inlineMarkdown(node.content).trim()
+        if (!text) return []
+        return BULLET_PREFIX.test(text)
+          ? [{ text: `- ${text.replace(BULLET_PREFIX, '')}`, listItem: true }]
+          : [{ text, listItem: false }]
+      }
+      case 'heading': {
+        const text = inlineMarkdown(node.content).trim()
+        const headingLevel = typeof node.attrs?.level === 'number' ? node.attrs.level : 1
+        return text ? [{ text: heading(level + headingLevel - 1, text), listItem: false }] : []
+      }
+      case 'bulletList':
+      case 'orderedList':
+        return (node.content ?? []).map((item, i) => {
+          const marker = node.type === 'orderedList' ? `${i + 1}. ` : '- '
+          const body = joinBlocks(richTextBlocks(item.content, level))
+          return { text: marker + indent(body, ' '.repeat(marker.length)).slice(marker.length), listItem: true }
+        })
+      case 'blockquote':
+        return [{ text: indent(joinBlocks(richTextBlocks(node.content, level)), '> '), listItem: false }]
+      case 'codeBlock':
+        return [{ text: `\`\`\`\n${(node.content ?? []).map(child => child.text ?? '').join('')}\n\`\`\``, listItem: false }]
+      case 'horizontalRule':
+        return [{ text: '---', listItem: false }]
+      default:
+        return richTextBlocks(node.content, level)
+    }
+  })
+
+const richTextContent = (richText: TLRichText) => (richText as RichTextNode).content
+
+const plainText = (blocks: MarkdownBlock[]) => blocks.length === 1 && !blocks[0].listItem && !blocks[0].text.includes('\n')
+
+// Collects the images the notes show, and where the Markdown points at them
+class ImageCollector {
+  readonly images = new Map<string, ExportedImage>()
+  private readonly usedPaths = new Set<string>()
+
+  constructor(private readonly bundle: boolean, private readonly names: Map<string, string>) {}
+
+  add(src: string, fallbackName: string) {
+    const existing = this.images.get(src)
+    if (existing) return existing.path ?? src
+
+    let path: string | null = null
+    if (this.bundle) {
+      const name = (this.names.get(src) ?? fallbackName).replace(/[^\w.-]+/g, '-')
+      const [base, extension] = name.includes('.') ? [name.slice(0, name.lastIndexOf('.')), name.slice(name.lastIndexOf('.'))] : [name, '']
+      path = `images/${base}${extension}`
+      for (let i = 2; this.usedPaths.has(path); i++) path = `images/${base}-${i}${extension}`
+      this.usedPaths.add(path)
+    }
+
+    this.images.set(src, { src, path })
+    return path ?? src
+  }
+}
+
+const shapeBlocks = (editor: Editor, shape: TLShape, level: number, images: ImageCollector): MarkdownBlock[] => {
+  const children = () => sortInReadingOrder(
+    editor,
+    editor.getSortedChildIdsForParent(shape.id).map(id => editor.getShape(id)).filter((child): child is TLShape => !!child)
+  )
+
+  switch (shape.type) {
+    case 'frame': {
+      const frame = shape as TLFrameShape
+      return [
+        { text: heading(level, escapeMarkdown(frame.props.name || 'Frame')), listItem: false },
+        ...children().flatMap(child => shapeBlocks(editor, child, level + 1, images))
+      ]
+    }
+    case 'group':
+      return children().flatMap(child => shapeBlocks(editor, child, level, images))
+    case 'text': {
+      const text = shape as TLTextShape
+      const blocks = richTextBlocks(richTextContent(text.props.richText), level)
+      if (plainText(blocks) && HEADING_TEXT_SIZES.includes(text.props.size) && blocks[0].text.length <= MAX_HEADING_LENGTH) {
+        return [{ text: heading(level, blocks[0].text), listItem: false }]
+      }
+      return blocks
+    }
+    case 'note': {
+      // Each sticky note is a list item; anything after its first line is nested under it
+      const note = shape as TLNoteShape
+      const body = joinBlocks(richTextBlocks(richTextContent(note.props.richText), level))
+      return body ? [{ text: `- ${indent(body, '  ').trimStart().replace(BULLET_PREFIX, '')}`, listItem: true }] : []
+    }
+    case 'geo': {
+      // Labelled boxes are usually section titles or cards
+      const geo = shape as TLGeoShape
+      const blocks = richTextBlocks(richTextContent(geo.props.richText), level)
+      return plainText(blocks) ? [{ text: `**${blocks[0].text}**`, listItem: false }] : blocks
+    }
+    case 'image': {
+      const image = shape as TLImageShape
+      const asset = image.props.assetId ? editor.getAsset(image.props.assetId) : undefined
+      if (!asset || asset.type !== 'image' || !asset.props.src) return []
+
+      const name = asset.props.name || `${asset.id.replace('asset:', '')}.png`
+      const alt = escapeMarkdown(image.props.altText || name)
+      const target = images.add(asset.props.src, name)
+      // Embedded images can only be included in a bundle
+      return target.startsWith('data:') ? [] : [{ text: `![${alt}](${encodeURI(target)})`, listItem: false }]
+    }
+    default:
+      return []
+  }
+}
+
+// File names of the images uploaded to the board, by their URL
+const fetchBoardImageNames = async (boardId: string) => {
+  const { data, error } = await supabase
+    .from('board_images')
+    .select('filename, storage_url')
+    .eq('board_id', boardId)
+
+  if (error) throw error
+  return new Map((data || []).map(image => [image.storage_url as string, image.filename as string]))
+}
+
+// Writes the board's text, sticky notes, labelled shapes and frames as Markdown:
+// frames become sections, and everything is in reading order within its frame.
+// With bundleImages the result is a zip of the notes plus an images/ folder.
+export const exportBoardMarkdown = async (editor: Editor, options: MarkdownExportOptions): Promise<Blob> => {
+  const names = options.bundleImages
+    ? await fetchBoardImageNames(options.boardId).catch(error => {
+        console.error('Error loading board image names:', error)
+        return new Map<string, string>()
+      })
+    : new Map<string, string>()
+  const images = new ImageCollector(options.bundleImages, names)
+
+  const exportedOn = new Date().toLocaleDateString(undefined, { dateStyle: 'long' })
+  const blocks: MarkdownBlock[] = [
+    { text: heading(1, escapeMarkdown(options.title)), listItem: false },
+    { text: `_Exported from The Mentor Board on ${exportedOn}_`, listItem: false }
+  ]
+
+  const pages = getPagesInScope(editor, options.scope).filter(page => getPageShapes(editor, page.id).length > 0)
+  const multiplePages = pages.length > 1
+
+  pages.forEach(page => {
+    if (multiplePages) blocks.push({ text: heading(2, escapeMarkdown(page.name)), listItem: false })
+
+    const topLevel = sortInReadingOrder(
+      editor,
+      editor.getSortedChildIdsForParent(page.id).map(id => editor.getShape(id)).filter((shape): shape is TLShape => !!shape)
+    )
+    topLevel.forEach(shape => blocks.push(...shapeBlocks(editor, shape, multiplePages ? 3 : 2, images)))
+  })
+
+  let markdown = joinBlocks(blocks) + '\n'
+  if (!options.bundleImages) {
+    return new Blob([markdown], { type: 'text/markdown' })
+  }
+
+  const files: Record<string, Uint8Array> = {}
+  for (const image of images.images.values()) {
+    if (!image.path) continue
+    try {
+      const response = await fetch(image.src)
+      if (!response.ok) throw new Error(`${response.status} ${response.statusText}`)
+      files[image.path] = new Uint8Array(await response.arrayBuffer())
+    } catch (error) {
+      // Images that can't be downloaded stay linked to where they are stored
+      console.error(`Error downloading ${image.src} for the notes bundle:`, error)
+      if (!image.src.startsWith('data:')) {
+        markdown = markdown.split(`(${encodeURI(image.path)})`).join(`(${encodeURI(image.src)})`)
+      }
+    }
+  }
+  files['notes.md'] = strToU8(markdown)
+
+  console.log(`🗜️ Bundled the notes with ${Object.keys(files).length - 1} images`)
+  return new Blob([zipSync(files)], { type: 'application/zip' })
+}
@@ -0,0 +1,43 @@
+import { supabase } from './supabase'
+import { postToSyncServer } from './sync'
+import type { BoardMember, BoardRole } from './supabase'
+
+export const BOARD_ROLES: { value: BoardRole; label: string; description: string }[] = [
+  { value: 'owner', label: 'Owner', description: 'Edits the board and manages who has access' },
+  { value: 'mentor', label: 'Mentor', description: 'Edits the board' },
+  { value: 'mentee', label: 'Mentee', description: 'Edits the board' },
+  { value: 'viewer', label: 'Viewer', description: 'Can only look at the board' },
+]
+
+export const boardRoleLabel = (role: BoardRole) =>
+  BOARD_ROLES.find(option => option.value === role)?.label ?? role
+
+export const canEditWithRole = (role: BoardRole | null) =>
+  role === 'owner' || role === 'mentor' || role === 'mentee'
+
+// The signed-in user's role on a board, or null without access
+export const fetchBoardRole = async (boardId: string): Promise<BoardRole | null> => {
+  const { data, error } = await supabase.rpc('board_role', { board_uuid: boardId })
+
+  if (error) throw error
+  return (data as BoardRole | null) ?? null
+}
+
+// Invites someone by email. Inviting an existing member again changes their role.
+export const inviteBoardMember = async (boardId: string, email: string, role: BoardRole): Promise<BoardMember> => {
+  const { data, error } = await supabase.rpc('invite_board_member', {
+    board_uuid: boardId,
+    member_email: email,
+    member_role: role
+  })
+
+  if (error) throw error
+  return data as BoardMember
+}
+
+// Emails an invited member a link to the board - an invite to sign up when they have
+// no account yet. Sent by the sync server, which holds the service role key.
+export const sendBoardInviteEmail = async (boardId: string, email: string) => {
+  const response = await postToSyncServer(`/invite-email/${encodeURIComponent(boardId)}`, { email })
+  if (!response.ok) throw new Error(`The invite email could not be sent (${response.status})`)
+}
@@ -0,0 +1,100 @@
+import { PageRecordType } from 'tldraw'
+import type { Editor, TLPage, TLPageId, TLRecord, TLShape, TLShapeId } from 'tldraw'
+
+// Whether an action applies to the page being viewed or to the whole board
+export type PageScope = 'current' | 'all'
+
+// Every shape on a page, including shapes nested inside frames and groups
+export const getPageShapes = (editor: Editor, pageId: TLPageId): TLShape[] =>
+  [...editor.getPageShapeIds(pageId)]
+    .map(id => editor.getShape(id))
+    .filter((shape): shape is TLShape => !!shape)
+
+// Whether any page of the board has a shape on it
+export const boardHasShapes = (editor: Editor) =>
+  editor.getPages().some(page => editor.getPageShapeIds(page.id).size > 0)
+
+export const getPagesInScope = (editor: Editor, scope: PageScope): TLPage[] =>
+  scope === 'all' ? editor.getPages() : [editor.getCurrentPage()]
+
+// Finds a page by id or by name (case-insensitive)
+export const findPage = (editor: Editor, nameOrId: string): TLPage | undefined => {
+  const wanted = nameOrId.trim().toLowerCase()
+  return editor.getPages().find(page => page.id === nameOrId || page.name.trim().toLowerCase() === wanted)
+}
+
+// Finds a page by name, adding it to the end of the page list when missing
+export const findOrCreatePage = (editor: Editor, name: string): TLPage => {
+  const existing = findPage(editor, name)
+  if (existing) return existing
+
+  const id = PageRecordType.createId()
+  editor.createPage({ id, name: name.trim() })
+
+  const page = editor.getPage(id)
+  if (!page) {
+    throw new Error(`Could not add page "${name}" - the board already has ${editor.options.maxPages} pages`)
+  }
+  return page
+}
+
+// Runs fn with pageId as the current page, then switches back. tldraw only
+// renders - and so only exports - shapes on the current page.
+export const withPage = async <T>(editor: Editor, pageId: TLPageId, fn: () => Promise<T>): Promise<T> => {
+  const previousPageId = editor.getCurrentPageId()
+  if (previousPageId === pageId) return fn()
+
+  editor.setCurrentPage(pageId)
+  try {
+    return await fn()
+  } finally {
+    editor.setCurrentPage(previousPageId)
+  }
+}
+
+// Store records for the given pages only: document-level records and assets
+// are kept, other pages and everything on them are dropped
+export const serializePages = (editor: Editor, pageIds: TLPageId[]) => {
+  const pages = new Set<string>(pageIds)
+  const shapeIds = new Set<TLShapeId>(pageIds.flatMap(pageId => [...editor.getPageShapeIds(pageId)]))
+
+  return Object.fromEntries(
+    Object.entries(editor.store.serialize()).filter(([, record]: [string, TLRecord]) => {
+      switch (record.typeName) {
+        case 'page':
+          return pages.has(record.id)
+        case 'shape':
+          return shapeIds.has(record.id)
+        case 'binding':
+          return shapeIds.has(record.fromId) && shapeIds.has(record.toId)
+        default:
+          return true
+      }
+    })
+  )
+}
+
+// Shapes in the order a page is read: rows from top to bottom, left to right
+// within a row. A shape starting above the middle of the current row joins it.
+export const sortInReadingOrder = <T extends TLShape>(editor: Editor, shapes: T[]): T[] => {
+  const placed = shapes
+    .map(shape => ({ shape, bounds: editor.getShapePageBounds(shape) ?? { x: shape.x, y: shape.y, h: 0 } }))
+    .sort((a, b) => a.bounds.y - b.bounds.y)
+
+  const rows: (typeof placed)[] = []
+  placed.forEach(item => {
+    const row = rows[rows.length - 1]
+    const rowBottom = row ? Math.min(...row.map(({ bounds }) => bounds.y + bounds.h / 2)) : -Infinity
+    if (row && item.bounds.y < rowBottom) {
+      row.push(item)
+    } else {
+      rows.push([item])
+    }
+  })
+
+  return rows.flatMap(row => row.sort((a, b) => a.bounds.x - b.bounds.x).map(({ shape }) => shape))
+}
+
+// File-name friendly version of a page name
+export const pageFileSlug = (page: Pick<TLPage, 'name'>) =>
+  page.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'page'
@@ -0,0 +1,454 @@
+import { jsPDF } from 'jspdf'
+import { svg2pdf } from 'svg2pdf.js'
+import type { Editor, TLFrameShape, TLShapeId } from 'tldraw'
+import { getPageShapes, getPagesInScope, sortInReadingOrder, withPage } from './boardPages'
+import type { PageScope } from './boardPages'
+
+export type PdfLayout = 'frames' | 'tiles'
+export type PdfPageSize = 'a4' | 'letter' | 'a3'
+export type PdfOrientation = 'portrait' | 'landscape'
+
+export interface PdfExportOptions {
+  title: string
+  scope: PageScope
+  // 'frames': one PDF page per frame, 'tiles': each board page at 100%, split across PDF pages
+  layout: PdfLayout
+  pageSize: PdfPageSize
+  orientation: PdfOrientation
+  titlePage: boolean
+}
+
+export const PDF_PAGE_SIZES: { value: PdfPageSize; label: string }[] = [
+  { value: 'a4', label: 'A4' },
+  { value: 'letter', label: 'US Letter' },
+  { value: 'a3', label: 'A3' },
+]
+
+const SVG_NS = 'http://www.w3.org/2000/svg'
+
+// PDF sizes are in points, tldraw's in CSS pixels (96 px = 72 pt)
+const PX_TO_PT = 0.75
+const MARGIN = 36
+const HEADING_HEIGHT = 24
+const FOOTER_HEIGHT = 18
+const EXPORT_PADDING = 16
+// Small frames are enlarged to fill the page, up to twice their size
+const MAX_FIT_SCALE = PX_TO_PT * 2
+// Boards are tiled at 100%, or smaller when that would take more pages than this
+const MAX_TILES = 48
+// Resolution of anything that has to be drawn as an image
+const RASTER_SCALE = 3
+const MUTED_TEXT = '#6b7280'
+
+// Characters the built-in PDF fonts (WinAnsi encoding) can draw. Text with
+// anything else - emoji, most non-Latin scripts - is drawn as an image.
+const STANDARD_FONT_TEXT = /^[\s -~\u00a0-\u00ff\u0152\u0153\u0160\u0161\u0178\u017d\u017e\u0192\u02c6\u02dc\u2013\u2014\u2018-\u201a\u201c-\u201e\u2020-\u2022\u2026\u2030\u2039\u203a\u20ac\u2122]*$/
+
+// tldraw pads some labels with zero-width spaces
+const stripZeroWidth = (text: string) => text.replace(/\u200b/g, '')
+
+const hasStandardFontText = (text: string) => STANDARD_FONT_TEXT.test(stripZeroWidth(text))
+
+interface PdfSection {
+  heading: string
+  shapeIds: TLShapeId[]
+  tiled: boolean
+}
+
+interface TextRun {
+  text: string
+  x: number
+  top: number
+  right: number
+  height: number
+  fontSize: number
+  bold: boolean
+  italic: boolean
+  color: string
+}
+
+interface Box {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+const loadImage = (src: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const img = new Image()
+  img.onload = () => resolve(img)
+  img.onerror = () => reject(new Error('Could not render part of the board'))
+  img.src = src
+})
+
+const blobToDataUrl = (blob: Blob) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader()
+  reader.onload = () => resolve(reader.result as string)
+  reader.onerror = () => reject(reader.error)
+  reader.readAsDataURL(blob)
+})
+
+const offscreenHost = () => {
+  const host = document.createElement('div')
+  host.style.cssText = 'position: fixed; left: -100000px; top: 0; pointer-events: none;'
+  document.body.appendChild(host)
+  return host
+}
+
+// Draws one element of an exported SVG, with the SVG's fonts and styles, to a PNG
+const rasterizeElement = async (svg: SVGSVGElement, element: Element, box: Box) => {
+  const part = document.createElementNS(SVG_NS, 'svg')
+  part.setAttribute('xmlns', SVG_NS)
+  part.setAttribute('viewBox', `${box.x} ${box.y} ${box.width} ${box.height}`)
+  part.setAttribute('width', String(box.width * RASTER_SCALE))
+  part.setAttribute('height', String(box.height * RASTER_SCALE))
+  svg.querySelectorAll(':scope > defs, :scope > style').forEach(node => part.appendChild(node.cloneNode(true)))
+
+  const clone = element.cloneNode(true) as Element
+  clone.removeAttribute('transform')
+  part.appendChild(clone)
+
+  const img = await loadImage('data:image/svg+xml;charset=utf-8,' + encodeURIComponent(new XMLSerializer().serializeToString(part)))
+  const canvas = document.createElement('canvas')
+  canvas.width = Math.ceil(box.width * RASTER_SCALE)
+  canvas.height = Math.ceil(box.height * RASTER_SCALE)
+  canvas.getContext('2d')?.drawImage(img, 0, 0, canvas.width, canvas.height)
+  return canvas.toDataURL('image/png')
+}
+
+const replaceWithImage = async (svg: SVGSVGElement, element: Element, box: Box) => {
+  const image = document.createElementNS(SVG_NS, 'image')
+  image.setAttribute('href', await rasterizeElement(svg, element, box))
+  image.setAttribute('x', String(box.x))
+  image.setAttribute('y', String(box.y))
+  image.setAttribute('width', String(box.width))
+  image.setAttribute('height', String(box.height))
+  const transform = element.getAttribute('transform')
+  if (transform) image.setAttribute('transform', transform)
+  element.replaceWith(image)
+}
+
+// Lays out the HTML inside a foreignObject and returns its text line by line,
+// split wherever the style changes, in the foreignObject's coordinates
+const measureTextRuns = (foreignObject: SVGForeignObjectElement): TextRun[] => {
+  const host = offscreenHost()
+  host.style.width = `${foreignObject.width.baseVal.value}px`
+  host.style.height = `${foreignObject.height.baseVal.value}px`
+  foreignObject.childNodes.forEach(node => host.appendChild(node.cloneNode(true)))
+
+  // List markers are drawn by CSS, so they are turned into text to survive
+  host.querySelectorAll('li').forEach(item => {
+    const list = item.parentElement
+    const marker = list?.tagName === 'OL' ? `${[...list.children].indexOf(item) + 1}. ` : '• '
+    item.style.listStyle = 'none'
+    ;(item.querySelector('p') ?? item).prepend(document.createTextNode(marker))
+  })
+
+  try {
+    const origin = host.getBoundingClientRect()
+    const runs: TextRun[] = []
+    const range = document.createRange()
+    const walker = document.createTreeWalker(host, NodeFilter.SHOW_TEXT)
+
+    for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+      const style = getComputedStyle(node.parentElement!)
+      const fontSize = parseFloat(style.fontSize)
+      const bold = Number(style.fontWeight) >= 600 || style.fontWeight === 'bold'
+      const italic = style.fontStyle === 'italic'
+      const text = node.textContent ?? ''
+
+      for (let i = 0; i < text.length; i++) {
+        range.setStart(node, i)
+        range.setEnd(node, i + 1)
+        const rect = range.getClientRects()[0]
+        if (!rect) continue
+
+        const top = rect.top - origin.top
+        const last = runs[runs.length - 1]
+        const continuesRun = last &&
+          Math.abs(last.top - top) < 1 &&
+          last.fontSize === fontSize && last.bold === bold && last.italic === italic && last.color === style.color
+
+        if (continuesRun) {
+          last.text += text[i]
+          last.right = rect.right - origin.left
+        } else {
+          runs.push({
+            text: text[i],
+            x: rect.left - origin.left,
+            top,
+            right: rect.right - origin.left,
+            height: rect.height,
+            fontSize,
+            bold,
+            italic,
+            color: style.color
+          })
+        }
+      }
+    }
+
+    return runs
+  } finally {
+    host.remove()
+  }
+}
+
+// Swaps a foreignObject for SVG text elements in one of the built-in PDF fonts
+const replaceWithText = (foreignObject: SVGForeignObjectElement) => {
+  const group = document.createElementNS(SVG_NS, 'g')
+  const transform = foreignObject.getAttribute('transform')
+  if (transform) group.setAttribute('transform', transform)
+
+  const originX = foreignObject.x.baseVal.value
+  const originY = foreignObject.y.baseVal.value
+
+  measureTextRuns(foreignObject).forEach(run => {
+    const content = run.text.trimEnd()
+    if (!content.trim()) return
+
+    const text = document.createElementNS(SVG_NS, 'text')
+    text.setAttribute('x', String(originX + run.x))
+    // Baseline sits roughly a third of the font size below the middle of the line
+    text.setAttribute('y', String(originY + run.top + run.height / 2 + run.fontSize * 0.35))
+    text.setAttribute('font-family', 'helvetica')
+    text.setAttribute('font-size', String(run.fontSize))
+    text.setAttribute('font-weight', run.bold ? 'bold' : 'normal')
+    text.setAttribute('font-style', run.italic ? 'italic' : 'normal')
+    text.setAttribute('fill', run.color)
+    text.setAttribute('xml:space', 'preserve')
+    text.textContent = content
+    group.appendChild(text)
+  })
+
+  foreignObject.replaceWith(group)
+}
+
+// svg2pdf can't draw HTML, which tldraw uses for the text in shapes. Text the
+// PDF fonts can show becomes SVG text - real, selectable text in the PDF - and
+// anything else is swapped for an image of it.
+const prepareSvgForPdf = async (svg: SVGSVGElement) => {
+  // Measuring SVG text needs the SVG to be laid out
+  const host = offscreenHost()
+  host.appendChild(svg)
+
+  try {
+    for (const foreignObject of [...svg.querySelectorAll('foreignObject')]) {
+      if (hasStandardFontText(foreignObject.textContent ?? '')) {
+        replaceWithText(foreignObject)
+      } else {
+        await replaceWithImage(svg, foreignObject, {
+          x: foreignObject.x.baseVal.value,
+          y: foreignObject.y.baseVal.value,
+          width: foreignObject.width.baseVal.value,
+          height: foreignObject.height.baseVal.value
+        })
+      }
+    }
+
+    for (const text of [...svg.querySelectorAll('text')]) {
+      if (hasStandardFontText(text.textContent ?? '')) {
+        text.querySelectorAll('tspan').forEach(span => {
+          if (span.textContent) span.textContent = stripZeroWidth(span.textContent)
+        })
+        continue
+      }
+
+      const bounds = text.getBBox()
+      await replaceWithImage(svg, text, { x: bounds.x - 2, y: bounds.y - 2, width: bounds.width + 4, height: bounds.height + 4 })
+    }
+  } finally {
+    host.remove()
+  }
+}
+
+interface TextOptions {
+  fontSize: number
+  color?: string
+  bold?: boolean
+  align?: 'left' | 'center' | 'right'
+  maxWidth?: number
+}
+
+// Writes a line of text with its top at y. Text the built-in fonts can't
+// show is drawn as an image instead.
+const drawText = (doc: jsPDF, text: string, x: number, y: number, options: TextOptions) => {
+  const { fontSize, color = '#000000', bold = false, align = 'left', maxWidth } = options
+
+  if (hasStandardFontText(text)) {
+    doc.setFont('helvetica', bold ? 'bold' : 'normal')
+    doc.setFontSize(fontSize)
+    doc.setTextColor(color)
+    doc.text(stripZeroWidth(text), x, y, { align, baseline: 'top', maxWidth })
+    return
+  }
+
+  const font = `${bold ? 'bold ' : ''}${fontSize * RASTER_SCALE}px Helvetica, Arial, sans-serif`
+  const canvas = document.createElement('canvas')
+  const ctx = canvas.getContext('2d')
+  if (!ctx) return
+
+  ctx.font = font
+  canvas.width = Math.ceil(ctx.measureText(text).width) || 1
+  canvas.height = Math.ceil(fontSize * 1.3 * RASTER_SCALE)
+  // Resizing the canvas resets its state
+  ctx.font = font
+  ctx.fillStyle = color
+  ctx.textBaseline = 'top'
+  ctx.fillText(text, 0, 0)
+
+  let width = canvas.width / RASTER_SCALE
+  let height = canvas.height / RASTER_SCALE
+  if (maxWidth && width > maxWidth) {
+    height *= maxWidth / width
+    width = maxWidth
+  }
+  const left = align === 'center' ? x - width / 2 : align === 'right' ? x - width : x
+  doc.addImage(canvas.toDataURL('image/png'), 'PNG', left, y, width, height)
+}
+
+// What goes on the PDF pages for the current board page
+const pageSections = (editor: Editor, layout: PdfLayout, heading: string, framePrefix: string): PdfSection[] => {
+  const pageId = editor.getCurrentPageId()
+  const topLevel = editor.getCurrentPageShapesSorted().filter(shape => shape.parentId === pageId)
+  if (topLevel.length === 0) return []
+
+  const frames = topLevel.filter((shape): shape is TLFrameShape => shape.type === 'frame')
+  if (layout === 'tiles' || frames.length === 0) {
+    return [{ heading, shapeIds: topLevel.map(shape => shape.id), tiled: layout === 'tiles' }]
+  }
+
+  const sections: PdfSection[] = sortInReadingOrder(editor, frames).map(frame => ({
+    heading: framePrefix + (frame.props.name || 'Frame'),
+    shapeIds: [frame.id],
+    tiled: false
+  }))
+
+  // Anything outside the frames gets a page of its own after them
+  const loose = topLevel.filter(shape => shape.type !== 'frame')
+  if (loose.length > 0) {
+    sections.push({ heading: `${framePrefix}Outside frames`, shapeIds: loose.map(shape => shape.id), tiled: false })
+  }
+
+  return sections
+}
+
+// Builds the PDF in the browser: an optional title page, then each board page
+// in scope as frames or tiles. Content is drawn as vectors where svg2pdf can
+// manage it, falling back to an image of the section when it can't.
+export const exportBoardPdf = async (editor: Editor, options: PdfExportOptions): Promise<Blob> => {
+  const doc = new jsPDF({ unit: 'pt', format: options.pageSize, orientation: options.orientation })
+  doc.setDocumentProperties({ title: options.title, creator: 'The Mentor Board' })
+
+  const pageWidth = doc.internal.pageSize.getWidth()
+  const pageHeight = doc.internal.pageSize.getHeight()
+  const contentTop = MARGIN + HEADING_HEIGHT
+  const contentWidth = pageWidth - MARGIN * 2
+  const contentHeight = pageHeight - contentTop - MARGIN - FOOTER_HEIGHT
+  const exportedOn = new Date().toLocaleDateString(undefined, { dateStyle: 'long' })
+
+  // jsPDF starts with one blank page
+  let pagesUsed = 0
+  const startPage = (heading: string) => {
+    if (pagesUsed > 0) doc.addPage()
+    pagesUsed++
+    drawText(doc, heading, MARGIN, MARGIN, { fontSize: 14, bold: true, maxWidth: contentWidth })
+  }
+
+  if (options.titlePage) {
+    pagesUsed++
+    drawText(doc, options.title, pageWidth / 2, pageHeight * 0.38, { fontSize: 28, bold: true, align: 'center', maxWidth: contentWidth })
+    drawText(doc, exportedOn, pageWidth / 2, pageHeight * 0.38 + 48, { fontSize: 14, color: MUTED_TEXT, align: 'center' })
+  }
+
+  const drawSection = async (section: PdfSection) => {
+    const result = await editor.getSvgElement(section.shapeIds, { background: true, padding: EXPORT_PADDING })
+    if (!result) return
+    const { svg, width, height } = result
+
+    let vector = true
+    try {
+      await prepareSvgForPdf(svg)
+    } catch (error) {
+      console.error('Could not prepare the section for PDF, drawing it as an image:', error)
+      vector = false
+    }
+
+    let raster: string | null = null
+    const draw = async (x: number, y: number, w: number, h: number) => {
+      if (vector) {
+        try {
+          await svg2pdf(svg, doc, { x, y, width: w, height: h })
+          return
+        } catch (error) {
+          console.error('Vector PDF export failed, drawing the section as an image:', error)
+          vector = false
+        }
+      }
+
+      if (!raster) {
+        const image = await editor.toImage(section.shapeIds, { format: 'png', background: true, padding: EXPORT_PADDING, pixelRatio: 2 })
+        raster = await blobToDataUrl(image.blob)
+      }
+      doc.addImage(raster, 'PNG', x, y, w, h)
+    }
+
+    let scale = PX_TO_PT
+    let columns = Math.ceil((width * scale) / contentWidth)
+    let rows = Math.ceil((height * scale) / contentHeight)
+
+    if (!section.tiled || columns * rows === 1) {
+      scale = Math.min(contentWidth / width, contentHeight / height, MAX_FIT_SCALE)
+      startPage(section.heading)
+      await draw(MARGIN + (contentWidth - width * scale) / 2, contentTop, width * scale, height * scale)
+      return
+    }
+
+    while (columns * rows > MAX_TILES) {
+      scale *= 0.9
+      columns = Math.ceil((width * scale) / contentWidth)
+      rows = Math.ceil((height * scale) / contentHeight)
+    }
+
+    for (let row = 0; row < rows; row++) {
+      for (let column = 0; column < columns; column++) {
+        startPage(`${section.heading} (row ${row + 1} of ${rows}, column ${column + 1} of ${columns})`)
+
+        doc.saveGraphicsState()
+        doc.rect(MARGIN, contentTop, contentWidth, contentHeight, null)
+        doc.clip()
+        doc.discardPath()
+        await draw(MARGIN - column * contentWidth, contentTop - row * contentHeight, width * scale, height * scale)
+        doc.restoreGraphicsState()
+      }
+    }
+  }
+
+  const pages = getPagesInScope(editor, options.scope).filter(page => getPageShapes(editor, page.id).length > 0)
+  const multiplePages = pages.length > 1
+
+  for (const page of pages) {
+    await withPage(editor, page.id, async () => {
+      const sections = pageSections(
+        editor,
+        options.layout,
+        multiplePages ? page.name : options.title,
+        multiplePages ? `${page.name} · ` : ''
+      )
+      for (const section of sections) {
+        await drawSection(section)
+      }
+    })
+  }
+
+  const totalPages = doc.getNumberOfPages()
+  for (let i = options.titlePage ? 2 : 1; i <= totalPages; i++) {
+    doc.setPage(i)
+    const footerTop = pageHeight - MARGIN - FOOTER_HEIGHT / 2
+    drawText(doc, `${options.title} · ${exportedOn}`, MARGIN, footerTop, { fontSize: 9, color: MUTED_TEXT, maxWidth: contentWidth * 0.7 })
+    drawText(doc, `${i} / ${totalPages}`, pageWidth - MARGIN, footerTop, { fontSize: 9, color: MUTED_TEXT, align: 'right' })
+  }
+
+  console.log(`📄 Built a ${totalPages}-page PDF from ${pages.length} board page${pages.length === 1 ? '' : 's'}`)
+  return doc.output('blob')
+}
@@ -0,0 +1,76 @@
+import type { RecordsDiff, TLRecord } from 'tldraw'
+import { supabase } from './supabase'
+import { migrateBoardDocument } from './boardDocument'
+import type { BoardDocument, MigrationFailure } from './boardDocument'
+
+// Boards are written by the sync server (server/boards.ts): it checkpoints each room
+// into boards.board_data and logs the edits made since in board_changes. The app
+// only reads them back, for boards that aren't open in a room.
+
+// Document-scope record diff, as logged in board_changes
+export type BoardChanges = RecordsDiff<TLRecord>
+
+// Applies logged diffs, in order, to a document's records
+export const applyBoardChanges = (document: BoardDocument, changes: BoardChanges[]): BoardDocument => {
+  const store = { ...document.storeSnapshot.store } as Record<string, TLRecord>
+
+  changes.forEach(diff => {
+    Object.values(diff.added).forEach(record => { store[record.id] = record })
+    Object.values(diff.updated).forEach(([, to]) => { store[to.id] = to })
+    Object.values(diff.removed).forEach(record => { delete store[record.id] })
+  })
+
+  return {
+    ...document,
+    storeSnapshot: {
+      schema: document.storeSnapshot.schema,
+      store: store as BoardDocument['storeSnapshot']['store']
+    },
+    metadata: {
+      ...document.metadata,
+      shapeCount: Object.values(store).filter(record => record.typeName === 'shape').length
+    }
+  }
+}
+
+export interface StoredBoard {
+  // Checkpoint with the change log replayed on top; null for a board never saved
+  document: BoardDocument | null
+  fromVersion: number | null
+  failures: MigrationFailure[]
+  revision: number
+  // Changes replayed on top of the checkpoint
+  changeCount: number
+}
+
+// Latest stored state of a board: its checkpoint plus every change logged since
+export const fetchStoredBoard = async (boardId: string): Promise<StoredBoard> => {
+  const { data, error } = await supabase
+    .from('boards')
+    .select('board_data, revision, checkpoint_revision')
+    .eq('id', boardId)
+    .single()
+
+  if (error) throw error
+
+  const { data: changeRows, error: changesError } = await supabase
+    .from('board_changes')
+    .select('revision, changes')
+    .eq('board_id', boardId)
+    .gt('revision', data.checkpoint_revision)
+    .lte('revision', data.revision)
+    .order('revision', { ascending: true })
+
+  if (changesError) throw changesError
+
+  const migrated = migrateBoardDocument(data.board_data)
+  const changes = (changeRows || []).map(row => row.changes as BoardChanges)
+
+  return {
+    document: migrated ? applyBoardChanges(migrated.document, changes) : null,
+    fromVersion: migrated?.fromVersion ?? null,
+    failures: migrated?.failures ?? [],
+    revision: data.revision,
+    changeCount: changes.length
+  }
+}
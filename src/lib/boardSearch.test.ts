@@ -0,0 +1,56 @@
+import { describe, expect, it, vi } from 'vitest'
+import { boardQueryToParams, isFilteringBoards, parseBoardQuery, parseTags } from './boardSearch'
+import type { BoardQuery } from './boardSearch'
+
+// The query helpers never reach the database
+vi.mock('./supabase', () => ({ supabase: {} }))
+
+const defaults: BoardQuery = { tab: 'mine', search: '', sort: 'updated', tag: null, folderId: null }
+
+describe('parseBoardQuery', () => {
+  it('falls back to the defaults for missing or unknown values', () => {
+    expect(parseBoardQuery(new URLSearchParams())).toEqual(defaults)
+    expect(parseBoardQuery(new URLSearchParams('tab=everything&sort=random&tag=&folder='))).toEqual(defaults)
+  })
+
+  it('reads every value from the URL', () => {
+    expect(parseBoardQuery(new URLSearchParams('tab=trash&q=goals&sort=name-desc&tag=career&folder=f1'))).toEqual({
+      tab: 'trash',
+      search: 'goals',
+      sort: 'name-desc',
+      tag: 'career',
+      folderId: 'f1'
+    })
+  })
+})
+
+describe('boardQueryToParams', () => {
+  it('leaves default values out of the URL', () => {
+    expect(boardQueryToParams(defaults).toString()).toBe('')
+    expect(boardQueryToParams({ ...defaults, search: '   ' }).toString()).toBe('')
+  })
+
+  it('only keeps the folder on "My boards"', () => {
+    expect(boardQueryToParams({ ...defaults, folderId: 'f1' }).get('folder')).toBe('f1')
+    expect(boardQueryToParams({ ...defaults, tab: 'archived', folderId: 'f1' }).has('folder')).toBe(false)
+  })
+
+  it('round-trips through parseBoardQuery', () => {
+    const query: BoardQuery = { tab: 'shared', search: 'retro notes', sort: 'created', tag: 'team', folderId: null }
+    expect(parseBoardQuery(boardQueryToParams(query))).toEqual(query)
+  })
+})
+
+describe('isFilteringBoards', () => {
+  it('is true while searching or filtering by tag', () => {
+    expect(isFilteringBoards(defaults)).toBe(false)
+    expect(isFilteringBoards({ ...defaults, search: 'goals' })).toBe(true)
+    expect(isFilteringBoards({ ...defaults, tag: 'career' })).toBe(true)
+  })
+})
+
+describe('parseTags', () => {
+  it('trims, lower-cases and de-duplicates tags', () => {
+    expect(parseTags(' Career, goals,,career , Q3 ')).toEqual(['career', 'goals', 'q3'])
+  })
+})
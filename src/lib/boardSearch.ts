@@ -0,0 +1,166 @@
+import { supabase } from './supabase'
+import type { BoardRole, BoardSummary } from './supabase'
+
+// What the dashboard is showing. It lives in the URL (?tab=&q=&sort=&tag=&folder=)
+// so searches can be bookmarked and survive a reload.
+export type DashboardTab = 'mine' | 'shared' | 'archived' | 'trash'
+export type BoardSort = 'updated' | 'created' | 'name' | 'name-desc'
+
+export interface BoardQuery {
+  tab: DashboardTab
+  search: string
+  sort: BoardSort
+  tag: string | null
+  // Folder being browsed; null for the top level. Only applies to "My boards"
+  folderId: string | null
+}
+
+export const BOARD_SORTS: { value: BoardSort; label: string; column: 'updated_at' | 'created_at' | 'name'; ascending: boolean }[] = [
+  { value: 'updated', label: 'Last updated', column: 'updated_at', ascending: false },
+  { value: 'created', label: 'Newest first', column: 'created_at', ascending: false },
+  { value: 'name', label: 'Name (A-Z)', column: 'name', ascending: true },
+  { value: 'name-desc', label: 'Name (Z-A)', column: 'name', ascending: false },
+]
+
+export const BOARDS_PAGE_SIZE = 48
+
+const DASHBOARD_TABS: DashboardTab[] = ['mine', 'shared', 'archived', 'trash']
+
+// Boards shared with the user carry the role they were given on it
+export type DashboardBoard = BoardSummary & { role?: BoardRole }
+
+// Everything the board cards need, and not the board content (see BoardSummary)
+const BOARD_SUMMARY_COLUMNS = [
+  'id', 'name', 'description', 'user_id', 'is_public', 'public_slug',
+  'thumbnail_path', 'thumbnail_fingerprint', 'thumbnail_updated_at',
+  'folder_id', 'tags', 'archived_at', 'deleted_at', 'created_at', 'updated_at'
+].join(', ')
+
+export const parseBoardQuery = (params: URLSearchParams): BoardQuery => {
+  const sort = params.get('sort')
+
+  return {
+    tab: DASHBOARD_TABS.includes(params.get('tab') as DashboardTab) ? params.get('tab') as DashboardTab : 'mine',
+    search: params.get('q') ?? '',
+    sort: BOARD_SORTS.some(option => option.value === sort) ? sort as BoardSort : 'updated',
+    tag: params.get('tag') || null,
+    folderId: params.get('folder') || null
+  }
+}
+
+// Only non-default values go into the URL
+export const boardQueryToParams = (query: BoardQuery) => {
+  const params = new URLSearchParams()
+  if (query.tab !== 'mine') params.set('tab', query.tab)
+  if (query.search.trim()) params.set('q', query.search)
+  if (query.sort !== 'updated') params.set('sort', query.sort)
+  if (query.tag) params.set('tag', query.tag)
+  if (query.folderId && query.tab === 'mine') params.set('folder', query.folderId)
+  return params
+}
+
+// Searching or filtering by tag looks through every folder
+export const isFilteringBoards = (query: BoardQuery) => query.search.trim() !== '' || query.tag !== null
+
+// Runs the dashboard query against the boards table. Search covers the board name,
+// description and the text inside its shapes (see boards.search_vector).
+export const searchBoards = async (userId: string, query: BoardQuery, limit = BOARDS_PAGE_SIZE) => {
+  const sort = BOARD_SORTS.find(option => option.value === query.sort) ?? BOARD_SORTS[0]
+  const columns = query.tab === 'shared' ? `${BOARD_SUMMARY_COLUMNS}, board_members!inner(role)` : BOARD_SUMMARY_COLUMNS
+
+  let request = supabase
+    .from('boards')
+    .select(columns, { count: 'exact' })
+
+  switch (query.tab) {
+    case 'mine':
+      request = request.eq('user_id', userId).is('archived_at', null).is('deleted_at', null)
+      break
+    case 'shared':
+      request = request.eq('board_members.user_id', userId).neq('user_id', userId).is('deleted_at', null)
+      break
+    case 'archived':
+      request = request.eq('user_id', userId).not('archived_at', 'is', null).is('deleted_at', null)
+      break
+    case 'trash':
+      request = request.eq('user_id', userId).not('deleted_at', 'is', null)
+      break
+  }
+
+  if (query.search.trim()) {
+    request = request.textSearch('search_vector', query.search.trim(), { type: 'websearch', config: 'simple' })
+  }
+  if (query.tag) {
+    request = request.contains('tags', [query.tag])
+  }
+  if (query.tab === 'mine' && !isFilteringBoards(query)) {
+    request = query.folderId ? request.eq('folder_id', query.folderId) : request.is('folder_id', null)
+  }
+
+  const { data, count, error } = await request
+    .order(sort.column, { ascending: sort.ascending })
+    .range(0, limit - 1)
+
+  if (error) throw error
+
+  const rows = (data || []) as unknown as (BoardSummary & { board_members?: { role: BoardRole }[] })[]
+  const boards: DashboardBoard[] = rows.map(({ board_members, ...board }) =>
+    board_members?.length ? { ...board, role: board_members[0].role } : board
+  )
+
+  return { boards, total: count ?? boards.length }
+}
+
+export interface BoardStats {
+  // Boards in the main grid - not archived or in the trash
+  total: number
+  published: number
+  recent: number
+  shared: number
+  archived: number
+  trash: number
+}
+
+export const fetchBoardStats = async (userId: string): Promise<BoardStats> => {
+  const weekAgo = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString()
+  const countOwn = () => supabase.from('boards').select('id', { count: 'exact', head: true }).eq('user_id', userId)
+  const countActive = () => countOwn().is('archived_at', null).is('deleted_at', null)
+
+  const [total, published, recent, shared, archived, trash] = await Promise.all([
+    countActive(),
+    countActive().eq('is_public', true),
+    countActive().gt('updated_at', weekAgo),
+    supabase
+      .from('boards')
+      .select('id, board_members!inner(user_id)', { count: 'exact', head: true })
+      .eq('board_members.user_id', userId)
+      .neq('user_id', userId)
+      .is('deleted_at', null),
+    countOwn().not('archived_at', 'is', null).is('deleted_at', null),
+    countOwn().not('deleted_at', 'is', null)
+  ])
+
+  for (const result of [total, published, recent, shared, archived, trash]) {
+    if (result.error) throw result.error
+  }
+
+  return {
+    total: total.count ?? 0,
+    published: published.count ?? 0,
+    recent: recent.count ?? 0,
+    shared: shared.count ?? 0,
+    archived: archived.count ?? 0,
+    trash: trash.count ?? 0
+  }
+}
+
+// Every tag on a board the user can see
+export const fetchBoardTags = async (): Promise<string[]> => {
+  const { data, error } = await supabase.rpc('board_tags')
+  if (error) throw error
+  return (data || []) as string[]
+}
+
+// Lower-cased, trimmed and de-duplicated tags from a comma-separated list
+export const parseTags = (value: string) =>
+  [...new Set(value.split(',').map(tag => tag.trim().toLowerCase()).filter(Boolean))]
@@ -0,0 +1,161 @@
+import type { Editor, TLShape } from 'tldraw'
+import { supabase } from './supabase'
+import type { Board } from './supabase'
+import { getPageShapes } from './boardPages'
+import { THUMBNAIL_BUCKET, boardThumbnailPath as thumbnailPath } from '../../shared/boardFiles'
+
+// Thumbnails are shown through short-lived signed URLs, so they are as private as the board
+export const THUMBNAIL_WIDTH = 480
+export const THUMBNAIL_HEIGHT = 300
+// Auto-saves regenerate the thumbnail at most this often
+export const THUMBNAIL_MIN_INTERVAL_MS = 60 * 1000
+const THUMBNAIL_URL_TTL_SECONDS = 60 * 60
+// Moves smaller than this don't count as a change worth a new thumbnail
+const POSITION_TOLERANCE = 20
+
+const EMPTY_FINGERPRINT = 'empty'
+
+// The thumbnail shows the first page of the board
+const getCoverPage = (editor: Editor) => editor.getPages()[0]
+
+const hashString = (value: string) => {
+  let hash = 5381
+  for (let i = 0; i < value.length; i++) {
+    hash = ((hash << 5) + hash + value.charCodeAt(i)) | 0
+  }
+  return (hash >>> 0).toString(16)
+}
+
+// Summarises what the cover page looks like; the thumbnail only needs
+// regenerating when this changes
+export const thumbnailFingerprint = (editor: Editor) => {
+  const shapes = getPageShapes(editor, getCoverPage(editor).id)
+  if (shapes.length === 0) return EMPTY_FINGERPRINT
+
+  const describe = (shape: TLShape) => [
+    shape.id,
+    shape.type,
+    shape.parentId,
+    Math.round(shape.x / POSITION_TOLERANCE),
+    Math.round(shape.y / POSITION_TOLERANCE),
+    Math.round(shape.rotation * 100),
+    JSON.stringify(shape.props)
+  ].join(':')
+
+  return hashString(shapes.map(describe).sort().join('|'))
+}
+
+// Draws an SVG into a fixed-size canvas, scaled to fit and centred on white
+export const rasterizeSvg = (svg: string, width: number, height: number) => new Promise<Blob>((resolve, reject) => {
+  const img = new Image()
+
+  img.onload = () => {
+    const canvas = document.createElement('canvas')
+    canvas.width = width
+    canvas.height = height
+    const ctx = canvas.getContext('2d')
+    if (!ctx) {
+      reject(new Error('Canvas is not available'))
+      return
+    }
+
+    const scale = Math.min(width / img.width, height / img.height)
+    const drawWidth = img.width * scale
+    const drawHeight = img.height * scale
+    ctx.fillStyle = '#ffffff'
+    ctx.fillRect(0, 0, width, height)
+    ctx.drawImage(img, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight)
+
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Could not encode the thumbnail')), 'image/png')
+  }
+  img.onerror = () => reject(new Error('Could not render the board as an image'))
+
+  img.src = 'data:image/svg+xml;charset=utf-8,' + encodeURIComponent(svg)
+})
+
+const saveThumbnailReference = async (boardId: string, path: string | null, fingerprint: string) => {
+  const { error } = await supabase
+    .from('boards')
+    .update({
+      thumbnail_path: path,
+      thumbnail_fingerprint: fingerprint,
+      thumbnail_updated_at: new Date().toISOString()
+    })
+    .eq('id', boardId)
+
+  if (error) throw error
+}
+
+export type ThumbnailUpdateResult =
+  | { status: 'unchanged' }
+  | { status: 'deferred' }
+  | { status: 'updated'; fingerprint: string }
+
+// Regenerates the board's thumbnail when the cover page changed since
+// previousFingerprint. Rendering only works for the page being shown, so
+// when someone is on another page the update waits for a later save.
+export const updateBoardThumbnail = async (
+  editor: Editor,
+  boardId: string,
+  previousFingerprint: string | null
+): Promise<ThumbnailUpdateResult> => {
+  const fingerprint = thumbnailFingerprint(editor)
+  if (fingerprint === previousFingerprint) return { status: 'unchanged' }
+
+  const path = thumbnailPath(boardId)
+
+  if (fingerprint === EMPTY_FINGERPRINT) {
+    const { error } = await supabase.storage.from(THUMBNAIL_BUCKET).remove([path])
+    if (error) throw error
+    await saveThumbnailReference(boardId, null, fingerprint)
+    return { status: 'updated', fingerprint }
+  }
+
+  if (editor.getCurrentPageId() !== getCoverPage(editor).id) return { status: 'deferred' }
+
+  const shapes = editor.getCurrentPageShapes()
+  const result = await editor.getSvgString(shapes, { background: true, padding: 32 })
+  if (!result) return { status: 'deferred' }
+
+  const image = await rasterizeSvg(result.svg, THUMBNAIL_WIDTH, THUMBNAIL_HEIGHT)
+
+  const { error } = await supabase.storage
+    .from(THUMBNAIL_BUCKET)
+    .upload(path, image, { contentType: 'image/png', upsert: true })
+
+  if (error) throw error
+
+  await saveThumbnailReference(boardId, path, fingerprint)
+  return { status: 'updated', fingerprint }
+}
+
+// Signed URLs for the boards that have a thumbnail, keyed by board id
+export const fetchThumbnailUrls = async (boards: Pick<Board, 'id' | 'thumbnail_path'>[]) => {
+  const withThumbnails = boards.filter(board => board.thumbnail_path)
+  const urls = new Map<string, string>()
+  if (withThumbnails.length === 0) return urls
+
+  const { data, error } = await supabase.storage
+    .from(THUMBNAIL_BUCKET)
+    .createSignedUrls(withThumbnails.map(board => board.thumbnail_path!), THUMBNAIL_URL_TTL_SECONDS)
+
+  if (error) throw error
+
+  data.forEach((signed, i) => {
+    if (signed.signedUrl) {
+      urls.set(withThumbnails[i].id, signed.signedUrl)
+    }
+  })
+  return urls
+}
+
+// Gives a duplicated board the original's thumbnail until its own is made
+export const copyBoardThumbnail = async (fromBoard: Pick<Board, 'id' | 'thumbnail_path' | 'thumbnail_fingerprint'>, toBoardId: string) => {
+  if (!fromBoard.thumbnail_path || !fromBoard.thumbnail_fingerprint) return
+
+  const path = thumbnailPath(toBoardId)
+  const { error } = await supabase.storage.from(THUMBNAIL_BUCKET).copy(fromBoard.thumbnail_path, path)
+  if (error) throw error
+
+  await saveThumbnailReference(toBoardId, path, fromBoard.thumbnail_fingerprint)
+}
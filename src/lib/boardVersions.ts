@@ -0,0 +1,37 @@
+import type { Editor } from 'tldraw'
+import { supabase } from './supabase'
+import type { BoardVersion } from './supabase'
+import { createBoardDocument } from './boardDocument'
+
+// How often the autosave also records an automatic history snapshot
+export const AUTO_VERSION_INTERVAL_MS = 10 * 60 * 1000
+
+// Columns needed to list versions without downloading every snapshot
+export const BOARD_VERSION_LIST_COLUMNS = 'id, board_id, user_id, kind, name, shape_count, created_at'
+
+// Stores the editor's current state as a board version
+export const createBoardVersion = async (
+  editor: Editor,
+  boardId: string,
+  userId: string,
+  kind: BoardVersion['kind'],
+  name?: string
+): Promise<BoardVersion> => {
+  const document = createBoardDocument(editor, kind === 'auto' ? 'auto' : 'manual')
+
+  const { data, error } = await supabase
+    .from('board_versions')
+    .insert({
+      board_id: boardId,
+      user_id: userId,
+      kind,
+      name: name?.trim() || null,
+      board_data: document,
+      shape_count: document.metadata.shapeCount
+    })
+    .select(BOARD_VERSION_LIST_COLUMNS)
+    .single()
+
+  if (error) throw error
+  return data as BoardVersion
+}
@@ -0,0 +1,431 @@
+import { createBindingId, createShapeId, toRichText } from 'tldraw'
+import type {
+  Editor,
+  TLArrowBinding,
+  TLArrowShape,
+  TLDefaultColorStyle,
+  TLDefaultFillStyle,
+  TLDefaultSizeStyle,
+  TLFrameShape,
+  TLGeoShape,
+  TLGeoShapeGeoStyle,
+  TLNoteShape,
+  TLShapeId,
+  TLTextShape
+} from 'tldraw'
+
+// Positions are relative to the template's anchor, or to the frame a shape is
+// in. Shapes other shapes refer to (as their frame or an arrow end) need a key,
+// and must come before them in the list.
+interface TemplateShapeBase {
+  key?: string
+  x: number
+  y: number
+  frame?: string
+}
+
+export interface TemplateFrame extends TemplateShapeBase {
+  type: 'frame'
+  name: string
+  w: number
+  h: number
+}
+
+export interface TemplateText extends TemplateShapeBase {
+  type: 'text'
+  text: string
+  size?: TLDefaultSizeStyle
+  color?: TLDefaultColorStyle
+  // Text wraps at this width; without it the shape grows to fit
+  w?: number
+}
+
+export interface TemplateNote extends TemplateShapeBase {
+  type: 'note'
+  text: string
+  color?: TLDefaultColorStyle
+}
+
+export interface TemplateGeo extends TemplateShapeBase {
+  type: 'geo'
+  w: number
+  h: number
+  text?: string
+  geo?: TLGeoShapeGeoStyle
+  color?: TLDefaultColorStyle
+  fill?: TLDefaultFillStyle
+}
+
+// Arrows are bound to the shapes they connect, so they follow them around
+export interface TemplateArrow {
+  type: 'arrow'
+  key?: string
+  from: string
+  to: string
+  label?: string
+  color?: TLDefaultColorStyle
+}
+
+export type TemplateShape = TemplateFrame | TemplateText | TemplateNote | TemplateGeo | TemplateArrow
+
+export type TemplateAccent = 'blue' | 'purple' | 'green' | 'indigo' | 'amber' | 'red' | 'teal' | 'pink' | 'orange'
+
+export interface BuiltinTemplate {
+  id: string
+  name: string
+  icon: string
+  description: string
+  accent: TemplateAccent
+  shapes: TemplateShape[]
+}
+
+// Button colours of each accent in the template lists
+export const TEMPLATE_ACCENT_CLASSES: Record<TemplateAccent, string> = {
+  blue: 'bg-blue-50 hover:bg-blue-100 text-blue-700',
+  purple: 'bg-purple-50 hover:bg-purple-100 text-purple-700',
+  green: 'bg-green-50 hover:bg-green-100 text-green-700',
+  indigo: 'bg-indigo-50 hover:bg-indigo-100 text-indigo-700',
+  amber: 'bg-amber-50 hover:bg-amber-100 text-amber-700',
+  red: 'bg-red-50 hover:bg-red-100 text-red-700',
+  teal: 'bg-teal-50 hover:bg-teal-100 text-teal-700',
+  pink: 'bg-pink-50 hover:bg-pink-100 text-pink-700',
+  orange: 'bg-orange-50 hover:bg-orange-100 text-orange-700'
+}
+
+const GROW_STAGES = [
+  {
+    key: 'goal',
+    name: 'Goal',
+    color: 'green',
+    prompt: 'What do you want to achieve?\n\n• What would success look like?\n• Why does it matter to you now?\n• By when?'
+  },
+  {
+    key: 'reality',
+    name: 'Reality',
+    color: 'blue',
+    prompt: 'Where are you today?\n\n• What have you tried so far?\n• What is getting in the way?\n• Who else is involved?'
+  },
+  {
+    key: 'options',
+    name: 'Options',
+    color: 'orange',
+    prompt: 'What could you do?\n\n• What else could you try?\n• What would someone you admire do?\n• What are the pros and cons of each?'
+  },
+  {
+    key: 'will',
+    name: 'Will',
+    color: 'violet',
+    prompt: 'What will you do?\n\n• Which option will you commit to?\n• What is the first step, and when?\n• What support do you need?'
+  }
+] as const
+
+const SMART_CRITERIA = [
+  { color: 'blue', text: 'Specific\n\nWhat exactly will be achieved, and who is involved?' },
+  { color: 'green', text: 'Measurable\n\nHow will progress and success be measured?' },
+  { color: 'orange', text: 'Achievable\n\nIs it realistic with the time and support available?' },
+  { color: 'violet', text: 'Relevant\n\nWhy does it matter for your growth or the team?' },
+  { color: 'red', text: 'Time-bound\n\nWhat is the deadline, and what are the milestones?' }
+] as const
+
+const EISENHOWER_QUADRANTS = [
+  { key: 'do', name: 'Do first', x: 160, y: 140, color: 'red', text: 'Urgent and important: crises, deadlines and problems that need you now.' },
+  { key: 'schedule', name: 'Schedule', x: 620, y: 140, color: 'blue', text: 'Important, not urgent: growth, planning and relationships. Put time for them in the calendar.' },
+  { key: 'delegate', name: 'Delegate', x: 160, y: 540, color: 'orange', text: 'Urgent, not important: interruptions and requests someone else can handle.' },
+  { key: 'eliminate', name: 'Eliminate', x: 620, y: 540, color: 'grey', text: 'Neither urgent nor important: busywork and distractions to drop.' }
+] as const
+
+const RETRO_COLUMNS = [
+  { key: 'start', name: 'Start', color: 'green', text: 'What should we begin doing?' },
+  { key: 'stop', name: 'Stop', color: 'red', text: 'What should we stop doing?' },
+  { key: 'continue', name: 'Continue', color: 'blue', text: 'What is working and should continue?' }
+] as const
+
+const SKILLS_GAP_COLUMNS = [
+  {
+    key: 'current',
+    name: 'Current skills',
+    color: 'light-blue',
+    prompt: 'What can you do today? Rate each skill from 1 to 5.',
+    note: 'Skill:\nLevel today (1-5):'
+  },
+  {
+    key: 'target',
+    name: 'Target skills',
+    color: 'light-green',
+    prompt: 'What does the next role or goal need, and at what level?',
+    note: 'Skill:\nLevel needed (1-5):'
+  },
+  {
+    key: 'plan',
+    name: 'Development plan',
+    color: 'orange',
+    prompt: 'How will you close each gap, who can help, and by when?',
+    note: 'Action:\nBy when:'
+  }
+] as const
+
+const ONBOARDING_PHASES = [
+  { key: 'learn', name: 'Days 1-30: Learn', color: 'yellow', prompt: 'Meet the team, learn the product and tools, and understand how work gets done.', note: 'First goal:' },
+  { key: 'contribute', name: 'Days 31-60: Contribute', color: 'light-green', prompt: 'Take on real work, ship a first project and start giving feedback.', note: 'First project:' },
+  { key: 'lead', name: 'Days 61-90: Lead', color: 'light-violet', prompt: 'Own an area, suggest improvements and set goals for the next quarter.', note: 'Area to own:' }
+] as const
+
+// Frames in a row, each with a prompt and optionally a starter note, joined by arrows
+const frameRow = (
+  columns: readonly { key: string; name: string; color: TLDefaultColorStyle; prompt: string; note?: string }[],
+  options: { w: number; h: number; gap: number; labels?: string[] }
+): TemplateShape[] => [
+  ...columns.flatMap((column, i): TemplateShape[] => [
+    { type: 'frame', key: column.key, name: column.name, x: i * (options.w + options.gap), y: 100, w: options.w, h: options.h },
+    { type: 'text', frame: column.key, x: 20, y: 20, w: options.w - 40, size: 's', color: column.color, text: column.prompt },
+    ...(column.note !== undefined
+      ? [{ type: 'note', frame: column.key, x: (options.w - 200) / 2, y: 160, color: column.color, text: column.note } as const]
+      : [])
+  ]),
+  ...columns.slice(1).map((column, i): TemplateArrow => ({ type: 'arrow', from: columns[i].key, to: column.key, label: options.labels?.[i] }))
+]
+
+export const BUILTIN_TEMPLATES: BuiltinTemplate[] = [
+  {
+    id: '1on1',
+    name: '1-on-1 Meeting',
+    icon: '📅',
+    description: 'Agenda for a regular one-to-one',
+    accent: 'blue',
+    shapes: [
+      {
+        type: 'text',
+        x: 0,
+        y: 0,
+        color: 'light-blue',
+        text: '📅 1-on-1 Meeting\n\n• Wins this week\n• Challenges\n• Goals for next week\n• Career development'
+      }
+    ]
+  },
+  {
+    id: 'feedback',
+    name: 'Feedback Session',
+    icon: '💬',
+    description: 'What went well and what to improve',
+    accent: 'purple',
+    shapes: [
+      { type: 'geo', x: 0, y: 0, w: 200, h: 200, color: 'light-blue', text: '✅ What went well' },
+      { type: 'geo', x: 250, y: 0, w: 200, h: 200, color: 'blue', text: '🔄 What to improve' }
+    ]
+  },
+  {
+    id: 'planning',
+    name: 'Planning Board',
+    icon: '📋',
+    description: 'One column per quarter',
+    accent: 'green',
+    shapes: ['Q1', 'Q2', 'Q3', 'Q4'].map((quarter, i): TemplateShape => ({
+      type: 'geo',
+      x: i * 120,
+      y: 0,
+      w: 100,
+      h: 150,
+      color: i % 2 === 0 ? 'light-blue' : 'blue',
+      text: quarter
+    }))
+  },
+  {
+    id: 'grow',
+    name: 'GROW Model',
+    icon: '🌱',
+    description: 'Goal, Reality, Options and Will coaching conversation',
+    accent: 'indigo',
+    shapes: [
+      { type: 'text', x: 0, y: 0, size: 'l', text: '🌱 GROW Coaching Model' },
+      ...frameRow(GROW_STAGES, { w: 320, h: 440, gap: 80 })
+    ]
+  },
+  {
+    id: 'smart',
+    name: 'SMART Goals',
+    icon: '🎯',
+    description: 'Check a goal against the five SMART criteria',
+    accent: 'amber',
+    shapes: [
+      { type: 'text', x: 0, y: 0, size: 'l', text: '🎯 SMART Goal' },
+      { type: 'geo', x: 0, y: 90, w: 1080, h: 100, color: 'black', fill: 'none', text: 'Goal: write it in one sentence' },
+      ...SMART_CRITERIA.map((criterion, i): TemplateShape => ({
+        type: 'geo',
+        x: i * 220,
+        y: 230,
+        w: 200,
+        h: 280,
+        color: criterion.color,
+        text: criterion.text
+      }))
+    ]
+  },
+  {
+    id: 'eisenhower',
+    name: 'Eisenhower Matrix',
+    icon: '📌',
+    description: 'Sort tasks by urgency and importance',
+    accent: 'red',
+    shapes: [
+      { type: 'text', x: 0, y: 0, size: 'l', text: '📌 Eisenhower Matrix' },
+      { type: 'text', x: 310, y: 90, text: 'Urgent' },
+      { type: 'text', x: 760, y: 90, text: 'Not urgent' },
+      { type: 'text', x: 0, y: 300, w: 140, text: 'Important' },
+      { type: 'text', x: 0, y: 700, w: 140, text: 'Not important' },
+      ...EISENHOWER_QUADRANTS.flatMap((quadrant): TemplateShape[] => [
+        { type: 'frame', key: quadrant.key, name: quadrant.name, x: quadrant.x, y: quadrant.y, w: 420, h: 360 },
+        { type: 'text', frame: quadrant.key, x: 20, y: 20, w: 380, size: 's', color: quadrant.color, text: quadrant.text }
+      ])
+    ]
+  },
+  {
+    id: 'start-stop-continue',
+    name: 'Start / Stop / Continue',
+    icon: '🔁',
+    description: 'Quick retrospective in three columns',
+    accent: 'teal',
+    shapes: [
+      { type: 'text', x: 0, y: 0, size: 'l', text: '🔁 Start / Stop / Continue' },
+      ...RETRO_COLUMNS.flatMap((column, i): TemplateShape[] => [
+        { type: 'frame', key: column.key, name: column.name, x: i * 400, y: 100, w: 360, h: 480 },
+        { type: 'note', frame: column.key, x: 80, y: 40, color: column.color, text: column.text }
+      ])
+    ]
+  },
+  {
+    id: 'skills-gap',
+    name: 'Skills Gap Map',
+    icon: '🧭',
+    description: 'Current skills, target skills and a plan to close the gap',
+    accent: 'pink',
+    shapes: [
+      { type: 'text', x: 0, y: 0, size: 'l', text: '🧭 Skills Gap Map' },
+      ...frameRow(SKILLS_GAP_COLUMNS, { w: 360, h: 460, gap: 160, labels: ['Gap', 'Close the gap'] })
+    ]
+  },
+  {
+    id: '30-60-90',
+    name: '30-60-90 Day Plan',
+    icon: '🚀',
+    description: 'Onboarding goals for the first three months',
+    accent: 'orange',
+    shapes: [
+      { type: 'text', x: 0, y: 0, size: 'l', text: '🚀 30-60-90 Day Plan' },
+      ...frameRow(ONBOARDING_PHASES, { w: 380, h: 500, gap: 80 })
+    ]
+  }
+]
+
+export const getBuiltinTemplate = (id: string) => BUILTIN_TEMPLATES.find(template => template.id === id)
+
+const createArrow = (editor: Editor, id: TLShapeId, arrow: TemplateArrow, ids: Map<string, TLShapeId>) => {
+  const fromId = ids.get(arrow.from)
+  const toId = ids.get(arrow.to)
+  const from = fromId && editor.getShapePageBounds(fromId)
+  const to = toId && editor.getShapePageBounds(toId)
+  if (!fromId || !toId || !from || !to) {
+    throw new Error(`Template arrow from "${arrow.from}" to "${arrow.to}" refers to a shape that isn't in the template`)
+  }
+
+  editor.createShape<TLArrowShape>({
+    id,
+    type: 'arrow',
+    x: from.center.x,
+    y: from.center.y,
+    props: {
+      start: { x: 0, y: 0 },
+      end: { x: to.center.x - from.center.x, y: to.center.y - from.center.y },
+      color: arrow.color ?? 'black',
+      text: arrow.label ?? ''
+    }
+  })
+  editor.createBindings<TLArrowBinding>(
+    ([['start', fromId], ['end', toId]] as const).map(([terminal, shapeId]) => ({
+      id: createBindingId(),
+      type: 'arrow',
+      fromId: id,
+      toId: shapeId,
+      props: { terminal, normalizedAnchor: { x: 0.5, y: 0.5 }, isExact: false, isPrecise: false }
+    }))
+  )
+}
+
+const createTemplateShape = (editor: Editor, id: TLShapeId, shape: Exclude<TemplateShape, TemplateArrow>, parentId?: TLShapeId) => {
+  const base = { id, parentId, x: shape.x, y: shape.y }
+
+  switch (shape.type) {
+    case 'frame':
+      editor.createShape<TLFrameShape>({ ...base, type: 'frame', props: { name: shape.name, w: shape.w, h: shape.h } })
+      break
+    case 'text':
+      editor.createShape<TLTextShape>({
+        ...base,
+        type: 'text',
+        props: {
+          richText: toRichText(shape.text),
+          size: shape.size ?? 'm',
+          color: shape.color ?? 'black',
+          ...(shape.w ? { autoSize: false, w: shape.w } : {})
+        }
+      })
+      break
+    case 'note':
+      editor.createShape<TLNoteShape>({
+        ...base,
+        type: 'note',
+        props: { size: 'm', color: shape.color ?? 'yellow', richText: toRichText(shape.text) }
+      })
+      break
+    case 'geo':
+      editor.createShape<TLGeoShape>({
+        ...base,
+        type: 'geo',
+        props: {
+          geo: shape.geo ?? 'rectangle',
+          w: shape.w,
+          h: shape.h,
+          color: shape.color ?? 'blue',
+          fill: shape.fill ?? 'semi',
+          richText: toRichText(shape.text ?? '')
+        }
+      })
+      break
+  }
+}
+
+// Adds a built-in template's shapes centred in the viewport, as one undo step,
+// and selects them so they can be moved into place
+export const insertBuiltinTemplate = (editor: Editor, template: BuiltinTemplate): TLShapeId[] => {
+  const center = editor.getViewportPageBounds().center
+  const ids = new Map<string, TLShapeId>()
+  const topLevelIds: TLShapeId[] = []
+
+  editor.markHistoryStoppingPoint(`add ${template.id} template`)
+  editor.run(() => {
+    template.shapes.forEach(shape => {
+      const id = createShapeId()
+      if (shape.key) ids.set(shape.key, id)
+
+      if (shape.type === 'arrow') {
+        createArrow(editor, id, shape, ids)
+        topLevelIds.push(id)
+        return
+      }
+
+      const parentId = shape.frame ? ids.get(shape.frame) : undefined
+      if (shape.frame && !parentId) {
+        throw new Error(`Template shape is in frame "${shape.frame}", which isn't in the template`)
+      }
+      createTemplateShape(editor, id, shape, parentId)
+      if (!parentId) topLevelIds.push(id)
+    })
+
+    editor.select(...topLevelIds)
+    const bounds = editor.getSelectionPageBounds()
+    if (bounds) {
+      editor.nudgeShapes(topLevelIds, { x: center.x - bounds.center.x, y: center.y - bounds.center.y })
+    }
+  })
+
+  return topLevelIds
+}
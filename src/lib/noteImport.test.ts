@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest'
+import { MAX_IMPORTED_NOTES, parseNoteText, suggestGroupColumn } from './noteImport'
+
+describe('parseNoteText', () => {
+  it('reads a plain list as one note per line', () => {
+    const parsed = parseNoteText('First idea\n\nSecond idea\r\nThird idea\n')
+
+    expect(parsed.format).toBe('list')
+    expect(parsed.notes.map(note => note.text)).toEqual(['First idea', 'Second idea', 'Third idea'])
+    expect(parsed.groupColumns).toEqual([])
+  })
+
+  it('groups Markdown bullets under their heading and keeps indented lines with their bullet', () => {
+    const parsed = parseNoteText([
+      '## Went well',
+      '- Shipped the demo',
+      '  - on time',
+      '## To improve',
+      '1. Fewer meetings',
+      '- [x] Write docs'
+    ].join('\n'))
+
+    expect(parsed.format).toBe('markdown')
+    expect(parsed.notes).toEqual([
+      { text: 'Shipped the demo\n• on time', color: null, fields: { Section: 'Went well' } },
+      { text: 'Fewer meetings', color: null, fields: { Section: 'To improve' } },
+      { text: 'Write docs', color: null, fields: { Section: 'To improve' } }
+    ])
+    expect(suggestGroupColumn(parsed)).toBe('Section')
+  })
+
+  it('reads a CSV with a text column, quoting and colours', () => {
+    const parsed = parseNoteText([
+      'Column,Text,Color',
+      'Went well,"Paired on the ""hard"" bug",green',
+      'To improve,"Spread out,\nreviews",purple',
+      'To improve,Too many meetings,sparkly',
+      'To improve,,red'
+    ].join('\n'))
+
+    expect(parsed.format).toBe('csv')
+    expect(parsed.notes.map(({ text, color }) => ({ text, color }))).toEqual([
+      { text: 'Paired on the "hard" bug', color: 'green' },
+      { text: 'Spread out,\nreviews', color: 'violet' },
+      { text: 'Too many meetings', color: null }
+    ])
+    expect(parsed.notes[0].fields).toEqual({ Column: 'Went well', Text: 'Paired on the "hard" bug', Color: 'green' })
+    expect(parsed.groupColumns).toEqual(['Column', 'Color'])
+    expect(parsed.warnings).toEqual(['Row 4: unknown color "sparkly"'])
+    expect(suggestGroupColumn(parsed)).toBe('Column')
+  })
+
+  it('finds tab and semicolon separated files by their header', () => {
+    expect(parseNoteText('note\tcolumn\nHello\tA').notes[0].fields).toEqual({ note: 'Hello', column: 'A' })
+    expect(parseNoteText('content;owner\nHello;Sam').notes[0].fields).toEqual({ content: 'Hello', owner: 'Sam' })
+  })
+
+  it('stops at the import limit and says so', () => {
+    const text = Array.from({ length: MAX_IMPORTED_NOTES + 5 }, (_, i) => `Note ${i + 1}`).join('\n')
+    const parsed = parseNoteText(text)
+
+    expect(parsed.notes).toHaveLength(MAX_IMPORTED_NOTES)
+    expect(parsed.warnings).toEqual([`Only the first ${MAX_IMPORTED_NOTES} of ${MAX_IMPORTED_NOTES + 5} notes are imported`])
+  })
+})
@@ -0,0 +1,294 @@
+import { createShapeId, DefaultColorStyle, toRichText } from 'tldraw'
+import type { Editor, TLDefaultColorStyle, TLFrameShape, TLNoteShape, TLShapeId } from 'tldraw'
+
+export type NoteSourceFormat = 'list' | 'markdown' | 'csv'
+
+export interface ImportedNote {
+  text: string
+  // Colour from the source, when it named one
+  color: TLDefaultColorStyle | null
+  // Every column of a CSV row (or the Markdown heading above a bullet), for grouping
+  fields: Record<string, string>
+}
+
+export interface ParsedNotes {
+  format: NoteSourceFormat
+  notes: ImportedNote[]
+  // Fields the notes can be grouped into frames by
+  groupColumns: string[]
+  warnings: string[]
+}
+
+export interface NoteGridOptions {
+  // Field whose values become labelled frames, or null for one plain grid
+  groupBy: string | null
+  // Colour of notes whose source didn't name one
+  defaultColor: TLDefaultColorStyle
+}
+
+export const NOTE_IMPORT_ACCEPT = '.csv,.tsv,.txt,.md,text/csv,text/plain,text/markdown'
+export const NOTE_COLORS = DefaultColorStyle.values
+export const MAX_IMPORTED_NOTES = 500
+
+// A CSV needs a header row naming the column that holds each note's text
+const TEXT_COLUMNS = ['text', 'note', 'content']
+const COLOR_COLUMN = 'color'
+// Conventional name of the column notes are sorted into, e.g. a retro's "Went well"
+const GROUP_COLUMN = 'column'
+// Markdown bullets are grouped by the heading above them
+const SECTION_FIELD = 'Section'
+const CSV_DELIMITERS = [',', '\t', ';']
+
+const BULLET = /^([-*+\u2022]|\d+[.)])\s+(\[[ xX]\]\s+)?/
+const HEADING = /^#{1,6}\s+(.+?)\s*#*$/
+
+const COLOR_ALIASES: Record<string, TLDefaultColorStyle> = {
+  gray: 'grey',
+  purple: 'violet',
+  'light-purple': 'light-violet',
+  pink: 'light-red'
+}
+
+const NOTE_GAP = 20
+const FRAME_PADDING = 40
+const FRAME_GAP = 80
+const MAX_GRID_COLUMNS = 6
+const UNGROUPED_FRAME_NAME = 'Other'
+
+const parseColor = (value: string): TLDefaultColorStyle | null => {
+  const name = value.trim().toLowerCase().replace(/[\s_]+/g, '-')
+  if (COLOR_ALIASES[name]) return COLOR_ALIASES[name]
+  return NOTE_COLORS.find(color => color === name) ?? null
+}
+
+// Rows of a delimited file, following RFC 4180 quoting ("" is a literal quote)
+const parseDelimited = (text: string, delimiter: string): string[][] => {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let quoted = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"' && !cell) {
+      quoted = true
+    } else if (char === delimiter) {
+      row.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(cell)
+      rows.push(row)
+      row = []
+      cell = ''
+    } else {
+      cell += char
+    }
+  }
+
+  row.push(cell)
+  rows.push(row)
+  return rows.filter(cells => cells.some(value => value.trim()))
+}
+
+const findCsvDelimiter = (text: string) => {
+  const headerLine = text.split(/\r?\n/).find(line => line.trim()) ?? ''
+  return CSV_DELIMITERS.find(delimiter => {
+    const [header = []] = parseDelimited(headerLine, delimiter)
+    return header.some(name => TEXT_COLUMNS.includes(name.trim().toLowerCase()))
+  })
+}
+
+const parseCsv = (text: string, delimiter: string): ParsedNotes => {
+  const [header, ...rows] = parseDelimited(text, delimiter)
+  const columns = header.map(name => name.trim())
+  const textIndex = columns.findIndex(name => TEXT_COLUMNS.includes(name.toLowerCase()))
+  const colorIndex = columns.findIndex(name => name.toLowerCase() === COLOR_COLUMN)
+  const warnings: string[] = []
+
+  const notes = rows.flatMap((cells, i): ImportedNote[] => {
+    const text = (cells[textIndex] ?? '').trim()
+    if (!text) return []
+
+    const colorName = colorIndex >= 0 ? (cells[colorIndex] ?? '').trim() : ''
+    const color = colorName ? parseColor(colorName) : null
+    if (colorName && !color) {
+      // Row numbers count the header, as a spreadsheet would
+      warnings.push(`Row ${i + 2}: unknown color "${colorName}"`)
+    }
+
+    const fields = Object.fromEntries(columns.map((name, column) => [name, (cells[column] ?? '').trim()]))
+    return [{ text, color, fields }]
+  })
+
+  return {
+    format: 'csv',
+    notes,
+    groupColumns: columns.filter((name, column) => name && column !== textIndex),
+    warnings
+  }
+}
+
+// One note per line or bullet. Indented lines below a bullet belong to it, and
+// Markdown headings name the section the following bullets are grouped under.
+const parseList = (text: string): ParsedNotes => {
+  const notes: ImportedNote[] = []
+  let section = ''
+  let markdown = false
+  let lastIndent = -1
+
+  text.split(/\r?\n/).forEach(line => {
+    const content = line.trim()
+    if (!content) return
+
+    const heading = content.match(HEADING)
+    if (heading) {
+      section = heading[1]
+      markdown = true
+      lastIndent = -1
+      return
+    }
+
+    const indent = line.length - line.trimStart().length
+    const bullet = content.match(BULLET)
+    if (bullet) markdown = true
+    const noteText = content.replace(BULLET, '').trim()
+    if (!noteText) return
+
+    const previous = notes[notes.length - 1]
+    if (previous && lastIndent >= 0 && indent > lastIndent) {
+      previous.text += bullet ? `\n\u2022 ${noteText}` : `\n${noteText}`
+      return
+    }
+
+    notes.push({ text: noteText, color: null, fields: section ? { [SECTION_FIELD]: section } : {} })
+    lastIndent = indent
+  })
+
+  const hasSections = notes.some(note => note.fields[SECTION_FIELD])
+  return {
+    format: markdown ? 'markdown' : 'list',
+    notes,
+    groupColumns: hasSections ? [SECTION_FIELD] : [],
+    warnings: []
+  }
+}
+
+// Reads pasted or uploaded text as a CSV (with a text column), Markdown bullets
+// or a plain list with one note per line
+export const parseNoteText = (text: string): ParsedNotes => {
+  const delimiter = findCsvDelimiter(text)
+  const parsed = delimiter ? parseCsv(text, delimiter) : parseList(text)
+
+  if (parsed.notes.length > MAX_IMPORTED_NOTES) {
+    parsed.warnings.push(`Only the first ${MAX_IMPORTED_NOTES} of ${parsed.notes.length} notes are imported`)
+    parsed.notes = parsed.notes.slice(0, MAX_IMPORTED_NOTES)
+  }
+  return parsed
+}
+
+// The field a retro-style source is most likely meant to be grouped by
+export const suggestGroupColumn = (parsed: ParsedNotes) =>
+  parsed.groupColumns.find(name => name.toLowerCase() === GROUP_COLUMN) ??
+  parsed.groupColumns.find(name => name === SECTION_FIELD) ??
+  null
+
+// Groups in the order they first appear in the source
+const groupNotes = (notes: ImportedNote[], groupBy: string | null) => {
+  const groups = new Map<string | null, ImportedNote[]>()
+  notes.forEach(note => {
+    const key = groupBy ? note.fields[groupBy] || UNGROUPED_FRAME_NAME : null
+    groups.set(key, [...(groups.get(key) ?? []), note])
+  })
+  return groups
+}
+
+// Lays notes out in rows starting at (x, y) in their parent's space. Notes grow
+// with their text, so each row is as tall as its tallest note.
+const layoutGrid = (editor: Editor, noteIds: TLShapeId[], x: number, y: number) => {
+  const columns = Math.min(MAX_GRID_COLUMNS, Math.ceil(Math.sqrt(noteIds.length)))
+  const noteWidth = editor.getShapeGeometry(noteIds[0]).bounds.w
+  let rowY = y
+
+  for (let start = 0; start < noteIds.length; start += columns) {
+    const row = noteIds.slice(start, start + columns)
+    editor.updateShapes<TLNoteShape>(row.map((id, column) => ({
+      id,
+      type: 'note',
+      x: x + column * (noteWidth + NOTE_GAP),
+      y: rowY
+    })))
+    rowY += Math.max(...row.map(id => editor.getShapeGeometry(id).bounds.h)) + NOTE_GAP
+  }
+
+  return { w: columns * (noteWidth + NOTE_GAP) - NOTE_GAP, h: rowY - y - NOTE_GAP }
+}
+
+// Adds the notes as a grid of sticky notes centred in the viewport. With
+// groupBy, each group is its own grid inside a frame labelled with its value.
+export const createNoteGrid = (editor: Editor, notes: ImportedNote[], options: NoteGridOptions): TLShapeId[] => {
+  if (notes.length === 0) return []
+
+  const center = editor.getViewportPageBounds().center
+  const topLevelIds: TLShapeId[] = []
+
+  editor.markHistoryStoppingPoint('import sticky notes')
+  editor.run(() => {
+    let x = 0
+
+    groupNotes(notes, options.groupBy).forEach((groupedNotes, name) => {
+      const frameId = name === null ? null : createShapeId()
+      if (frameId && name !== null) {
+        editor.createShape<TLFrameShape>({ id: frameId, type: 'frame', x, y: 0, props: { name, w: 1, h: 1 } })
+      }
+
+      const noteIds = groupedNotes.map(note => {
+        const id = createShapeId()
+        editor.createShape<TLNoteShape>({
+          id,
+          type: 'note',
+          parentId: frameId ?? undefined,
+          props: {
+            size: 'm',
+            color: note.color ?? options.defaultColor,
+            richText: toRichText(note.text)
+          }
+        })
+        return id
+      })
+
+      if (frameId) {
+        const size = layoutGrid(editor, noteIds, FRAME_PADDING, FRAME_PADDING)
+        const w = size.w + FRAME_PADDING * 2
+        editor.updateShape<TLFrameShape>({ id: frameId, type: 'frame', props: { w, h: size.h + FRAME_PADDING * 2 } })
+        topLevelIds.push(frameId)
+        x += w + FRAME_GAP
+      } else {
+        layoutGrid(editor, noteIds, x, 0)
+        topLevelIds.push(...noteIds)
+      }
+    })
+
+    editor.select(...topLevelIds)
+    const bounds = editor.getSelectionPageBounds()
+    if (bounds) {
+      editor.nudgeShapes(topLevelIds, { x: center.x - bounds.center.x, y: center.y - bounds.center.y })
+    }
+  })
+
+  const bounds = editor.getSelectionPageBounds()
+  if (bounds && !editor.getViewportPageBounds().contains(bounds)) {
+    editor.zoomToSelection()
+  }
+
+  return topLevelIds
+}
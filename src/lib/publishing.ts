@@ -0,0 +1,53 @@
+import { supabase } from './supabase'
+import { migrateBoardDocument } from './boardDocument'
+import type { BoardDocument } from './boardDocument'
+import { applyBoardChanges } from './boardPersistence'
+import type { BoardChanges } from './boardPersistence'
+
+// 128 random bits, URL-safe - long enough that published links can't be guessed
+export const generatePublicSlug = () => {
+  const bytes = crypto.getRandomValues(new Uint8Array(16))
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '')
+}
+
+// Publishes or unpublishes a board. A board keeps its slug when unpublished,
+// so publishing it again brings the same link back.
+export const setBoardPublished = async (boardId: string, published: boolean, currentSlug?: string | null) => {
+  const publicSlug = currentSlug || generatePublicSlug()
+
+  const { data, error } = await supabase
+    .from('boards')
+    .update({ is_public: published, public_slug: publicSlug })
+    .eq('id', boardId)
+    .select('is_public, public_slug')
+    .single()
+
+  if (error) throw error
+  return data as { is_public: boolean; public_slug: string }
+}
+
+export interface PublishedBoard {
+  name: string
+  // null when the board was never saved
+  document: BoardDocument | null
+}
+
+// A published board by its slug, through get_published_board - visitors can't read
+// the boards table itself. null when no published board has this slug.
+export const fetchPublishedBoard = async (slug: string): Promise<PublishedBoard | null> => {
+  const { data, error } = await supabase.rpc('get_published_board', { slug })
+
+  if (error) throw error
+  if (!data) return null
+
+  const published = data as { name: string; board_data: unknown; changes: BoardChanges[] }
+  const migrated = migrateBoardDocument(published.board_data)
+
+  return {
+    name: published.name,
+    document: migrated ? applyBoardChanges(migrated.document, published.changes) : null
+  }
+}
@@ -0,0 +1,23 @@
+// Route paths used across the app
+export const DASHBOARD_PATH = '/dashboard'
+export const LOGIN_PATH = '/login'
+
+export const boardPath = (boardId: string) => `/boards/${encodeURIComponent(boardId)}`
+
+// Published board, readable without signing in
+export const publicBoardPath = (slug: string) => `/p/${encodeURIComponent(slug)}`
+
+// OAuth and magic link sign-ins leave the app, so the deep link a signed-out
+// user was heading to is kept in session storage until they come back.
+const RETURN_TO_KEY = 'mentor-board:return-to'
+
+export const rememberReturnTo = (path: string) => {
+  sessionStorage.setItem(RETURN_TO_KEY, path)
+}
+
+export const consumeReturnTo = (): string | null => {
+  const path = sessionStorage.getItem(RETURN_TO_KEY)
+  sessionStorage.removeItem(RETURN_TO_KEY)
+  // Only ever follow in-app paths
+  return path && path.startsWith('/') && !path.startsWith('//') ? path : null
+}
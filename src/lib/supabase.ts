@@ -14,11 +14,42 @@ export interface Board {
   id: string
   name: string
   description?: string
-  board_data: any
+  // Stored board document - read it through migrateBoardDocument
+  board_data: unknown
+  // Bumped on every board_data change; saves must be based on the current revision
+  revision: number
+  // Revision board_data was checkpointed at; later edits live in board_changes
+  checkpoint_revision: number
   created_at: string
   updated_at: string
   user_id: string
+  // Published boards can be opened by anyone at /p/<public_slug>
   is_public: boolean
+  public_slug?: string
+  // Image of the first page in the board-thumbnails bucket, see boardThumbnails.ts
+  thumbnail_path?: string | null
+  thumbnail_fingerprint?: string | null
+  thumbnail_updated_at?: string | null
+  // Folder in the owner's dashboard; null for the top level
+  folder_id?: string | null
+  tags: string[]
+  // Archived boards are hidden from the main grid; deleted ones are in the trash
+  archived_at?: string | null
+  deleted_at?: string | null
+  // Set when the board was opened to edit a template, see templateManagement.ts
+  editing_template_id?: string | null
+}
+
+// A board without its content, as the dashboard lists it
+export type BoardSummary = Omit<Board, 'board_data' | 'revision' | 'checkpoint_revision' | 'editing_template_id'>
+
+export interface BoardFolder {
+  id: string
+  user_id: string
+  parent_id: string | null
+  name: string
+  created_at: string
+  updated_at: string
 }
 
 export interface Profile {
@@ -35,13 +66,48 @@ export interface Template {
   name: string
   description?: string
   category: string
-  template_data: any
+  // Stored board document - read it through migrateBoardDocument
+  template_data: unknown
   preview_image?: string
   is_public: boolean
   created_at: string
   updated_at: string
   user_id: string
   usage_count: number
+  // Goes up by one whenever template_data changes; every version is kept in template_versions
+  version: number
+  // Kept up to date from template_reviews; null until the first review
+  rating_count: number
+  rating_average?: number | null
+  // Template this one was forked from, if it still exists
+  forked_from?: string | null
+}
+
+export interface TemplateVersion {
+  id: string
+  template_id: string
+  version: number
+  // Stored board document - read it through migrateBoardDocument
+  template_data: unknown
+  user_id: string
+  created_at: string
+}
+
+export interface TemplateReview {
+  id: string
+  template_id: string
+  user_id: string
+  rating: number
+  comment?: string | null
+  created_at: string
+  updated_at: string
+}
+
+// Name of someone who publishes or reviews templates (the template_authors view)
+export interface TemplateAuthor {
+  id: string
+  full_name?: string | null
+  public_template_count: number
 }
 
 export interface TemplateUsage {
@@ -49,6 +115,8 @@ export interface TemplateUsage {
   template_id: string
   user_id: string
   board_id?: string
+  // Version of the template that was used
+  template_version?: number | null
   used_at: string
 }
 
@@ -87,4 +155,39 @@ export interface BoardImage {
   metadata: any
   created_at: string
   updated_at: string
-}
\ No newline at end of file
+}
+export interface BoardVersion {
+  id: string
+  board_id: string
+  user_id: string
+  kind: 'auto' | 'manual'
+  name?: string
+  // Stored board document - read it through migrateBoardDocument
+  board_data: unknown
+  shape_count: number
+  created_at: string
+}
+
+export interface BoardChange {
+  id: string
+  board_id: string
+  user_id: string
+  revision: number
+  // tldraw RecordsDiff of document-scope records
+  changes: unknown
+  created_at: string
+}
+
+export type BoardRole = 'owner' | 'mentor' | 'mentee' | 'viewer'
+
+export interface BoardMember {
+  id: string
+  board_id: string
+  // Null until the invited email signs up
+  user_id?: string
+  email: string
+  role: BoardRole
+  invited_by?: string
+  created_at: string
+  updated_at: string
+}
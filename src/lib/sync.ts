@@ -0,0 +1,86 @@
+import type { TLAssetStore } from 'tldraw'
+import { BOARD_FILES_BUCKET, boardFilesFolder } from '../../shared/boardFiles'
+import type { BoardConflictResolution } from '../../shared/boards'
+import { supabase } from './supabase'
+
+// Self-hosted sync server (see server/). Defaults to the one `npm run dev:sync` starts.
+export const SYNC_SERVER_URL = import.meta.env.VITE_SYNC_SERVER_URL || 'ws://localhost:5858'
+
+// Each board has one sync room, so the server can check who may join it and write
+// the room back to the board. Collaboration room links open that same room.
+export const syncRoomId = (boardId: string) => `board-${boardId}`
+
+// The server checks the Supabase access token when the connection starts. Browsers
+// can't set headers on WebSocket requests, so it travels in the query string.
+// Called again on every reconnect, so an expired token is refreshed first.
+export const syncRoomUri = async (roomId: string) => {
+  const { data: { session } } = await supabase.auth.getSession()
+
+  const url = new URL(`${SYNC_SERVER_URL}/connect/${encodeURIComponent(roomId)}`)
+  if (session) {
+    url.searchParams.set('token', session.access_token)
+  }
+
+  return url.toString()
+}
+
+// Calls one of the sync server's HTTP endpoints as the signed-in user
+export const postToSyncServer = async (path: string, body?: unknown) => {
+  const { data: { session } } = await supabase.auth.getSession()
+
+  const headers: Record<string, string> = {}
+  if (session) headers.Authorization = `Bearer ${session.access_token}`
+  if (body !== undefined) headers['Content-Type'] = 'application/json'
+
+  return fetch(new URL(path, SYNC_SERVER_URL.replace(/^ws/, 'http')), {
+    method: 'POST',
+    headers,
+    body: body === undefined ? undefined : JSON.stringify(body)
+  })
+}
+
+// Asks the sync server to write the board's room now, as a new checkpoint (the Save button)
+export const saveSyncRoom = async (roomId: string) => {
+  const response = await postToSyncServer(`/save/${encodeURIComponent(roomId)}`)
+  if (response.status === 409) throw new Error('The board was saved from somewhere else - choose what to keep first')
+  if (!response.ok) throw new Error(`The sync server could not save the board (${response.status})`)
+}
+
+// Resolves a board's save conflict (see SaveConflictModal). Returns the id of the new
+// board for 'copy'.
+export const resolveSyncConflict = async (roomId: string, resolution: BoardConflictResolution) => {
+  const response = await postToSyncServer(`/resolve-conflict/${encodeURIComponent(roomId)}`, { resolution })
+  if (!response.ok) throw new Error(`The sync server could not resolve the conflict (${response.status})`)
+
+  const { boardId } = await response.json() as { boardId: string | null }
+  return boardId
+}
+
+// Images and videos added to a board go to our own storage bucket
+export const createBoardAssetStore = (boardId: string): TLAssetStore => ({
+  async upload(asset, file) {
+    const fileExt = file.name.split('.').pop()
+    const filePath = `${boardFilesFolder(boardId)}/assets/${Date.now()}-${Math.random().toString(36).substring(7)}.${fileExt}`
+
+    const { error } = await supabase.storage
+      .from(BOARD_FILES_BUCKET)
+      .upload(filePath, file, {
+        cacheControl: '3600',
+        contentType: file.type,
+        upsert: false
+      })
+
+    if (error) throw error
+
+    const { data } = supabase.storage
+      .from(BOARD_FILES_BUCKET)
+      .getPublicUrl(filePath)
+
+    console.log('📸 Uploaded board asset:', asset.id)
+    return { src: data.publicUrl }
+  },
+
+  resolve(asset) {
+    return asset.props.src
+  }
+})
@@ -0,0 +1,12 @@
+export const TEMPLATE_CATEGORIES = [
+  { value: 'mentoring', label: '🎯 Mentoring' },
+  { value: 'feedback', label: '💬 Feedback' },
+  { value: 'planning', label: '📋 Planning' },
+  { value: 'brainstorming', label: '💡 Brainstorming' },
+  { value: 'retrospective', label: '🔄 Retrospective' },
+  { value: 'onboarding', label: '👋 Onboarding' },
+  { value: 'custom', label: '⚙️ Custom' }
+]
+
+export const templateCategoryLabel = (category: string) =>
+  TEMPLATE_CATEGORIES.find(option => option.value === category)?.label ?? category
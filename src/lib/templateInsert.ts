@@ -0,0 +1,148 @@
+import { Box, createShapeId, getIndicesAbove } from 'tldraw'
+import type { Editor, TLAssetId, TLFrameShape, TLPage, TLRecord, TLShape, TLShapeId } from 'tldraw'
+import { readDocumentRecords, remapRecordIds, uploadEmbeddedAssets } from './boardImport'
+import type { ImportFailure } from './boardImport'
+import type { BoardDocument } from './boardDocument'
+
+// Insert adds the template beside what is on the page; replace swaps the whole board for it
+export type TemplateLoadMode = 'insert' | 'replace'
+
+export interface TemplateInsertResult {
+  frameIds: TLShapeId[]
+  shapeCount: number
+  failures: ImportFailure[]
+}
+
+// Space between the template's content and the frame around it
+const FRAME_PADDING = 40
+// Space kept free around shapes already on the page (frame names sit above the frame)
+const PLACEMENT_GAP = 80
+const MAX_PLACEMENT_STEPS = 200
+
+const byIndex = (a: { index: string }, b: { index: string }) => (a.index < b.index ? -1 : a.index > b.index ? 1 : 0)
+
+// Points the template's images at assets the board already has with the same
+// source, so inserting a template again doesn't store its images again
+const reuseExistingAssets = (editor: Editor, records: TLRecord[]) => {
+  const bySource = new Map<string, TLAssetId>()
+  editor.getAssets().forEach(asset => {
+    if (asset.props.src) bySource.set(asset.props.src, asset.id)
+  })
+
+  const replaced = new Map<string, TLAssetId>()
+  records.forEach(record => {
+    if (record.typeName !== 'asset' || !record.props.src) return
+    const existing = bySource.get(record.props.src)
+    if (existing) {
+      replaced.set(record.id, existing)
+    } else {
+      bySource.set(record.props.src, record.id)
+    }
+  })
+
+  return records
+    .filter(record => !replaced.has(record.id))
+    .map(record => {
+      if (record.typeName !== 'shape' || !('assetId' in record.props) || !record.props.assetId) return record
+      const assetId = replaced.get(record.props.assetId)
+      return assetId ? ({ ...record, props: { ...record.props, assetId } } as TLShape) : record
+    })
+}
+
+// Slides the box to the right, past whatever it overlaps, until it is clear
+const findFreeSpot = (box: Box, obstacles: Box[]) => {
+  const spot = box.clone()
+  for (let step = 0; step < MAX_PLACEMENT_STEPS; step++) {
+    const blocking = obstacles.filter(obstacle => Box.ExpandBy(obstacle, PLACEMENT_GAP).collides(spot))
+    if (blocking.length === 0) break
+    spot.x = Math.max(...blocking.map(obstacle => obstacle.maxX)) + PLACEMENT_GAP
+  }
+  return spot
+}
+
+// Adds a template to the current page without touching anything already on
+// the board. Each of the template's pages becomes a frame named after the
+// template, centred in the viewport or moved right until it overlaps nothing.
+// Records get fresh ids, and images the board already has are reused.
+export const insertTemplateDocument = async (editor: Editor, document: BoardDocument, name: string): Promise<TemplateInsertResult> => {
+  const failures: ImportFailure[] = []
+  const records = remapRecordIds(await uploadEmbeddedAssets(
+    reuseExistingAssets(editor, readDocumentRecords(editor.store, document, failures)),
+    (asset, file) => editor.uploadAsset(asset, file),
+    failures
+  ))
+
+  const pages = records.filter((record): record is TLPage => record.typeName === 'page').sort(byIndex)
+  const pageIds = new Set<string>(pages.map(page => page.id))
+  const topLevelShapes = records
+    .filter((record): record is TLShape => record.typeName === 'shape' && pageIds.has(record.parentId))
+    .sort(byIndex)
+  if (topLevelShapes.length === 0) {
+    throw new Error(`"${name}" has nothing that could be added to the board`)
+  }
+
+  // Everything goes on the current page, above what is already there
+  const currentPageId = editor.getCurrentPageId()
+  const indexes = getIndicesAbove(editor.getHighestIndexForParent(currentPageId), topLevelShapes.length)
+  const placed = new Map<string, TLRecord>(
+    topLevelShapes.map((shape, i) => [shape.id, { ...shape, parentId: currentPageId, index: indexes[i] }])
+  )
+  const content = records.filter(record => record.typeName !== 'page').map(record => placed.get(record.id) ?? record)
+
+  const viewport = editor.getViewportPageBounds()
+  const obstacles = editor.getSortedChildIdsForParent(currentPageId)
+    .map(id => editor.getShapePageBounds(id))
+    .filter((bounds): bounds is Box => !!bounds)
+  const frameIds: TLShapeId[] = []
+
+  editor.markHistoryStoppingPoint('insert template')
+  editor.run(() => {
+    editor.store.put(content)
+
+    pages.forEach(page => {
+      const shapeIds = topLevelShapes.filter(shape => shape.parentId === page.id).map(shape => shape.id)
+      if (shapeIds.length === 0) return
+      const bounds = Box.Common(shapeIds.map(id => editor.getShapePageBounds(id)).filter((box): box is Box => !!box))
+
+      const frameId = createShapeId()
+      editor.createShape<TLFrameShape>({
+        id: frameId,
+        type: 'frame',
+        x: bounds.x - FRAME_PADDING,
+        y: bounds.y - FRAME_PADDING,
+        props: {
+          name: pages.length > 1 ? `${name}: ${page.name}` : name,
+          w: bounds.w + FRAME_PADDING * 2,
+          h: bounds.h + FRAME_PADDING * 2
+        }
+      })
+      editor.reparentShapes(shapeIds, frameId)
+
+      const frameBounds = editor.getShapePageBounds(frameId)!
+      const centred = new Box(
+        viewport.center.x - frameBounds.w / 2,
+        viewport.center.y - frameBounds.h / 2,
+        frameBounds.w,
+        frameBounds.h
+      )
+      const spot = findFreeSpot(centred, obstacles)
+      editor.nudgeShapes([frameId], { x: spot.x - frameBounds.x, y: spot.y - frameBounds.y })
+
+      obstacles.push(spot)
+      frameIds.push(frameId)
+    })
+
+    editor.select(...frameIds)
+  })
+
+  const selection = editor.getSelectionPageBounds()
+  if (selection && !editor.getViewportPageBounds().contains(selection)) {
+    editor.zoomToSelection()
+  }
+
+  return {
+    frameIds,
+    shapeCount: content.filter(record => record.typeName === 'shape').length,
+    failures
+  }
+}
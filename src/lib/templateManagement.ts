@@ -0,0 +1,135 @@
+import type { Editor } from 'tldraw'
+import { supabase } from './supabase'
+import type { Template, TemplateVersion } from './supabase'
+import { createBoardDocument } from './boardDocument'
+import { boardHasShapes } from './boardPages'
+import { TEMPLATE_PREVIEW_BUCKET, renderTemplatePreview, templatePreviewPath, uploadTemplatePreview } from './templatePreviews'
+
+export type TemplateDetails = Pick<Template, 'name' | 'description' | 'category' | 'is_public'>
+
+export const fetchOwnTemplates = async (userId: string): Promise<Template[]> => {
+  const { data, error } = await supabase
+    .from('templates')
+    .select('*')
+    .eq('user_id', userId)
+    .order('updated_at', { ascending: false })
+
+  if (error) throw error
+  return data || []
+}
+
+// Name, description, category and visibility; the content only changes through a new version
+export const updateTemplateDetails = async (templateId: string, details: TemplateDetails): Promise<Template> => {
+  const { data, error } = await supabase
+    .from('templates')
+    .update({
+      name: details.name.trim(),
+      description: details.description?.trim() || null,
+      category: details.category,
+      is_public: details.is_public
+    })
+    .eq('id', templateId)
+    .select()
+    .single()
+
+  if (error) throw error
+  return data
+}
+
+// Boards made from the template keep their content. The preview goes first:
+// storage only lets the owner of an existing template remove it.
+export const deleteTemplate = async (template: Pick<Template, 'id' | 'preview_image'>) => {
+  if (template.preview_image) {
+    const { error: previewError } = await supabase.storage
+      .from(TEMPLATE_PREVIEW_BUCKET)
+      .remove([templatePreviewPath(template.id)])
+
+    if (previewError) console.error('Error removing template preview:', previewError)
+  }
+
+  const { error } = await supabase
+    .from('templates')
+    .delete()
+    .eq('id', template.id)
+
+  if (error) throw error
+}
+
+// Newest first, without their content
+export const fetchTemplateVersions = async (templateId: string): Promise<Omit<TemplateVersion, 'template_data'>[]> => {
+  const { data, error } = await supabase
+    .from('template_versions')
+    .select('id, template_id, version, user_id, created_at')
+    .eq('template_id', templateId)
+    .order('version', { ascending: false })
+
+  if (error) throw error
+  return data || []
+}
+
+// Replaces the template's content. The database stores it as the next version
+// (see bump_template_version), so earlier versions stay available.
+const saveTemplateContent = async (templateId: string, templateData: unknown): Promise<Template> => {
+  const { data, error } = await supabase
+    .from('templates')
+    .update({ template_data: templateData })
+    .eq('id', templateId)
+    .select()
+    .single()
+
+  if (error) throw error
+  return data
+}
+
+// Brings an earlier version back by saving its content as a new version
+export const restoreTemplateVersion = async (templateId: string, versionId: string): Promise<Template> => {
+  const { data: version, error } = await supabase
+    .from('template_versions')
+    .select('template_data')
+    .eq('id', versionId)
+    .single()
+
+  if (error) throw error
+  return saveTemplateContent(templateId, version.template_data)
+}
+
+// Creates a private board with the template's content, linked to the template
+// so it can be saved back as a new version
+export const openTemplateAsBoard = async (template: Template, userId: string): Promise<string> => {
+  const { data, error } = await supabase
+    .from('boards')
+    .insert({
+      name: `${template.name} (template v${template.version})`,
+      description: template.description || null,
+      user_id: userId,
+      board_data: template.template_data,
+      is_public: false,
+      editing_template_id: template.id
+    })
+    .select('id')
+    .single()
+
+  if (error) throw error
+  return data.id
+}
+
+// Saves what is on the board as the template's next version, with a new preview
+export const saveBoardAsTemplateVersion = async (editor: Editor, templateId: string): Promise<Template> => {
+  // Every page is saved, so the board is only empty when all its pages are
+  if (!boardHasShapes(editor)) {
+    throw new Error('Cannot save an empty board as a template')
+  }
+
+  const template = await saveTemplateContent(templateId, createBoardDocument(editor, 'template'))
+
+  try {
+    const preview = await renderTemplatePreview(editor)
+    if (preview) template.preview_image = await uploadTemplatePreview(templateId, preview)
+  } catch (previewError) {
+    // The new version is saved either way; it just keeps the old preview
+    console.error('Error updating template preview:', previewError)
+  }
+
+  console.log(`📐 Saved template version ${template.version}`)
+  return template
+}
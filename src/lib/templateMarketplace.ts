@@ -0,0 +1,159 @@
+import { supabase } from './supabase'
+import type { Template, TemplateAuthor, TemplateReview } from './supabase'
+import { copyTemplatePreview } from './templatePreviews'
+
+// The marketplace lists public templates without their board data, which is only
+// loaded once a template is used or forked
+export type MarketplaceTemplate = Omit<Template, 'template_data'>
+export type MarketplaceSort = 'popular' | 'rating' | 'newest'
+
+export interface MarketplaceQuery {
+  search: string
+  category: string | null
+  authorId: string | null
+  sort: MarketplaceSort
+}
+
+export const MARKETPLACE_SORTS: { value: MarketplaceSort; label: string; column: 'usage_count' | 'rating_average' | 'created_at' }[] = [
+  { value: 'popular', label: 'Most used', column: 'usage_count' },
+  { value: 'rating', label: 'Top rated', column: 'rating_average' },
+  { value: 'newest', label: 'Newest first', column: 'created_at' },
+]
+
+export const MARKETPLACE_PAGE_SIZE = 48
+
+const LISTING_COLUMNS = 'id, name, description, category, preview_image, is_public, created_at, updated_at, user_id, usage_count, version, rating_count, rating_average, forked_from'
+
+// Searches the name and description (see templates.search_vector)
+export const searchMarketplaceTemplates = async (query: MarketplaceQuery): Promise<MarketplaceTemplate[]> => {
+  const sort = MARKETPLACE_SORTS.find(option => option.value === query.sort) ?? MARKETPLACE_SORTS[0]
+
+  let request = supabase
+    .from('templates')
+    .select(LISTING_COLUMNS)
+    .eq('is_public', true)
+
+  if (query.search.trim()) {
+    request = request.textSearch('search_vector', query.search.trim(), { type: 'websearch', config: 'simple' })
+  }
+  if (query.category) {
+    request = request.eq('category', query.category)
+  }
+  if (query.authorId) {
+    request = request.eq('user_id', query.authorId)
+  }
+
+  const { data, error } = await request
+    .order(sort.column, { ascending: false, nullsFirst: false })
+    .order('created_at', { ascending: false })
+    .range(0, MARKETPLACE_PAGE_SIZE - 1)
+
+  if (error) throw error
+  return (data || []) as MarketplaceTemplate[]
+}
+
+export const fetchMarketplaceTemplate = async (templateId: string): Promise<MarketplaceTemplate> => {
+  const { data, error } = await supabase
+    .from('templates')
+    .select(LISTING_COLUMNS)
+    .eq('id', templateId)
+    .single()
+
+  if (error) throw error
+  return data as MarketplaceTemplate
+}
+
+// Everyone who publishes or reviews templates, by name
+export const fetchTemplateAuthors = async (): Promise<TemplateAuthor[]> => {
+  const { data, error } = await supabase
+    .from('template_authors')
+    .select('*')
+    .order('full_name')
+
+  if (error) throw error
+  return data || []
+}
+
+export const authorDisplayName = (authors: Map<string, TemplateAuthor>, userId: string) =>
+  authors.get(userId)?.full_name || 'Anonymous'
+
+export const fetchTemplateReviews = async (templateId: string): Promise<TemplateReview[]> => {
+  const { data, error } = await supabase
+    .from('template_reviews')
+    .select('*')
+    .eq('template_id', templateId)
+    .order('updated_at', { ascending: false })
+
+  if (error) throw error
+  return data || []
+}
+
+// Each person has one review per template; reviewing again replaces it
+export const saveTemplateReview = async (templateId: string, userId: string, rating: number, comment: string) => {
+  const { data, error } = await supabase
+    .from('template_reviews')
+    .upsert(
+      { template_id: templateId, user_id: userId, rating, comment: comment.trim() || null },
+      { onConflict: 'template_id,user_id' }
+    )
+    .select()
+    .single()
+
+  if (error) throw error
+  return data as TemplateReview
+}
+
+export const deleteTemplateReview = async (reviewId: string) => {
+  const { error } = await supabase
+    .from('template_reviews')
+    .delete()
+    .eq('id', reviewId)
+
+  if (error) throw error
+}
+
+export const fetchTemplate = async (templateId: string): Promise<Template> => {
+  const { data, error } = await supabase
+    .from('templates')
+    .select('*')
+    .eq('id', templateId)
+    .single()
+
+  if (error) throw error
+  return data
+}
+
+// Copies a public template into the user's own templates as a private template
+// that remembers where it came from. The preview is copied too, when there is one.
+export const forkTemplate = async (templateId: string, userId: string): Promise<Template> => {
+  const original = await fetchTemplate(templateId)
+
+  const { data: fork, error } = await supabase
+    .from('templates')
+    .insert({
+      id: crypto.randomUUID(),
+      name: original.name,
+      description: original.description || null,
+      category: original.category,
+      template_data: original.template_data,
+      is_public: false,
+      user_id: userId,
+      forked_from: original.id
+    })
+    .select()
+    .single()
+
+  if (error) throw error
+
+  if (original.preview_image) {
+    try {
+      fork.preview_image = await copyTemplatePreview(original.id, fork.id)
+    } catch (previewError) {
+      // The fork works without it; it just shows without a preview
+      console.error('Error copying template preview:', previewError)
+    }
+  }
+
+  console.log('🍴 Forked template:', original.name)
+  return fork
+}
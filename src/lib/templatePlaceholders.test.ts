@@ -0,0 +1,82 @@
+import { describe, expect, it, vi } from 'vitest'
+import type { TLRecord } from 'tldraw'
+import type { BoardDocument } from './boardDocument'
+import { automaticPlaceholderValues, fillTemplatePlaceholders, findDocumentPlaceholders, findTemplatePlaceholders, placeholderLabel } from './templatePlaceholders'
+
+// Only fetchPlaceholderContext talks to the database
+vi.mock('./supabase', () => ({ supabase: {} }))
+
+const richText = (text: string) => ({ type: 'doc', content: [{ type: 'paragraph', content: [{ type: 'text', text }] }] })
+
+const note = (id: string, text: string) =>
+  ({ id: `shape:${id}`, typeName: 'shape', type: 'note', props: { richText: richText(text) } }) as unknown as TLRecord
+
+const frame = (id: string, name: string) =>
+  ({ id: `shape:${id}`, typeName: 'shape', type: 'frame', props: { name } }) as unknown as TLRecord
+
+const page = { id: 'page:1', typeName: 'page', name: '{{not_a_shape}}' } as unknown as TLRecord
+
+const documentOf = (...records: TLRecord[]) => ({
+  version: 2,
+  storeSnapshot: { schema: {}, store: Object.fromEntries(records.map(record => [record.id, record])) },
+  metadata: { savedAt: '2026-01-01T00:00:00.000Z', shapeCount: records.length }
+}) as unknown as BoardDocument
+
+describe('findTemplatePlaceholders', () => {
+  it('lists placeholder names in shape text once each, in lower case', () => {
+    const records = [
+      frame('f', '{{ Mentee_Name }} goals'),
+      note('a', 'Check in on {{quarter}} with {{mentee_name}}'),
+      note('b', 'No placeholders {here}'),
+      page
+    ]
+
+    expect(findTemplatePlaceholders(records)).toEqual(['mentee_name', 'quarter'])
+  })
+})
+
+describe('fillTemplatePlaceholders', () => {
+  it('fills placeholders with values and leaves the rest in place', () => {
+    const document = documentOf(frame('f', '{{goal}} for {{ Quarter }}'), note('a', 'Owner: {{owner}}'), page)
+    const filled = fillTemplatePlaceholders(document, { goal: 'Ship it', quarter: 'Q3 2026' })
+    const store = filled.storeSnapshot.store as Record<string, TLRecord>
+
+    expect((store['shape:f'] as unknown as { props: { name: string } }).props.name).toBe('Ship it for Q3 2026')
+    expect(findDocumentPlaceholders(filled)).toEqual(['owner'])
+    expect(store['page:1']).toBe(page)
+    // The template document itself is left alone
+    expect(findDocumentPlaceholders(document)).toEqual(['goal', 'quarter', 'owner'])
+  })
+})
+
+describe('automaticPlaceholderValues', () => {
+  const context = { boardName: 'Weekly 1:1', userName: 'Sam', mentorNames: [], menteeNames: [] }
+  const now = new Date(2026, 7, 15)
+
+  it('fills dates and names from the board', () => {
+    const values = automaticPlaceholderValues({ ...context, mentorNames: ['Ana', 'Lee'], menteeNames: ['Kim'] }, now)
+
+    expect(values).toMatchObject({
+      quarter: 'Q3 2026',
+      year: '2026',
+      board_name: 'Weekly 1:1',
+      my_name: 'Sam',
+      mentor_name: 'Ana & Lee',
+      mentee_name: 'Kim'
+    })
+    expect(values.date).toBe(values.session_date)
+  })
+
+  it('falls back to the user as mentor and leaves mentees to be filled in', () => {
+    const values = automaticPlaceholderValues(context, now)
+
+    expect(values.mentor_name).toBe('Sam')
+    expect(values).not.toHaveProperty('mentee_name')
+  })
+})
+
+describe('placeholderLabel', () => {
+  it('turns a placeholder name into a field label', () => {
+    expect(placeholderLabel('mentee_name')).toBe('Mentee name')
+  })
+})
@@ -0,0 +1,152 @@
+import type { User } from '@supabase/supabase-js'
+import type { TLRecord } from 'tldraw'
+import { supabase } from './supabase'
+import type { BoardDocument } from './boardDocument'
+
+// What the board and the signed-in user can fill placeholders with
+export interface PlaceholderContext {
+  boardName: string
+  userName: string
+  mentorNames: string[]
+  menteeNames: string[]
+}
+
+// Loose view of tldraw's rich text (a TipTap document)
+interface RichTextNode {
+  text?: string
+  content?: RichTextNode[]
+}
+
+// {{name}}, with optional spaces inside the braces. Names are case-insensitive.
+const PLACEHOLDER = /\{\{\s*([a-z][a-z0-9_]*)\s*\}\}/gi
+
+// Placeholders that are filled in for you, for the hint shown when saving a template
+export const AUTOMATIC_PLACEHOLDERS: { name: string; description: string }[] = [
+  { name: 'session_date', description: "today's date" },
+  { name: 'quarter', description: 'this quarter, e.g. Q3 2026' },
+  { name: 'month', description: 'this month' },
+  { name: 'year', description: 'this year' },
+  { name: 'board_name', description: "the board's name" },
+  { name: 'my_name', description: 'your name' },
+  { name: 'mentor_name', description: "the board's mentors, or you" },
+  { name: 'mentee_name', description: "the board's mentees" }
+]
+
+const mapRichText = (node: RichTextNode, fn: (text: string) => string): RichTextNode => ({
+  ...node,
+  ...(typeof node.text === 'string' ? { text: fn(node.text) } : {}),
+  ...(Array.isArray(node.content) ? { content: node.content.map(child => mapRichText(child, fn)) } : {})
+})
+
+// Applies fn to every piece of text a shape shows: rich text, frame names and arrow labels
+const mapShapeText = (record: TLRecord, fn: (text: string) => string): TLRecord => {
+  if (record.typeName !== 'shape') return record
+
+  const props = record.props as Record<string, unknown>
+  const next = { ...props }
+  if (props.richText && typeof props.richText === 'object') next.richText = mapRichText(props.richText as RichTextNode, fn)
+  if (typeof props.name === 'string') next.name = fn(props.name)
+  if (typeof props.text === 'string') next.text = fn(props.text)
+
+  return { ...record, props: next } as TLRecord
+}
+
+// Placeholder names used in the records, in lower case, in the order they first appear
+export const findTemplatePlaceholders = (records: TLRecord[]): string[] => {
+  const names = new Set<string>()
+  records.forEach(record => mapShapeText(record, text => {
+    for (const match of text.matchAll(PLACEHOLDER)) names.add(match[1].toLowerCase())
+    return text
+  }))
+  return [...names]
+}
+
+export const findDocumentPlaceholders = (document: BoardDocument) =>
+  findTemplatePlaceholders(Object.values(document.storeSnapshot.store))
+
+// Replaces placeholders with their values. Placeholders without a value are left in place.
+export const fillTemplatePlaceholders = (document: BoardDocument, values: Record<string, string>): BoardDocument => {
+  const fill = (text: string) => text.replace(PLACEHOLDER, (match, name: string) => values[name.toLowerCase()] || match)
+
+  return {
+    ...document,
+    storeSnapshot: {
+      ...document.storeSnapshot,
+      store: Object.fromEntries(
+        Object.entries(document.storeSnapshot.store).map(([id, record]) => [id, mapShapeText(record, fill)])
+      ) as BoardDocument['storeSnapshot']['store']
+    }
+  }
+}
+
+// "mentee_name" -> "Mentee name"
+export const placeholderLabel = (name: string) => {
+  const words = name.replace(/_+/g, ' ').trim()
+  return words.charAt(0).toUpperCase() + words.slice(1)
+}
+
+const joinNames = (names: string[]) => names.join(' & ')
+
+export const automaticPlaceholderValues = (context: PlaceholderContext, now = new Date()): Record<string, string> => {
+  const sessionDate = now.toLocaleDateString(undefined, { dateStyle: 'long' })
+  const values: Record<string, string> = {
+    session_date: sessionDate,
+    date: sessionDate,
+    quarter: `Q${Math.floor(now.getMonth() / 3) + 1} ${now.getFullYear()}`,
+    month: now.toLocaleDateString(undefined, { month: 'long' }),
+    year: String(now.getFullYear()),
+    board_name: context.boardName,
+    my_name: context.userName,
+    mentor_name: joinNames(context.mentorNames) || context.userName
+  }
+  if (context.menteeNames.length > 0) values.mentee_name = joinNames(context.menteeNames)
+
+  return values
+}
+
+// The user's name from their profile, and the names of the board's mentors and mentees
+export const fetchPlaceholderContext = async (boardId: string, boardName: string, user: User): Promise<PlaceholderContext> => {
+  const context: PlaceholderContext = {
+    boardName,
+    userName: user.user_metadata?.full_name || user.email || '',
+    mentorNames: [],
+    menteeNames: []
+  }
+
+  try {
+    const { data: profile, error: profileError } = await supabase
+      .from('profiles')
+      .select('full_name')
+      .eq('id', user.id)
+      .maybeSingle()
+
+    if (profileError) throw profileError
+    if (profile?.full_name) context.userName = profile.full_name
+
+    const { data: members, error: membersError } = await supabase
+      .from('board_members')
+      .select('email, user_id, role')
+      .eq('board_id', boardId)
+      .in('role', ['mentor', 'mentee'])
+
+    if (membersError) throw membersError
+
+    const memberIds = (members || []).map(member => member.user_id).filter(Boolean)
+    const { data: memberProfiles, error: memberProfilesError } = memberIds.length > 0
+      ? await supabase.from('profiles').select('id, full_name').in('id', memberIds)
+      : { data: [], error: null }
+
+    if (memberProfilesError) throw memberProfilesError
+
+    const nameOf = (member: { email: string; user_id: string | null }) =>
+      (memberProfiles || []).find(memberProfile => memberProfile.id === member.user_id)?.full_name || member.email
+
+    context.mentorNames = (members || []).filter(member => member.role === 'mentor').map(nameOf)
+    context.menteeNames = (members || []).filter(member => member.role === 'mentee').map(nameOf)
+  } catch (error) {
+    // Names are a convenience; the user can still type them in
+    console.error('Error loading names for template placeholders:', error)
+  }
+
+  return context
+}
@@ -0,0 +1,83 @@
+import type { Editor } from 'tldraw'
+import { supabase } from './supabase'
+import type { Template } from './supabase'
+import { rasterizeSvg } from './boardThumbnails'
+
+// Previews live in a private bucket at <template id>/preview.png and are shown
+// through short-lived signed URLs, so only people who can see the template see them
+export const TEMPLATE_PREVIEW_BUCKET = 'template-previews'
+export const TEMPLATE_PREVIEW_WIDTH = 640
+export const TEMPLATE_PREVIEW_HEIGHT = 400
+const PREVIEW_URL_TTL_SECONDS = 60 * 60
+
+export const templatePreviewPath = (templateId: string) => `${templateId}/preview.png`
+
+// Renders the page being shown, which is what a template is saved from
+export const renderTemplatePreview = async (editor: Editor): Promise<Blob | null> => {
+  const shapes = editor.getCurrentPageShapes()
+  if (shapes.length === 0) return null
+
+  const result = await editor.getSvgString(shapes, { background: true, padding: 32 })
+  if (!result) return null
+
+  return rasterizeSvg(result.svg, TEMPLATE_PREVIEW_WIDTH, TEMPLATE_PREVIEW_HEIGHT)
+}
+
+// Stores the preview and points the template at it. The template row must exist
+// first: storage access is checked against its owner.
+export const uploadTemplatePreview = async (templateId: string, image: Blob) => {
+  const path = templatePreviewPath(templateId)
+
+  const { error: uploadError } = await supabase.storage
+    .from(TEMPLATE_PREVIEW_BUCKET)
+    .upload(path, image, { contentType: 'image/png', upsert: true })
+
+  if (uploadError) throw uploadError
+
+  const { error } = await supabase
+    .from('templates')
+    .update({ preview_image: path })
+    .eq('id', templateId)
+
+  if (error) throw error
+  return path
+}
+
+// Signed URLs for the templates that have a preview, keyed by template id
+export const fetchTemplatePreviewUrls = async (templates: Pick<Template, 'id' | 'preview_image'>[]) => {
+  const withPreviews = templates.filter(template => template.preview_image)
+  const urls = new Map<string, string>()
+  if (withPreviews.length === 0) return urls
+
+  const { data, error } = await supabase.storage
+    .from(TEMPLATE_PREVIEW_BUCKET)
+    .createSignedUrls(withPreviews.map(template => template.preview_image!), PREVIEW_URL_TTL_SECONDS)
+
+  if (error) throw error
+
+  data.forEach((signed, i) => {
+    if (signed.signedUrl) {
+      urls.set(withPreviews[i].id, signed.signedUrl)
+    }
+  })
+  return urls
+}
+
+// Gives a forked template its own copy of the original's preview
+export const copyTemplatePreview = async (fromTemplateId: string, toTemplateId: string) => {
+  const path = templatePreviewPath(toTemplateId)
+
+  const { error: copyError } = await supabase.storage
+    .from(TEMPLATE_PREVIEW_BUCKET)
+    .copy(templatePreviewPath(fromTemplateId), path)
+
+  if (copyError) throw copyError
+
+  const { error } = await supabase
+    .from('templates')
+    .update({ preview_image: path })
+    .eq('id', toTemplateId)
+
+  if (error) throw error
+  return path
+}
@@ -0,0 +1,44 @@
+import { supabase } from './supabase'
+import type { Template } from './supabase'
+
+// What a template's author can see about how it is used (template_usage_stats)
+export interface TemplateUsageStats {
+  total_uses: number
+  unique_users: number
+  // Boards the template was applied to, and those not archived or in the trash
+  boards: number
+  active_boards: number
+  // The last 12 weeks, oldest first; week is the Monday the week starts on
+  weekly_uses: { week: string; uses: number }[]
+  // Newest version first; version is null for uses recorded before versions existed
+  version_uses: { version: number | null; uses: number }[]
+}
+
+// Logs that a template was applied to a board, and which version of it, and bumps
+// its usage count, which orders the saved templates and the marketplace
+export const recordTemplateUsage = async (template: Pick<Template, 'id' | 'version'>, userId: string, boardId: string) => {
+  const { error } = await supabase.from('template_usage').insert({
+    template_id: template.id,
+    template_version: template.version,
+    user_id: userId,
+    board_id: boardId
+  })
+
+  if (error) throw error
+
+  const { error: countError } = await supabase.rpc('increment_template_usage', {
+    template_uuid: template.id
+  })
+
+  if (countError) throw countError
+}
+
+// Only works for the template's author
+export const fetchTemplateUsageStats = async (templateId: string): Promise<TemplateUsageStats> => {
+  const { data, error } = await supabase.rpc('template_usage_stats', {
+    template_uuid: templateId
+  })
+
+  if (error) throw error
+  return data as TemplateUsageStats
+}
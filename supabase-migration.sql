@@ -273,4 +273,1097 @@ CREATE INDEX idx_board_images_created_at ON public.board_images(created_at);
 -- Add trigger for updated_at on board_images
 CREATE TRIGGER handle_board_images_updated_at
     BEFORE UPDATE ON public.board_images
-    FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at(); 
\ No newline at end of file
+    FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at(); 
+-- Create board_versions table to keep a history of board snapshots
+CREATE TABLE public.board_versions (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    board_id UUID REFERENCES public.boards(id) ON DELETE CASCADE NOT NULL,
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    kind TEXT NOT NULL CHECK (kind IN ('auto', 'manual')),
+    name TEXT,
+    board_data JSONB NOT NULL,
+    shape_count INTEGER DEFAULT 0 NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+-- Enable Row Level Security for board_versions
+ALTER TABLE public.board_versions ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for board_versions (board owners manage the history)
+CREATE POLICY "Users can view versions of their boards" ON public.board_versions
+    FOR SELECT USING (
+        EXISTS (SELECT 1 FROM public.boards WHERE boards.id = board_id AND boards.user_id = auth.uid())
+    );
+
+CREATE POLICY "Users can create versions of their boards" ON public.board_versions
+    FOR INSERT WITH CHECK (
+        auth.uid() = user_id
+        AND EXISTS (SELECT 1 FROM public.boards WHERE boards.id = board_id AND boards.user_id = auth.uid())
+    );
+
+CREATE POLICY "Users can rename versions of their boards" ON public.board_versions
+    FOR UPDATE USING (
+        EXISTS (SELECT 1 FROM public.boards WHERE boards.id = board_id AND boards.user_id = auth.uid())
+    );
+
+CREATE POLICY "Users can delete versions of their boards" ON public.board_versions
+    FOR DELETE USING (
+        EXISTS (SELECT 1 FROM public.boards WHERE boards.id = board_id AND boards.user_id = auth.uid())
+    );
+
+-- Keep only the most recent automatic snapshots per board; named checkpoints are never pruned
+CREATE OR REPLACE FUNCTION public.prune_board_versions()
+RETURNS trigger AS $$
+BEGIN
+    DELETE FROM public.board_versions
+    WHERE board_id = NEW.board_id
+      AND kind = 'auto'
+      AND id NOT IN (
+          SELECT id FROM public.board_versions
+          WHERE board_id = NEW.board_id AND kind = 'auto'
+          ORDER BY created_at DESC
+          LIMIT 50
+      );
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER prune_board_versions_after_insert
+    AFTER INSERT ON public.board_versions
+    FOR EACH ROW WHEN (NEW.kind = 'auto')
+    EXECUTE FUNCTION public.prune_board_versions();
+
+-- Create indexes for board_versions
+CREATE INDEX idx_board_versions_board_id_created_at ON public.board_versions(board_id, created_at DESC);
+CREATE INDEX idx_board_versions_user_id ON public.board_versions(user_id);
+
+-- Optimistic concurrency for board saves
+-- Every change to a board must be based on the current revision; stale writes are rejected.
+-- board_data is a checkpoint of the board at checkpoint_revision; edits made since then
+-- are kept in board_changes (see below).
+ALTER TABLE public.boards ADD COLUMN IF NOT EXISTS revision INTEGER DEFAULT 0 NOT NULL;
+ALTER TABLE public.boards ADD COLUMN IF NOT EXISTS checkpoint_revision INTEGER DEFAULT 0 NOT NULL;
+
+CREATE OR REPLACE FUNCTION public.check_board_revision()
+RETURNS trigger AS $$
+BEGIN
+    -- The revision only ever moves forward, one step at a time
+    IF NEW.revision IS DISTINCT FROM OLD.revision AND NEW.revision IS DISTINCT FROM OLD.revision + 1 THEN
+        RAISE EXCEPTION 'Stale board save: based on revision %, current revision is %', NEW.revision - 1, OLD.revision
+            USING ERRCODE = '40001';
+    END IF;
+
+    IF NEW.board_data IS DISTINCT FROM OLD.board_data THEN
+        -- A new checkpoint must be based on the current revision
+        IF NEW.revision IS DISTINCT FROM OLD.revision + 1 THEN
+            RAISE EXCEPTION 'Stale board save: based on revision %, current revision is %', NEW.revision - 1, OLD.revision
+                USING ERRCODE = '40001';
+        END IF;
+        NEW.checkpoint_revision = NEW.revision;
+    ELSE
+        NEW.checkpoint_revision = OLD.checkpoint_revision;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER check_boards_revision
+    BEFORE UPDATE ON public.boards
+    FOR EACH ROW EXECUTE FUNCTION public.check_board_revision();
+
+-- Create board_changes table - the log of record diffs since the last checkpoint
+CREATE TABLE public.board_changes (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    board_id UUID REFERENCES public.boards(id) ON DELETE CASCADE NOT NULL,
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    revision INTEGER NOT NULL,
+    changes JSONB NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+    UNIQUE (board_id, revision)
+);
+
+-- Enable Row Level Security for board_changes
+ALTER TABLE public.board_changes ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for board_changes
+CREATE POLICY "Users can view changes of their boards" ON public.board_changes
+    FOR SELECT USING (
+        EXISTS (SELECT 1 FROM public.boards WHERE boards.id = board_id AND boards.user_id = auth.uid())
+    );
+
+CREATE POLICY "Users can record changes to their boards" ON public.board_changes
+    FOR INSERT WITH CHECK (
+        auth.uid() = user_id
+        AND EXISTS (SELECT 1 FROM public.boards WHERE boards.id = board_id AND boards.user_id = auth.uid())
+    );
+
+-- Appends one change on top of base_revision and returns the new revision
+CREATE OR REPLACE FUNCTION public.append_board_change(board_uuid UUID, base_revision INTEGER, change_data JSONB)
+RETURNS INTEGER AS $$
+DECLARE
+    new_revision INTEGER;
+BEGIN
+    UPDATE public.boards
+    SET revision = revision + 1,
+        updated_at = now()
+    WHERE id = board_uuid AND revision = base_revision
+    RETURNING revision INTO new_revision;
+
+    IF new_revision IS NULL THEN
+        RAISE EXCEPTION 'Stale board change: based on revision %', base_revision
+            USING ERRCODE = '40001';
+    END IF;
+
+    INSERT INTO public.board_changes (board_id, user_id, revision, changes)
+    VALUES (board_uuid, auth.uid(), new_revision, change_data);
+
+    RETURN new_revision;
+END;
+$$ LANGUAGE plpgsql;
+
+-- A new checkpoint makes the changes it contains redundant
+CREATE OR REPLACE FUNCTION public.compact_board_changes()
+RETURNS trigger AS $$
+BEGIN
+    DELETE FROM public.board_changes
+    WHERE board_id = NEW.id AND revision <= NEW.checkpoint_revision;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER compact_boards_changes
+    AFTER UPDATE ON public.boards
+    FOR EACH ROW WHEN (NEW.checkpoint_revision IS DISTINCT FROM OLD.checkpoint_revision)
+    EXECUTE FUNCTION public.compact_board_changes();
+
+-- Create indexes for board_changes
+CREATE INDEX idx_board_changes_board_id_revision ON public.board_changes(board_id, revision);
+
+-- Real-time sync rooms
+-- The self-hosted sync server (server/) keeps each room's live tldraw state here.
+-- Only the server reads and writes it, with the service role key, so no policies
+-- are granted to signed-in users.
+CREATE TABLE public.sync_rooms (
+    room_id TEXT PRIMARY KEY,
+    snapshot JSONB NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+-- Enable Row Level Security for sync_rooms
+ALTER TABLE public.sync_rooms ENABLE ROW LEVEL SECURITY;
+
+-- Board membership and roles
+-- A board's creator (boards.user_id) is always its owner. Everyone else gets access
+-- through board_members:
+--   owner  - edits the board and manages its members
+--   mentor - edits the board
+--   mentee - edits the board
+--   viewer - reads the board
+CREATE TABLE public.board_members (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    board_id UUID REFERENCES public.boards(id) ON DELETE CASCADE NOT NULL,
+    -- NULL until the invited email signs up
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+    email TEXT NOT NULL,
+    role TEXT NOT NULL CHECK (role IN ('owner', 'mentor', 'mentee', 'viewer')),
+    invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+    UNIQUE (board_id, email)
+);
+
+-- Enable Row Level Security for board_members
+ALTER TABLE public.board_members ENABLE ROW LEVEL SECURITY;
+
+-- The signed-in user's role on a board, or NULL without access.
+-- SECURITY DEFINER so policies can call it without recursing into each other.
+CREATE OR REPLACE FUNCTION public.board_role(board_uuid UUID)
+RETURNS TEXT AS $$
+    SELECT CASE
+        WHEN EXISTS (SELECT 1 FROM public.boards WHERE id = board_uuid AND user_id = auth.uid()) THEN 'owner'
+        ELSE (SELECT role FROM public.board_members WHERE board_id = board_uuid AND user_id = auth.uid())
+    END;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.can_view_board(board_uuid UUID)
+RETURNS BOOLEAN AS $$
+    SELECT public.board_role(board_uuid) IS NOT NULL;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION public.can_edit_board(board_uuid UUID)
+RETURNS BOOLEAN AS $$
+    SELECT public.board_role(board_uuid) IN ('owner', 'mentor', 'mentee');
+$$ LANGUAGE sql STABLE;
+
+-- Whether the signed-in user and another user are on a board together
+CREATE OR REPLACE FUNCTION public.shares_board_with(other_user UUID)
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1
+        FROM public.boards b
+        LEFT JOIN public.board_members mine ON mine.board_id = b.id AND mine.user_id = auth.uid()
+        LEFT JOIN public.board_members theirs ON theirs.board_id = b.id AND theirs.user_id = other_user
+        WHERE (b.user_id = auth.uid() OR mine.id IS NOT NULL)
+          AND (b.user_id = other_user OR theirs.id IS NOT NULL)
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- RLS Policies for board_members
+CREATE POLICY "Members can view fellow board members" ON public.board_members
+    FOR SELECT USING (public.can_view_board(board_id));
+
+CREATE POLICY "Owners can add board members" ON public.board_members
+    FOR INSERT WITH CHECK (public.board_role(board_id) = 'owner');
+
+CREATE POLICY "Owners can change member roles" ON public.board_members
+    FOR UPDATE USING (public.board_role(board_id) = 'owner');
+
+CREATE POLICY "Owners can remove members and members can leave" ON public.board_members
+    FOR DELETE USING (public.board_role(board_id) = 'owner' OR auth.uid() = user_id);
+
+-- Invites someone to a board by email. Members who have not signed up yet are
+-- linked to their account when they do (see claim_board_invites).
+CREATE OR REPLACE FUNCTION public.invite_board_member(board_uuid UUID, member_email TEXT, member_role TEXT)
+RETURNS public.board_members AS $$
+DECLARE
+    invited public.board_members;
+BEGIN
+    IF public.board_role(board_uuid) IS DISTINCT FROM 'owner' THEN
+        RAISE EXCEPTION 'Only board owners can invite members' USING ERRCODE = '42501';
+    END IF;
+
+    INSERT INTO public.board_members (board_id, user_id, email, role, invited_by)
+    VALUES (
+        board_uuid,
+        (SELECT id FROM auth.users WHERE lower(email) = lower(trim(member_email))),
+        lower(trim(member_email)),
+        member_role,
+        auth.uid()
+    )
+    ON CONFLICT (board_id, email) DO UPDATE SET role = EXCLUDED.role, updated_at = now()
+    RETURNING * INTO invited;
+
+    RETURN invited;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Links pending invites to a new account with the invited email
+CREATE OR REPLACE FUNCTION public.claim_board_invites()
+RETURNS trigger AS $$
+BEGIN
+    UPDATE public.board_members
+    SET user_id = NEW.id
+    WHERE user_id IS NULL AND email = lower(NEW.email);
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER on_auth_user_created_claim_invites
+    AFTER INSERT ON auth.users
+    FOR EACH ROW EXECUTE FUNCTION public.claim_board_invites();
+
+CREATE TRIGGER handle_board_members_updated_at
+    BEFORE UPDATE ON public.board_members
+    FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+-- Create indexes for board_members
+CREATE INDEX idx_board_members_board_id ON public.board_members(board_id);
+CREATE INDEX idx_board_members_user_id ON public.board_members(user_id);
+
+-- Boards: members can open and edit them; only the creator deletes them
+DROP POLICY IF EXISTS "Users can view own boards" ON public.boards;
+DROP POLICY IF EXISTS "Users can update own boards" ON public.boards;
+
+CREATE POLICY "Members can view boards" ON public.boards
+    FOR SELECT USING (auth.uid() = user_id OR public.can_view_board(id));
+
+CREATE POLICY "Editors can update boards" ON public.boards
+    FOR UPDATE USING (public.can_edit_board(id));
+
+-- Editors may change a board, but not who created it
+CREATE OR REPLACE FUNCTION public.protect_board_owner()
+RETURNS trigger AS $$
+BEGIN
+    IF NEW.user_id IS DISTINCT FROM OLD.user_id AND auth.uid() IS DISTINCT FROM OLD.user_id THEN
+        RAISE EXCEPTION 'Only the board owner can transfer a board' USING ERRCODE = '42501';
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER protect_boards_owner
+    BEFORE UPDATE ON public.boards
+    FOR EACH ROW EXECUTE FUNCTION public.protect_board_owner();
+
+-- Board chats: everyone on the board can read them, editors can add to them
+DROP POLICY IF EXISTS "Users can view their own board chats" ON public.board_chats;
+DROP POLICY IF EXISTS "Users can create their own board chats" ON public.board_chats;
+
+CREATE POLICY "Members can view board chats" ON public.board_chats
+    FOR SELECT USING (public.can_view_board(board_id));
+
+CREATE POLICY "Editors can create board chats" ON public.board_chats
+    FOR INSERT WITH CHECK (auth.uid() = user_id AND public.can_edit_board(board_id));
+
+-- Board images: everyone on the board can see them, editors can upload,
+-- uploaders and owners can delete
+DROP POLICY IF EXISTS "Users can view their own board images" ON public.board_images;
+DROP POLICY IF EXISTS "Users can create their own board images" ON public.board_images;
+DROP POLICY IF EXISTS "Users can delete their own board images" ON public.board_images;
+
+CREATE POLICY "Members can view board images" ON public.board_images
+    FOR SELECT USING (public.can_view_board(board_id));
+
+CREATE POLICY "Editors can create board images" ON public.board_images
+    FOR INSERT WITH CHECK (auth.uid() = user_id AND public.can_edit_board(board_id));
+
+CREATE POLICY "Uploaders and owners can delete board images" ON public.board_images
+    FOR DELETE USING (auth.uid() = user_id OR public.board_role(board_id) = 'owner');
+
+-- Version history and the change log follow board access too
+DROP POLICY IF EXISTS "Users can view versions of their boards" ON public.board_versions;
+DROP POLICY IF EXISTS "Users can create versions of their boards" ON public.board_versions;
+DROP POLICY IF EXISTS "Users can rename versions of their boards" ON public.board_versions;
+DROP POLICY IF EXISTS "Users can delete versions of their boards" ON public.board_versions;
+
+CREATE POLICY "Members can view board versions" ON public.board_versions
+    FOR SELECT USING (public.can_view_board(board_id));
+
+CREATE POLICY "Editors can create board versions" ON public.board_versions
+    FOR INSERT WITH CHECK (auth.uid() = user_id AND public.can_edit_board(board_id));
+
+CREATE POLICY "Owners can rename board versions" ON public.board_versions
+    FOR UPDATE USING (public.board_role(board_id) = 'owner');
+
+CREATE POLICY "Owners can delete board versions" ON public.board_versions
+    FOR DELETE USING (public.board_role(board_id) = 'owner');
+
+DROP POLICY IF EXISTS "Users can view changes of their boards" ON public.board_changes;
+DROP POLICY IF EXISTS "Users can record changes to their boards" ON public.board_changes;
+
+CREATE POLICY "Members can view board changes" ON public.board_changes
+    FOR SELECT USING (public.can_view_board(board_id));
+
+CREATE POLICY "Editors can record board changes" ON public.board_changes
+    FOR INSERT WITH CHECK (auth.uid() = user_id AND public.can_edit_board(board_id));
+
+-- Profiles: people on a board together can see each other's names
+CREATE POLICY "Users can view profiles of board collaborators" ON public.profiles
+    FOR SELECT USING (public.shares_board_with(id));
+
+-- Public board publishing
+-- A published board (is_public) can be opened read-only by anyone at /p/<public_slug>.
+-- The slug is random and long enough not to be guessed; it is kept when a board is
+-- unpublished, so publishing again brings the same link back.
+ALTER TABLE public.boards ADD COLUMN IF NOT EXISTS public_slug TEXT UNIQUE;
+
+ALTER TABLE public.boards ADD CONSTRAINT boards_published_have_slug
+    CHECK (NOT is_public OR public_slug IS NOT NULL);
+
+-- Anonymous visitors (and signed-in users) can read published boards and the changes
+-- logged on top of their checkpoint - nothing else
+CREATE POLICY "Anyone can view published boards" ON public.boards
+    FOR SELECT TO anon, authenticated
+    USING (is_public = true);
+
+CREATE POLICY "Anyone can view changes of published boards" ON public.board_changes
+    FOR SELECT TO anon, authenticated
+    USING (EXISTS (SELECT 1 FROM public.boards WHERE boards.id = board_id AND boards.is_public = true));
+
+-- Only owners decide whether a board is published
+CREATE OR REPLACE FUNCTION public.protect_board_publishing()
+RETURNS trigger AS $$
+BEGIN
+    IF (NEW.is_public IS DISTINCT FROM OLD.is_public OR NEW.public_slug IS DISTINCT FROM OLD.public_slug)
+        AND public.board_role(NEW.id) IS DISTINCT FROM 'owner' THEN
+        RAISE EXCEPTION 'Only board owners can publish a board' USING ERRCODE = '42501';
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER protect_boards_publishing
+    BEFORE UPDATE ON public.boards
+    FOR EACH ROW EXECUTE FUNCTION public.protect_board_publishing();
+
+-- Board thumbnails
+-- An image of each board's first page, shown on the dashboard. The app regenerates it
+-- after saves when the content changed (thumbnail_fingerprint) and stores it in the
+-- private board-thumbnails bucket at <board id>/thumbnail.png.
+ALTER TABLE public.boards ADD COLUMN IF NOT EXISTS thumbnail_path TEXT;
+ALTER TABLE public.boards ADD COLUMN IF NOT EXISTS thumbnail_fingerprint TEXT;
+ALTER TABLE public.boards ADD COLUMN IF NOT EXISTS thumbnail_updated_at TIMESTAMP WITH TIME ZONE;
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('board-thumbnails', 'board-thumbnails', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- Thumbnails are as private as their board: the first folder of the path is the board id
+CREATE POLICY "Members can view board thumbnails" ON storage.objects
+    FOR SELECT TO authenticated
+    USING (bucket_id = 'board-thumbnails' AND public.can_view_board(((storage.foldername(name))[1])::uuid));
+
+CREATE POLICY "Editors can upload board thumbnails" ON storage.objects
+    FOR INSERT TO authenticated
+    WITH CHECK (bucket_id = 'board-thumbnails' AND public.can_edit_board(((storage.foldername(name))[1])::uuid));
+
+CREATE POLICY "Editors can replace board thumbnails" ON storage.objects
+    FOR UPDATE TO authenticated
+    USING (bucket_id = 'board-thumbnails' AND public.can_edit_board(((storage.foldername(name))[1])::uuid))
+    WITH CHECK (bucket_id = 'board-thumbnails' AND public.can_edit_board(((storage.foldername(name))[1])::uuid));
+
+CREATE POLICY "Editors can delete board thumbnails" ON storage.objects
+    FOR DELETE TO authenticated
+    USING (bucket_id = 'board-thumbnails' AND public.can_edit_board(((storage.foldername(name))[1])::uuid));
+
+-- Dashboard search, tags and folders
+-- Folders belong to one user and can be nested; deleting a folder deletes its
+-- subfolders and moves the boards in them back to the top level.
+CREATE TABLE public.board_folders (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    parent_id UUID REFERENCES public.board_folders(id) ON DELETE CASCADE,
+    name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+ALTER TABLE public.board_folders ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their folders" ON public.board_folders
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their folders" ON public.board_folders
+    FOR INSERT WITH CHECK (
+        auth.uid() = user_id
+        AND (parent_id IS NULL OR EXISTS (
+            SELECT 1 FROM public.board_folders parent WHERE parent.id = parent_id AND parent.user_id = auth.uid()
+        ))
+    );
+
+CREATE POLICY "Users can update their folders" ON public.board_folders
+    FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their folders" ON public.board_folders
+    FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TRIGGER handle_board_folders_updated_at
+    BEFORE UPDATE ON public.board_folders
+    FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+CREATE INDEX idx_board_folders_user_id ON public.board_folders(user_id);
+
+ALTER TABLE public.boards ADD COLUMN IF NOT EXISTS folder_id UUID REFERENCES public.board_folders(id) ON DELETE SET NULL;
+ALTER TABLE public.boards ADD COLUMN IF NOT EXISTS tags TEXT[] DEFAULT '{}' NOT NULL;
+
+CREATE INDEX idx_boards_folder_id ON public.boards(folder_id);
+CREATE INDEX idx_boards_tags ON public.boards USING GIN (tags);
+
+-- Text of every shape in a stored board document (rich text, plain text and frame names)
+CREATE OR REPLACE FUNCTION public.board_shape_text(board_data JSONB)
+RETURNS TEXT AS $$
+    SELECT coalesce(string_agg(texts.value #>> '{}', ' '), '')
+    FROM (
+        SELECT jsonb_path_query(board_data, 'lax $.storeSnapshot.store.* ? (@.typeName == "shape").props.richText.** ? (@.type == "text").text')
+        UNION ALL
+        SELECT jsonb_path_query(board_data, 'lax $.storeSnapshot.store.* ? (@.typeName == "shape").props.text')
+        UNION ALL
+        SELECT jsonb_path_query(board_data, 'lax $.storeSnapshot.store.* ? (@.typeName == "shape").props.name')
+    ) AS texts(value)
+    WHERE jsonb_typeof(texts.value) = 'string';
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Name, description and shape text, weighted in that order. Shape text comes from the
+-- last checkpoint (boards.board_data), so edits still in the change log show up in
+-- search once the next checkpoint is written.
+ALTER TABLE public.boards ADD COLUMN IF NOT EXISTS search_vector TSVECTOR GENERATED ALWAYS AS (
+    setweight(to_tsvector('simple', coalesce(name, '')), 'A') ||
+    setweight(to_tsvector('simple', coalesce(description, '')), 'B') ||
+    setweight(to_tsvector('simple', public.board_shape_text(board_data)), 'C')
+) STORED;
+
+CREATE INDEX idx_boards_search_vector ON public.boards USING GIN (search_vector);
+
+-- Boards can only be filed in the owner's own folders
+CREATE OR REPLACE FUNCTION public.check_board_folder()
+RETURNS trigger AS $$
+BEGIN
+    IF NEW.folder_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM public.board_folders WHERE id = NEW.folder_id AND user_id = NEW.user_id
+    ) THEN
+        RAISE EXCEPTION 'Boards can only be moved into folders of their owner' USING ERRCODE = '42501';
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER check_boards_folder
+    BEFORE INSERT OR UPDATE OF folder_id ON public.boards
+    FOR EACH ROW EXECUTE FUNCTION public.check_board_folder();
+
+-- Every tag used on a board the caller can see, for the dashboard's tag filter
+CREATE OR REPLACE FUNCTION public.board_tags()
+RETURNS SETOF TEXT AS $$
+    SELECT DISTINCT tag
+    FROM public.boards, unnest(boards.tags) AS tag
+    WHERE public.can_view_board(boards.id)
+    ORDER BY tag;
+$$ LANGUAGE sql STABLE;
+
+-- Board lifecycle: archive and trash
+-- Archived boards are hidden from the dashboard's main grid. Deleted boards go to the
+-- trash (deleted_at) and are kept for 30 days; only then, or when the owner empties the
+-- trash, is the row deleted and its files removed from storage by the app.
+ALTER TABLE public.boards ADD COLUMN IF NOT EXISTS archived_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.boards ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_boards_archived_at ON public.boards(archived_at);
+CREATE INDEX idx_boards_deleted_at ON public.boards(deleted_at);
+
+-- Members lose access while a board is in the trash; the owner keeps it so they can restore it
+CREATE OR REPLACE FUNCTION public.board_role(board_uuid UUID)
+RETURNS TEXT AS $$
+    SELECT CASE
+        WHEN EXISTS (SELECT 1 FROM public.boards WHERE id = board_uuid AND user_id = auth.uid()) THEN 'owner'
+        WHEN EXISTS (SELECT 1 FROM public.boards WHERE id = board_uuid AND deleted_at IS NOT NULL) THEN NULL
+        ELSE (SELECT role FROM public.board_members WHERE board_id = board_uuid AND user_id = auth.uid())
+    END;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Published boards stop being public while they are in the trash
+DROP POLICY IF EXISTS "Anyone can view published boards" ON public.boards;
+DROP POLICY IF EXISTS "Anyone can view changes of published boards" ON public.board_changes;
+
+CREATE POLICY "Anyone can view published boards" ON public.boards
+    FOR SELECT TO anon, authenticated
+    USING (is_public = true AND deleted_at IS NULL);
+
+CREATE POLICY "Anyone can view changes of published boards" ON public.board_changes
+    FOR SELECT TO anon, authenticated
+    USING (EXISTS (
+        SELECT 1 FROM public.boards WHERE boards.id = board_id AND boards.is_public = true AND boards.deleted_at IS NULL
+    ));
+
+-- Only owners archive, trash and restore boards
+CREATE OR REPLACE FUNCTION public.protect_board_lifecycle()
+RETURNS trigger AS $$
+BEGIN
+    IF (NEW.archived_at IS DISTINCT FROM OLD.archived_at OR NEW.deleted_at IS DISTINCT FROM OLD.deleted_at)
+        AND public.board_role(NEW.id) IS DISTINCT FROM 'owner' THEN
+        RAISE EXCEPTION 'Only board owners can archive or delete a board' USING ERRCODE = '42501';
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER protect_boards_lifecycle
+    BEFORE UPDATE ON public.boards
+    FOR EACH ROW EXECUTE FUNCTION public.protect_board_lifecycle();
+
+-- Template usage outlives the boards it was recorded for
+ALTER TABLE public.template_usage DROP CONSTRAINT IF EXISTS template_usage_board_id_fkey;
+ALTER TABLE public.template_usage ADD CONSTRAINT template_usage_board_id_fkey
+    FOREIGN KEY (board_id) REFERENCES public.boards(id) ON DELETE SET NULL;
+
+-- Template previews
+-- An image of the page a template was saved from, rendered when it is saved and stored
+-- in the private template-previews bucket at <template id>/preview.png (templates.preview_image).
+-- Whoever can see a template can see its preview; only its owner can change it.
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('template-previews', 'template-previews', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can view previews of visible templates" ON storage.objects
+    FOR SELECT TO authenticated
+    USING (bucket_id = 'template-previews' AND EXISTS (
+        SELECT 1 FROM public.templates
+        WHERE templates.id::text = (storage.foldername(name))[1]
+          AND (templates.is_public OR templates.user_id = auth.uid())
+    ));
+
+CREATE POLICY "Owners can upload template previews" ON storage.objects
+    FOR INSERT TO authenticated
+    WITH CHECK (bucket_id = 'template-previews' AND EXISTS (
+        SELECT 1 FROM public.templates
+        WHERE templates.id::text = (storage.foldername(name))[1] AND templates.user_id = auth.uid()
+    ));
+
+CREATE POLICY "Owners can replace template previews" ON storage.objects
+    FOR UPDATE TO authenticated
+    USING (bucket_id = 'template-previews' AND EXISTS (
+        SELECT 1 FROM public.templates
+        WHERE templates.id::text = (storage.foldername(name))[1] AND templates.user_id = auth.uid()
+    ))
+    WITH CHECK (bucket_id = 'template-previews' AND EXISTS (
+        SELECT 1 FROM public.templates
+        WHERE templates.id::text = (storage.foldername(name))[1] AND templates.user_id = auth.uid()
+    ));
+
+CREATE POLICY "Owners can delete template previews" ON storage.objects
+    FOR DELETE TO authenticated
+    USING (bucket_id = 'template-previews' AND EXISTS (
+        SELECT 1 FROM public.templates
+        WHERE templates.id::text = (storage.foldername(name))[1] AND templates.user_id = auth.uid()
+    ));
+
+-- Template marketplace
+-- Public templates can be searched, rated and reviewed, and forked (copied) into your own
+-- templates. One review per person per template; authors can't review their own.
+CREATE TABLE public.template_reviews (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    template_id UUID REFERENCES public.templates(id) ON DELETE CASCADE NOT NULL,
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    rating SMALLINT NOT NULL CHECK (rating BETWEEN 1 AND 5),
+    comment TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+    UNIQUE (template_id, user_id)
+);
+
+ALTER TABLE public.template_reviews ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX idx_template_reviews_template_id ON public.template_reviews(template_id);
+
+CREATE TRIGGER handle_template_reviews_updated_at
+    BEFORE UPDATE ON public.template_reviews
+    FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+CREATE POLICY "Users can view reviews of visible templates" ON public.template_reviews
+    FOR SELECT USING (EXISTS (
+        SELECT 1 FROM public.templates
+        WHERE templates.id = template_id AND (templates.is_public OR templates.user_id = auth.uid())
+    ));
+
+CREATE POLICY "Users can review public templates of others" ON public.template_reviews
+    FOR INSERT WITH CHECK (auth.uid() = user_id AND EXISTS (
+        SELECT 1 FROM public.templates
+        WHERE templates.id = template_id AND templates.is_public AND templates.user_id <> auth.uid()
+    ));
+
+CREATE POLICY "Users can update their own reviews" ON public.template_reviews
+    FOR UPDATE USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own reviews" ON public.template_reviews
+    FOR DELETE USING (auth.uid() = user_id);
+
+-- Rating totals are kept on the template so the marketplace can sort by them
+ALTER TABLE public.templates ADD COLUMN IF NOT EXISTS rating_count INTEGER DEFAULT 0 NOT NULL;
+ALTER TABLE public.templates ADD COLUMN IF NOT EXISTS rating_average NUMERIC(3, 2);
+
+CREATE OR REPLACE FUNCTION public.refresh_template_rating()
+RETURNS trigger AS $$
+DECLARE
+    template_uuid UUID := COALESCE(NEW.template_id, OLD.template_id);
+BEGIN
+    UPDATE public.templates
+    SET rating_count = stats.count,
+        rating_average = stats.average
+    FROM (
+        SELECT count(*) AS count, round(avg(rating), 2) AS average
+        FROM public.template_reviews
+        WHERE template_id = template_uuid
+    ) AS stats
+    WHERE id = template_uuid;
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER refresh_template_reviews_rating
+    AFTER INSERT OR UPDATE OR DELETE ON public.template_reviews
+    FOR EACH ROW EXECUTE FUNCTION public.refresh_template_rating();
+
+CREATE INDEX idx_templates_rating_average ON public.templates(rating_average DESC NULLS LAST);
+
+-- A fork remembers the template it was copied from; forks start out private
+ALTER TABLE public.templates ADD COLUMN IF NOT EXISTS forked_from UUID REFERENCES public.templates(id) ON DELETE SET NULL;
+
+-- Search covers the name, then the description
+ALTER TABLE public.templates ADD COLUMN IF NOT EXISTS search_vector TSVECTOR GENERATED ALWAYS AS (
+    setweight(to_tsvector('simple', coalesce(name, '')), 'A') ||
+    setweight(to_tsvector('simple', coalesce(description, '')), 'B')
+) STORED;
+
+CREATE INDEX idx_templates_search_vector ON public.templates USING GIN (search_vector);
+
+-- Names of the people who publish or review templates, to credit them. Only the name is
+-- exposed: the view runs as its owner, so it reads past the profiles policies, which keep
+-- the rest of a profile (such as the email) private.
+CREATE OR REPLACE VIEW public.template_authors AS
+    SELECT profiles.id, profiles.full_name,
+        (SELECT count(*) FROM public.templates WHERE templates.user_id = profiles.id AND templates.is_public) AS public_template_count
+    FROM public.profiles
+    WHERE EXISTS (SELECT 1 FROM public.templates WHERE templates.user_id = profiles.id AND templates.is_public)
+       OR EXISTS (
+           SELECT 1 FROM public.template_reviews
+           JOIN public.templates ON templates.id = template_reviews.template_id
+           WHERE template_reviews.user_id = profiles.id AND templates.is_public
+       );
+
+GRANT SELECT ON public.template_authors TO authenticated;
+
+-- Template versions
+-- Every change to a template's content is kept as a numbered version, so boards made
+-- from an older version can still be traced back to what they were made from
+-- (template_usage.template_version). templates.template_data is always the latest version.
+ALTER TABLE public.templates ADD COLUMN IF NOT EXISTS version INTEGER DEFAULT 1 NOT NULL;
+
+CREATE TABLE public.template_versions (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    template_id UUID REFERENCES public.templates(id) ON DELETE CASCADE NOT NULL,
+    version INTEGER NOT NULL,
+    template_data JSONB NOT NULL,
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+    UNIQUE (template_id, version)
+);
+
+ALTER TABLE public.template_versions ENABLE ROW LEVEL SECURITY;
+
+-- Versions are written by the triggers below; only the template's owner can read them
+CREATE POLICY "Owners can view template versions" ON public.template_versions
+    FOR SELECT USING (EXISTS (
+        SELECT 1 FROM public.templates
+        WHERE templates.id = template_id AND templates.user_id = auth.uid()
+    ));
+
+-- Saving new content bumps the version number...
+CREATE OR REPLACE FUNCTION public.bump_template_version()
+RETURNS trigger AS $$
+BEGIN
+    IF NEW.template_data IS DISTINCT FROM OLD.template_data THEN
+        NEW.version = OLD.version + 1;
+        NEW.updated_at = timezone('utc'::text, now());
+    ELSE
+        NEW.version = OLD.version;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER bump_templates_version
+    BEFORE UPDATE ON public.templates
+    FOR EACH ROW EXECUTE FUNCTION public.bump_template_version();
+
+-- ...and every version, including the first, is stored
+CREATE OR REPLACE FUNCTION public.store_template_version()
+RETURNS trigger AS $$
+BEGIN
+    IF TG_OP = 'INSERT' OR NEW.version <> OLD.version THEN
+        INSERT INTO public.template_versions (template_id, version, template_data, user_id)
+        VALUES (NEW.id, NEW.version, NEW.template_data, COALESCE(auth.uid(), NEW.user_id))
+        ON CONFLICT (template_id, version) DO NOTHING;
+    END IF;
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER store_templates_version
+    AFTER INSERT OR UPDATE ON public.templates
+    FOR EACH ROW EXECUTE FUNCTION public.store_template_version();
+
+INSERT INTO public.template_versions (template_id, version, template_data, user_id, created_at)
+SELECT id, version, template_data, user_id, updated_at FROM public.templates
+ON CONFLICT (template_id, version) DO NOTHING;
+
+-- Which version a board was made from
+ALTER TABLE public.template_usage ADD COLUMN IF NOT EXISTS template_version INTEGER;
+
+-- A board opened to edit a template; its owner can save it back as a new version
+ALTER TABLE public.boards ADD COLUMN IF NOT EXISTS editing_template_id UUID REFERENCES public.templates(id) ON DELETE SET NULL;
+
+-- Template usage analytics
+-- Each use is recorded against the board the template was applied to. Usage rows stay
+-- private to whoever used the template; its author sees totals through
+-- template_usage_stats, never who used it or on which board.
+DROP POLICY IF EXISTS "Users can create template usage records" ON public.template_usage;
+
+CREATE POLICY "Users can record template use on boards they edit" ON public.template_usage
+    FOR INSERT WITH CHECK (auth.uid() = user_id AND (board_id IS NULL OR public.can_edit_board(board_id)));
+
+CREATE INDEX idx_template_usage_board_id ON public.template_usage(board_id);
+
+-- Uses, unique users and boards made from a template, with weekly uses for the last
+-- 12 weeks and uses per version. Only the template's author can call it.
+CREATE OR REPLACE FUNCTION public.template_usage_stats(template_uuid UUID)
+RETURNS JSONB AS $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM public.templates WHERE id = template_uuid AND user_id = auth.uid()) THEN
+        RAISE EXCEPTION 'Only the author of a template can see how it is used' USING ERRCODE = '42501';
+    END IF;
+
+    RETURN jsonb_build_object(
+        'total_uses', (SELECT count(*) FROM public.template_usage WHERE template_id = template_uuid),
+        'unique_users', (SELECT count(DISTINCT user_id) FROM public.template_usage WHERE template_id = template_uuid),
+        'boards', (SELECT count(DISTINCT board_id) FROM public.template_usage WHERE template_id = template_uuid),
+        -- Boards that are neither archived nor in the trash
+        'active_boards', (
+            SELECT count(DISTINCT template_usage.board_id)
+            FROM public.template_usage
+            JOIN public.boards ON boards.id = template_usage.board_id
+            WHERE template_usage.template_id = template_uuid
+              AND boards.archived_at IS NULL AND boards.deleted_at IS NULL
+        ),
+        'weekly_uses', (
+            SELECT jsonb_agg(jsonb_build_object('week', weeks.week, 'uses', (
+                SELECT count(*) FROM public.template_usage
+                WHERE template_id = template_uuid AND date_trunc('week', used_at) = weeks.week
+            )) ORDER BY weeks.week)
+            FROM generate_series(date_trunc('week', now()) - interval '11 weeks', date_trunc('week', now()), interval '1 week') AS weeks(week)
+        ),
+        'version_uses', (
+            SELECT coalesce(jsonb_agg(jsonb_build_object('version', versions.template_version, 'uses', versions.uses)
+                ORDER BY versions.template_version DESC NULLS LAST), '[]'::jsonb)
+            FROM (
+                SELECT template_version, count(*) AS uses
+                FROM public.template_usage
+                WHERE template_id = template_uuid
+                GROUP BY template_version
+            ) AS versions
+        )
+    );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Published boards are served by slug only
+-- Table policies would let anyone list every published board (with its owner and
+-- description); visitors instead ask for one board by its slug and get its name and
+-- content back - its checkpoint plus the changes logged on top of it.
+DROP POLICY IF EXISTS "Anyone can view published boards" ON public.boards;
+DROP POLICY IF EXISTS "Anyone can view changes of published boards" ON public.board_changes;
+
+CREATE OR REPLACE FUNCTION public.get_published_board(slug TEXT)
+RETURNS JSONB AS $$
+    SELECT jsonb_build_object(
+        'name', boards.name,
+        'board_data', boards.board_data,
+        'changes', (
+            SELECT coalesce(jsonb_agg(board_changes.changes ORDER BY board_changes.revision), '[]'::jsonb)
+            FROM public.board_changes
+            WHERE board_changes.board_id = boards.id
+              AND board_changes.revision > boards.checkpoint_revision
+              AND board_changes.revision <= boards.revision
+        )
+    )
+    FROM public.boards
+    WHERE boards.public_slug = slug AND boards.is_public = true AND boards.deleted_at IS NULL;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.get_published_board(TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_published_board(TEXT) TO anon, authenticated;
+
+-- The sync server is the only writer of board content
+-- Each board has one sync room. The server loads it from the board (checkpoint plus
+-- change log) and writes it back: edits go to board_changes, and every so often the
+-- whole room becomes a new checkpoint. sync_rooms keeps the room's sync state with
+-- the board revision it was written at; a room whose board moved on since is loaded
+-- from the board instead. Signed-in users can no longer write content directly -
+-- two writers would overwrite each other's work.
+ALTER TABLE public.sync_rooms ADD COLUMN IF NOT EXISTS board_revision INTEGER;
+
+-- Changes are written by the server, not by a user
+ALTER TABLE public.board_changes ALTER COLUMN user_id DROP NOT NULL;
+
+DROP POLICY IF EXISTS "Editors can record board changes" ON public.board_changes;
+
+REVOKE EXECUTE ON FUNCTION public.append_board_change(UUID, INTEGER, JSONB) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.protect_board_content()
+RETURNS trigger AS $$
+BEGIN
+    -- auth.uid() is only set for signed-in users; the server uses the service role
+    IF auth.uid() IS NOT NULL AND (
+        NEW.board_data IS DISTINCT FROM OLD.board_data
+        OR NEW.revision IS DISTINCT FROM OLD.revision
+    ) THEN
+        RAISE EXCEPTION 'Board content is saved by the sync server' USING ERRCODE = '42501';
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER protect_boards_content
+    BEFORE UPDATE ON public.boards
+    FOR EACH ROW EXECUTE FUNCTION public.protect_board_content();
+
+-- Board details belong to owners
+-- Editors can update a board so their sessions can refresh its thumbnail; everything
+-- else on the row - name, description, folder, tags, publishing - is for owners only.
+-- Content is written by the sync server (see protect_board_content).
+DROP POLICY IF EXISTS "Editors can update boards" ON public.boards;
+
+CREATE POLICY "Editors can update boards" ON public.boards
+    FOR UPDATE USING (public.can_edit_board(id))
+    WITH CHECK (public.can_edit_board(id));
+
+CREATE OR REPLACE FUNCTION public.protect_board_details()
+RETURNS trigger AS $$
+DECLARE
+    -- Columns editors may change, and ones the database derives itself
+    editor_columns TEXT[] := ARRAY[
+        'thumbnail_path', 'thumbnail_fingerprint', 'thumbnail_updated_at',
+        'updated_at', 'checkpoint_revision', 'search_vector'
+    ];
+BEGIN
+    IF auth.uid() IS NULL OR public.board_role(NEW.id) = 'owner' THEN
+        RETURN NEW;
+    END IF;
+
+    IF to_jsonb(NEW) - editor_columns IS DISTINCT FROM to_jsonb(OLD) - editor_columns THEN
+        RAISE EXCEPTION 'Only board owners can change a board''s details' USING ERRCODE = '42501';
+    END IF;
+
+    -- The thumbnail has to be the board's own (or none)
+    IF NEW.thumbnail_path IS DISTINCT FROM OLD.thumbnail_path
+        AND NEW.thumbnail_path IS NOT NULL
+        AND NEW.thumbnail_path <> NEW.id || '/thumbnail.png' THEN
+        RAISE EXCEPTION 'Board thumbnails live at <board id>/thumbnail.png' USING ERRCODE = '42501';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER protect_boards_details
+    BEFORE UPDATE ON public.boards
+    FOR EACH ROW EXECUTE FUNCTION public.protect_board_details();
+
+-- Template counters
+-- usage_count, rating_count and rating_average are kept by the database, never by the
+-- template's author. Statements run as a client role (anon / authenticated) can't set
+-- them; the functions below run as their owner and can.
+CREATE OR REPLACE FUNCTION public.protect_template_counters()
+RETURNS trigger AS $$
+BEGIN
+    IF current_user NOT IN ('anon', 'authenticated') THEN
+        RETURN NEW;
+    END IF;
+
+    -- New templates, forks included, start from zero
+    IF TG_OP = 'INSERT' THEN
+        NEW.usage_count = 0;
+        NEW.rating_count = 0;
+        NEW.rating_average = NULL;
+        RETURN NEW;
+    END IF;
+
+    IF NEW.usage_count IS DISTINCT FROM OLD.usage_count
+        OR NEW.rating_count IS DISTINCT FROM OLD.rating_count
+        OR NEW.rating_average IS DISTINCT FROM OLD.rating_average THEN
+        RAISE EXCEPTION 'Template usage and ratings are counted by the database' USING ERRCODE = '42501';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER protect_templates_counters
+    BEFORE INSERT OR UPDATE ON public.templates
+    FOR EACH ROW EXECUTE FUNCTION public.protect_template_counters();
+
+-- Each recorded use counts once: increment_template_usage marks one of the caller's
+-- uncounted uses of the template as counted, and does nothing without one
+ALTER TABLE public.template_usage ADD COLUMN IF NOT EXISTS counted BOOLEAN DEFAULT false NOT NULL;
+
+UPDATE public.template_usage SET counted = true WHERE NOT counted;
+
+CREATE OR REPLACE FUNCTION public.increment_template_usage(template_uuid UUID)
+RETURNS VOID AS $$
+BEGIN
+    UPDATE public.template_usage
+    SET counted = true
+    WHERE id = (
+        SELECT id FROM public.template_usage
+        WHERE template_id = template_uuid AND user_id = auth.uid() AND NOT counted
+        ORDER BY used_at
+        LIMIT 1
+        FOR UPDATE SKIP LOCKED
+    );
+
+    IF NOT FOUND THEN
+        RETURN;
+    END IF;
+
+    UPDATE public.templates
+    SET usage_count = usage_count + 1,
+        updated_at = now()
+    WHERE id = template_uuid;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.increment_template_usage(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.increment_template_usage(UUID) TO authenticated;
+
+-- A review stays on the template it was written for, under the same rules as writing it
+DROP POLICY IF EXISTS "Users can update their own reviews" ON public.template_reviews;
+
+CREATE POLICY "Users can update their own reviews" ON public.template_reviews
+    FOR UPDATE USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id AND EXISTS (
+        SELECT 1 FROM public.templates
+        WHERE templates.id = template_id AND templates.is_public AND templates.user_id <> auth.uid()
+    ));
+
+-- Authors are credited to signed-in people only
+REVOKE SELECT ON public.template_authors FROM anon;
+
+-- Folders move only into the user's own folders, and never into themselves or one of
+-- their own subfolders
+DROP POLICY IF EXISTS "Users can update their folders" ON public.board_folders;
+
+CREATE POLICY "Users can update their folders" ON public.board_folders
+    FOR UPDATE USING (auth.uid() = user_id)
+    WITH CHECK (
+        auth.uid() = user_id
+        AND (parent_id IS NULL OR EXISTS (
+            SELECT 1 FROM public.board_folders parent WHERE parent.id = parent_id AND parent.user_id = auth.uid()
+        ))
+    );
+
+CREATE OR REPLACE FUNCTION public.check_folder_parent()
+RETURNS trigger AS $$
+BEGIN
+    IF NEW.parent_id IS NOT NULL AND EXISTS (
+        WITH RECURSIVE ancestors(id, parent_id) AS (
+            SELECT id, parent_id FROM public.board_folders WHERE id = NEW.parent_id
+            UNION
+            SELECT folders.id, folders.parent_id
+            FROM public.board_folders folders
+            JOIN ancestors ON folders.id = ancestors.parent_id
+        )
+        SELECT 1 FROM ancestors WHERE id = NEW.id
+    ) THEN
+        RAISE EXCEPTION 'A folder can''t be moved into itself or one of its subfolders' USING ERRCODE = '23514';
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER check_board_folders_parent
+    BEFORE INSERT OR UPDATE OF parent_id ON public.board_folders
+    FOR EACH ROW EXECUTE FUNCTION public.check_folder_parent();
+
+-- Refreshing a board's thumbnail isn't a change to the board: updates that only touch
+-- the thumbnail columns keep updated_at, so the dashboard's "last updated" order holds
+CREATE OR REPLACE FUNCTION public.handle_board_updated_at()
+RETURNS trigger AS $$
+DECLARE
+    -- search_vector is generated after BEFORE triggers, so NEW doesn't have it yet
+    thumbnail_columns TEXT[] := ARRAY[
+        'thumbnail_path', 'thumbnail_fingerprint', 'thumbnail_updated_at', 'updated_at', 'search_vector'
+    ];
+BEGIN
+    IF to_jsonb(NEW) - thumbnail_columns = to_jsonb(OLD) - thumbnail_columns THEN
+        NEW.updated_at = OLD.updated_at;
+    ELSE
+        NEW.updated_at = timezone('utc'::text, now());
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS handle_boards_updated_at ON public.boards;
+
+CREATE TRIGGER handle_boards_updated_at
+    BEFORE UPDATE ON public.boards
+    FOR EACH ROW EXECUTE FUNCTION public.handle_board_updated_at();